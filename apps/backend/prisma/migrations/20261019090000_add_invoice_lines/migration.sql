@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "amountTVA" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "InvoiceLine" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT,
+    "unitPriceHT" DOUBLE PRECISION NOT NULL,
+    "vatRate" DOUBLE PRECISION NOT NULL DEFAULT 20.0,
+    "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalHT" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "InvoiceLine_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: every existing invoice becomes a single line at its former rate
+INSERT INTO "InvoiceLine" ("id", "invoiceId", "position", "description", "quantity", "unitPriceHT", "vatRate", "discount", "totalHT")
+SELECT gen_random_uuid()::text, "id", 0, "title", 1, "amountHT", "tva", 0, "amountHT"
+FROM "Invoice";
+
+UPDATE "Invoice" SET "amountTVA" = ROUND(("amountTTC" - "amountHT")::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "Invoice" DROP COLUMN "tva";
+
+-- CreateIndex
+CREATE INDEX "InvoiceLine_invoiceId_idx" ON "InvoiceLine"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
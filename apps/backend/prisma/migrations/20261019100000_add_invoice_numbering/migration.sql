@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "SequenceType" AS ENUM ('INVOICE');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "invoiceNumberPattern" TEXT NOT NULL DEFAULT 'FA-{YYYY}-{seq:4}';
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "issuedAt" TIMESTAMP(3),
+ADD COLUMN     "number" TEXT;
+
+-- CreateTable
+CREATE TABLE "DocumentSequence" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "SequenceType" NOT NULL,
+    "period" TEXT NOT NULL DEFAULT '',
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentSequence_userId_type_period_key" ON "DocumentSequence"("userId", "type", "period");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_userId_number_key" ON "Invoice"("userId", "number");
+
+-- AddForeignKey
+ALTER TABLE "DocumentSequence" ADD CONSTRAINT "DocumentSequence_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
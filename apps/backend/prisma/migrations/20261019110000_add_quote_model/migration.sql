@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "QuoteStatus" AS ENUM ('DRAFT', 'SENT', 'ACCEPTED', 'REJECTED', 'EXPIRED');
+
+-- AlterEnum
+ALTER TYPE "SequenceType" ADD VALUE 'QUOTE';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "quoteNumberPattern" TEXT NOT NULL DEFAULT 'DE-{YYYY}-{seq:4}';
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "quoteId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Quote" (
+    "id" TEXT NOT NULL,
+    "number" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "status" "QuoteStatus" NOT NULL DEFAULT 'DRAFT',
+    "validUntil" TIMESTAMP(3) NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "userId" TEXT NOT NULL,
+    "amountHT" DOUBLE PRECISION NOT NULL,
+    "amountTVA" DOUBLE PRECISION NOT NULL,
+    "amountTTC" DOUBLE PRECISION NOT NULL,
+    "pdfUrl" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Quote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuoteLine" (
+    "id" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT,
+    "unitPriceHT" DOUBLE PRECISION NOT NULL,
+    "vatRate" DOUBLE PRECISION NOT NULL DEFAULT 20.0,
+    "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalHT" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "QuoteLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Quote_userId_number_key" ON "Quote"("userId", "number");
+
+-- CreateIndex
+CREATE INDEX "QuoteLine_quoteId_idx" ON "QuoteLine"("quoteId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_quoteId_key" ON "Invoice"("quoteId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuoteLine" ADD CONSTRAINT "QuoteLine_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "InvoiceStatus" ADD VALUE 'CANCELLED';
+
+-- CreateTable
+CREATE TABLE "InvoiceStatusEvent" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "fromStatus" "InvoiceStatus" NOT NULL,
+    "toStatus" "InvoiceStatus" NOT NULL,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceStatusEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InvoiceStatusEvent_invoiceId_idx" ON "InvoiceStatusEvent"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceStatusEvent" ADD CONSTRAINT "InvoiceStatusEvent_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceStatusEvent" ADD CONSTRAINT "InvoiceStatusEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- AlterEnum
+ALTER TYPE "InvoiceStatus" ADD VALUE 'CREDITED';
+
+-- AlterEnum
+ALTER TYPE "SequenceType" ADD VALUE 'CREDIT_NOTE';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "creditNoteNumberPattern" TEXT NOT NULL DEFAULT 'AV-{YYYY}-{seq:4}';
+
+-- CreateTable
+CREATE TABLE "CreditNote" (
+    "id" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "reason" TEXT,
+    "invoiceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amountHT" DOUBLE PRECISION NOT NULL,
+    "amountTVA" DOUBLE PRECISION NOT NULL,
+    "amountTTC" DOUBLE PRECISION NOT NULL,
+    "pdfUrl" TEXT,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CreditNoteLine" (
+    "id" TEXT NOT NULL,
+    "creditNoteId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT,
+    "unitPriceHT" DOUBLE PRECISION NOT NULL,
+    "vatRate" DOUBLE PRECISION NOT NULL DEFAULT 20.0,
+    "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalHT" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "CreditNoteLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CreditNote_invoiceId_idx" ON "CreditNote"("invoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditNote_userId_number_key" ON "CreditNote"("userId", "number");
+
+-- CreateIndex
+CREATE INDEX "CreditNoteLine_creditNoteId_idx" ON "CreditNoteLine"("creditNoteId");
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNoteLine" ADD CONSTRAINT "CreditNoteLine_creditNoteId_fkey" FOREIGN KEY ("creditNoteId") REFERENCES "CreditNote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "PaymentTerms" AS ENUM ('ON_RECEIPT', 'NET_15', 'NET_30', 'NET_45', 'NET_60', 'END_OF_MONTH_30', 'END_OF_MONTH_45');
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "paymentTerms" "PaymentTerms" NOT NULL DEFAULT 'NET_30';
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "dueDate" TIMESTAMP(3),
+ADD COLUMN     "latePenaltyRate" DOUBLE PRECISION,
+ADD COLUMN     "paymentTerms" "PaymentTerms";
+
+-- CreateIndex
+CREATE INDEX "Invoice_status_dueDate_idx" ON "Invoice"("status", "dueDate");
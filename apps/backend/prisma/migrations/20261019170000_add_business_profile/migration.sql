@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "billingAddressLine1" TEXT,
+ADD COLUMN     "billingAddressLine2" TEXT,
+ADD COLUMN     "billingCity" TEXT,
+ADD COLUMN     "billingCountry" TEXT,
+ADD COLUMN     "billingPostalCode" TEXT,
+ADD COLUMN     "siren" TEXT,
+ADD COLUMN     "vatNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "BusinessProfile" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "legalName" TEXT NOT NULL,
+    "tradeName" TEXT,
+    "legalForm" TEXT,
+    "addressLine1" TEXT NOT NULL,
+    "addressLine2" TEXT,
+    "postalCode" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "country" TEXT NOT NULL DEFAULT 'FR',
+    "email" TEXT,
+    "phone" TEXT,
+    "siren" TEXT,
+    "siret" TEXT,
+    "registration" TEXT,
+    "vatNumber" TEXT,
+    "vatMention" TEXT,
+    "bankName" TEXT,
+    "iban" TEXT,
+    "bic" TEXT,
+    "logo" BYTEA,
+    "logoMimeType" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BusinessProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BusinessProfile_userId_key" ON "BusinessProfile"("userId");
+
+-- AddForeignKey
+ALTER TABLE "BusinessProfile" ADD CONSTRAINT "BusinessProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
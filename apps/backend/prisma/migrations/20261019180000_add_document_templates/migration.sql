@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "Language" AS ENUM ('FR', 'EN');
+
+-- CreateEnum
+CREATE TYPE "DocumentTemplate" AS ENUM ('CLASSIC', 'MODERN', 'MINIMAL');
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "language" "Language" NOT NULL DEFAULT 'FR';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "documentAccentColor" TEXT NOT NULL DEFAULT '#1f2937',
+ADD COLUMN     "documentFooter" TEXT,
+ADD COLUMN     "documentTemplate" "DocumentTemplate" NOT NULL DEFAULT 'CLASSIC';
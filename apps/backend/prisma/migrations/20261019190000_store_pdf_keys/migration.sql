@@ -0,0 +1,11 @@
+-- Documents are now addressed by a storage key instead of an absolute server
+-- path. Old paths are not reachable from other replicas: they are cleared and
+-- the PDFs are generated again on first download.
+ALTER TABLE "Invoice" RENAME COLUMN "pdfUrl" TO "pdfKey";
+UPDATE "Invoice" SET "pdfKey" = NULL;
+
+ALTER TABLE "Quote" RENAME COLUMN "pdfUrl" TO "pdfKey";
+UPDATE "Quote" SET "pdfKey" = NULL;
+
+ALTER TABLE "CreditNote" RENAME COLUMN "pdfUrl" TO "pdfKey";
+UPDATE "CreditNote" SET "pdfKey" = NULL;
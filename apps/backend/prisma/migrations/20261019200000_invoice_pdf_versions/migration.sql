@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "InvoicePdfVersion" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "status" "InvoiceStatus" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoicePdfVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoicePdfVersion_invoiceId_version_key" ON "InvoicePdfVersion"("invoiceId", "version");
+
+-- AddForeignKey
+ALTER TABLE "InvoicePdfVersion" ADD CONSTRAINT "InvoicePdfVersion_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "EmailStatus" AS ENUM ('SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "mailSenderName" TEXT;
+
+-- CreateTable
+CREATE TABLE "DocumentEmail" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT,
+    "quoteId" TEXT,
+    "to" TEXT[],
+    "cc" TEXT[],
+    "bcc" TEXT[],
+    "subject" TEXT NOT NULL,
+    "status" "EmailStatus" NOT NULL,
+    "messageId" TEXT,
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentEmail_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentEmail_invoiceId_idx" ON "DocumentEmail"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "DocumentEmail_quoteId_idx" ON "DocumentEmail"("quoteId");
+
+-- AddForeignKey
+ALTER TABLE "DocumentEmail" ADD CONSTRAINT "DocumentEmail_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentEmail" ADD CONSTRAINT "DocumentEmail_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
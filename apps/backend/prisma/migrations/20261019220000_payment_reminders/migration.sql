@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "ReminderTone" AS ENUM ('COURTESY', 'REMINDER', 'FIRM', 'FORMAL_NOTICE');
+
+-- CreateEnum
+CREATE TYPE "ReminderStatus" AS ENUM ('PENDING', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN "remindersPaused" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "reminderSequenceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "remindersPaused" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ReminderSequence" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReminderSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReminderStep" (
+    "id" TEXT NOT NULL,
+    "sequenceId" TEXT NOT NULL,
+    "offsetDays" INTEGER NOT NULL,
+    "tone" "ReminderTone" NOT NULL,
+    "subject" TEXT,
+    "body" TEXT,
+
+    CONSTRAINT "ReminderStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PaymentReminder" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "offsetDays" INTEGER NOT NULL,
+    "tone" "ReminderTone" NOT NULL,
+    "to" TEXT[],
+    "subject" TEXT NOT NULL,
+    "status" "ReminderStatus" NOT NULL DEFAULT 'PENDING',
+    "messageId" TEXT,
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReminderSequence_userId_idx" ON "ReminderSequence"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReminderStep_sequenceId_offsetDays_key" ON "ReminderStep"("sequenceId", "offsetDays");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentReminder_invoiceId_offsetDays_key" ON "PaymentReminder"("invoiceId", "offsetDays");
+
+-- AddForeignKey
+ALTER TABLE "Client" ADD CONSTRAINT "Client_reminderSequenceId_fkey" FOREIGN KEY ("reminderSequenceId") REFERENCES "ReminderSequence"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReminderSequence" ADD CONSTRAINT "ReminderSequence_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReminderStep" ADD CONSTRAINT "ReminderStep_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "ReminderSequence"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentReminder" ADD CONSTRAINT "PaymentReminder_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
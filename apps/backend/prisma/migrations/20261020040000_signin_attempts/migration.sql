@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "SigninFailure" AS ENUM ('PASSWORD', 'CODE', 'LOCKED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "failedSigninCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "SigninAttempt" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" TEXT,
+    "reason" "SigninFailure" NOT NULL,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SigninAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SigninAttempt_email_createdAt_idx" ON "SigninAttempt"("email", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SigninAttempt_userId_idx" ON "SigninAttempt"("userId");
+
+-- AddForeignKey
+ALTER TABLE "SigninAttempt" ADD CONSTRAINT "SigninAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
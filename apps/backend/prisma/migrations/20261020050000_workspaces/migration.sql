@@ -0,0 +1,170 @@
+-- CreateEnum
+CREATE TYPE "WorkspaceRole" AS ENUM ('OWNER', 'ADMIN', 'MEMBER', 'ACCOUNTANT');
+
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "invoiceNumberPattern" TEXT NOT NULL DEFAULT 'FA-{YYYY}-{seq:4}',
+    "quoteNumberPattern" TEXT NOT NULL DEFAULT 'DE-{YYYY}-{seq:4}',
+    "creditNoteNumberPattern" TEXT NOT NULL DEFAULT 'AV-{YYYY}-{seq:4}',
+    "documentTemplate" "DocumentTemplate" NOT NULL DEFAULT 'CLASSIC',
+    "documentAccentColor" TEXT NOT NULL DEFAULT '#1f2937',
+    "documentFooter" TEXT,
+    "mailSenderName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Workspace_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceMember" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "WorkspaceRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkspaceMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceInvitation" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "WorkspaceRole" NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkspaceInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- Each existing user owns a personal workspace with the same id, which
+-- keeps the owner columns below valid once they point to workspaces
+INSERT INTO "Workspace" ("id", "name", "invoiceNumberPattern", "quoteNumberPattern", "creditNoteNumberPattern", "documentTemplate", "documentAccentColor", "documentFooter", "mailSenderName", "updatedAt")
+SELECT "id", "email", "invoiceNumberPattern", "quoteNumberPattern", "creditNoteNumberPattern", "documentTemplate", "documentAccentColor", "documentFooter", "mailSenderName", CURRENT_TIMESTAMP
+FROM "User";
+
+INSERT INTO "WorkspaceMember" ("id", "workspaceId", "userId", "role")
+SELECT "id", "id", "id", 'OWNER' FROM "User";
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "invoiceNumberPattern",
+DROP COLUMN "quoteNumberPattern",
+DROP COLUMN "creditNoteNumberPattern",
+DROP COLUMN "documentTemplate",
+DROP COLUMN "documentAccentColor",
+DROP COLUMN "documentFooter",
+DROP COLUMN "mailSenderName";
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "workspaceId" TEXT;
+
+UPDATE "Session" SET "workspaceId" = "userId";
+
+-- AlterTable
+ALTER TABLE "Client" DROP CONSTRAINT "Client_userId_fkey";
+ALTER TABLE "Client" RENAME COLUMN "userId" TO "workspaceId";
+
+-- AlterTable
+ALTER TABLE "Project" DROP CONSTRAINT "Project_userId_fkey";
+ALTER TABLE "Project" RENAME COLUMN "userId" TO "workspaceId";
+
+-- AlterTable
+ALTER TABLE "Invoice" DROP CONSTRAINT "Invoice_userId_fkey";
+ALTER TABLE "Invoice" RENAME COLUMN "userId" TO "workspaceId";
+
+ALTER INDEX "Invoice_userId_number_key" RENAME TO "Invoice_workspaceId_number_key";
+
+-- AlterTable
+ALTER TABLE "Quote" DROP CONSTRAINT "Quote_userId_fkey";
+ALTER TABLE "Quote" RENAME COLUMN "userId" TO "workspaceId";
+
+ALTER INDEX "Quote_userId_number_key" RENAME TO "Quote_workspaceId_number_key";
+
+-- AlterTable
+ALTER TABLE "CreditNote" DROP CONSTRAINT "CreditNote_userId_fkey";
+ALTER TABLE "CreditNote" RENAME COLUMN "userId" TO "workspaceId";
+
+ALTER INDEX "CreditNote_userId_number_key" RENAME TO "CreditNote_workspaceId_number_key";
+
+-- AlterTable
+ALTER TABLE "RecurringInvoice" DROP CONSTRAINT "RecurringInvoice_userId_fkey";
+ALTER TABLE "RecurringInvoice" RENAME COLUMN "userId" TO "workspaceId";
+
+-- AlterTable
+ALTER TABLE "ReminderSequence" DROP CONSTRAINT "ReminderSequence_userId_fkey";
+ALTER TABLE "ReminderSequence" RENAME COLUMN "userId" TO "workspaceId";
+
+ALTER INDEX "ReminderSequence_userId_idx" RENAME TO "ReminderSequence_workspaceId_idx";
+
+-- AlterTable
+ALTER TABLE "DocumentSequence" DROP CONSTRAINT "DocumentSequence_userId_fkey";
+ALTER TABLE "DocumentSequence" RENAME COLUMN "userId" TO "workspaceId";
+
+ALTER INDEX "DocumentSequence_userId_type_period_key" RENAME TO "DocumentSequence_workspaceId_type_period_key";
+
+-- AlterTable
+ALTER TABLE "BusinessProfile" DROP CONSTRAINT "BusinessProfile_userId_fkey";
+ALTER TABLE "BusinessProfile" RENAME COLUMN "userId" TO "workspaceId";
+
+ALTER INDEX "BusinessProfile_userId_key" RENAME TO "BusinessProfile_workspaceId_key";
+
+-- CreateIndex
+CREATE INDEX "WorkspaceMember_userId_idx" ON "WorkspaceMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceMember_workspaceId_userId_key" ON "WorkspaceMember"("workspaceId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceInvitation_tokenHash_key" ON "WorkspaceInvitation"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceInvitation_workspaceId_idx" ON "WorkspaceInvitation"("workspaceId");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceMember" ADD CONSTRAINT "WorkspaceMember_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceMember" ADD CONSTRAINT "WorkspaceMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceInvitation" ADD CONSTRAINT "WorkspaceInvitation_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceInvitation" ADD CONSTRAINT "WorkspaceInvitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Client" ADD CONSTRAINT "Client_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditNote" ADD CONSTRAINT "CreditNote_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoice" ADD CONSTRAINT "RecurringInvoice_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReminderSequence" ADD CONSTRAINT "ReminderSequence_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentSequence" ADD CONSTRAINT "DocumentSequence_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BusinessProfile" ADD CONSTRAINT "BusinessProfile_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
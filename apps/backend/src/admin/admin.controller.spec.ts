@@ -0,0 +1,66 @@
+import { Test } from '@nestjs/testing';
+import { ExecutionContext, INestApplication } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+import { Role } from '../auth/types/auth.types';
+
+describe('AdminController', () => {
+  let app: INestApplication<App>;
+  const adminService = { findUsers: jest.fn(), remove: jest.fn() };
+
+  // Stands in for the jwt guard: the role comes from a test header
+  const jwtGuard = {
+    canActivate: (context: ExecutionContext) => {
+      const req = context.switchToHttp().getRequest<{
+        headers: Record<string, string>;
+        user: { sub: string; role: Role };
+      }>();
+      req.user = { sub: 'user-1', role: req.headers['x-role'] as Role };
+      return true;
+    },
+  };
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      controllers: [AdminController],
+      providers: [{ provide: AdminService, useValue: adminService }],
+    })
+      .overrideGuard(AuthGuard('jwt'))
+      .useValue(jwtGuard)
+      .compile();
+
+    app = module.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(() => app.close());
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    adminService.findUsers.mockResolvedValue([]);
+  });
+
+  it('lets admins list the users', async () => {
+    await request(app.getHttpServer())
+      .get('/admin/users')
+      .set('x-role', 'admin')
+      .expect(200, []);
+  });
+
+  it('keeps regular users out of the admin routes', async () => {
+    await request(app.getHttpServer())
+      .get('/admin/users')
+      .set('x-role', 'user')
+      .expect(403);
+    await request(app.getHttpServer())
+      .delete('/admin/users/user-2')
+      .set('x-role', 'user')
+      .expect(403);
+
+    expect(adminService.findUsers).not.toHaveBeenCalled();
+    expect(adminService.remove).not.toHaveBeenCalled();
+  });
+});
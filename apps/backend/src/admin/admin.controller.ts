@@ -0,0 +1,61 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { Roles } from '../auth/decorator/roles.decorator';
+import { RolesGuard } from '../auth/guard/roles.guard';
+import { UserPayload } from '../auth/types/auth.types';
+import { AdminService } from './admin.service';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { UpdateSuspensionDto } from './dto/update-suspension.dto';
+import { UpdateTwoFactorDto } from './dto/update-two-factor.dto';
+
+@Controller('admin/users')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles('admin')
+export class AdminController {
+  constructor(private adminService: AdminService) {}
+
+  @Get()
+  findUsers() {
+    return this.adminService.findUsers();
+  }
+
+  @Patch(':id/role')
+  updateRole(
+    @Param('id') id: string,
+    @Body() dto: UpdateRoleDto,
+    @GetUser() user: UserPayload,
+  ) {
+    return this.adminService.updateRole(user.sub, id, dto.role);
+  }
+
+  @Patch(':id/suspension')
+  setSuspended(
+    @Param('id') id: string,
+    @Body() dto: UpdateSuspensionDto,
+    @GetUser() user: UserPayload,
+  ) {
+    return this.adminService.setSuspended(user.sub, id, dto.suspended);
+  }
+
+  @Patch(':id/two-factor')
+  setTwoFactorRequired(
+    @Param('id') id: string,
+    @Body() dto: UpdateTwoFactorDto,
+  ) {
+    return this.adminService.setTwoFactorRequired(id, dto.required);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string, @GetUser() user: UserPayload) {
+    return this.adminService.remove(user.sub, id);
+  }
+}
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { AdminService } from './admin.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionService } from '../auth/session.service';
+
+describe('AdminService', () => {
+  let service: AdminService;
+  const prisma = {
+    $transaction: jest.fn(),
+    user: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    workspace: { count: jest.fn(), deleteMany: jest.fn() },
+  };
+  const sessionService = { revokeAll: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.user.findUnique.mockResolvedValue({ id: 'user-2' });
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: SessionService, useValue: sessionService },
+      ],
+    }).compile();
+
+    service = module.get<AdminService>(AdminService);
+  });
+
+  it('signs suspended users out everywhere', async () => {
+    await service.setSuspended('admin-1', 'user-2', true);
+
+    expect(prisma.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { suspendedAt: expect.any(Date) } }),
+    );
+    expect(sessionService.revokeAll).toHaveBeenCalledWith('user-2');
+  });
+
+  it('lifts a suspension', async () => {
+    await service.setSuspended('admin-1', 'user-2', false);
+
+    expect(prisma.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { suspendedAt: null } }),
+    );
+    expect(sessionService.revokeAll).not.toHaveBeenCalled();
+  });
+
+  it('signs out users required to enrol in 2FA', async () => {
+    prisma.user.update.mockResolvedValue({
+      id: 'user-2',
+      twoFactorEnabledAt: null,
+    });
+
+    await service.setTwoFactorRequired('user-2', true);
+
+    expect(prisma.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { twoFactorRequired: true } }),
+    );
+    expect(sessionService.revokeAll).toHaveBeenCalledWith('user-2');
+  });
+
+  it('keeps admins from changing their own account', async () => {
+    await expect(
+      service.updateRole('admin-1', 'admin-1', 'user'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to delete users who own business data', async () => {
+    prisma.user.delete.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Foreign key constraint', {
+        code: 'P2003',
+        clientVersion: 'test',
+      }),
+    );
+
+    await expect(service.remove('admin-1', 'user-2')).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+  });
+
+  it('deletes the workspaces only the user belongs to with the account', async () => {
+    prisma.workspace.count.mockResolvedValue(0);
+    prisma.user.delete.mockResolvedValue({ id: 'user-2' });
+
+    await service.remove('admin-1', 'user-2');
+
+    expect(prisma.workspace.deleteMany).toHaveBeenCalledWith({
+      where: {
+        AND: [
+          { members: { some: { userId: 'user-2' } } },
+          { members: { every: { userId: 'user-2' } } },
+        ],
+      },
+    });
+  });
+
+  it('refuses to delete the last owner of a shared workspace', async () => {
+    prisma.workspace.count.mockResolvedValue(1);
+
+    await expect(service.remove('admin-1', 'user-2')).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(prisma.user.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionService } from '../auth/session.service';
+import { Role } from '../auth/types/auth.types';
+
+const ADMIN_USER_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  suspendedAt: true,
+  twoFactorEnabledAt: true,
+  twoFactorRequired: true,
+  createdAt: true,
+  // Do not select password
+} satisfies Prisma.UserSelect;
+
+@Injectable()
+export class AdminService {
+  constructor(
+    private prisma: PrismaService,
+    private sessionService: SessionService,
+  ) {}
+
+  findUsers() {
+    return this.prisma.user.findMany({
+      select: ADMIN_USER_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // Applies to the user's next token, at the latest on the next refresh
+  async updateRole(adminId: string, id: string, role: Role) {
+    this.assertNotSelf(adminId, id);
+    await this.findUser(id);
+
+    return this.prisma.user.update({
+      where: { id },
+      data: { role },
+      select: ADMIN_USER_SELECT,
+    });
+  }
+
+  async setSuspended(adminId: string, id: string, suspended: boolean) {
+    this.assertNotSelf(adminId, id);
+    await this.findUser(id);
+
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: { suspendedAt: suspended ? new Date() : null },
+      select: ADMIN_USER_SELECT,
+    });
+    // Revoked sessions reject the access tokens already handed out
+    if (suspended) await this.sessionService.revokeAll(id);
+
+    return user;
+  }
+
+  // Users without 2FA are signed out, their next signin goes through enrolment
+  async setTwoFactorRequired(id: string, required: boolean) {
+    await this.findUser(id);
+
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: { twoFactorRequired: required },
+      select: ADMIN_USER_SELECT,
+    });
+    if (required && !user.twoFactorEnabledAt) {
+      await this.sessionService.revokeAll(id);
+    }
+
+    return user;
+  }
+
+  async remove(adminId: string, id: string) {
+    this.assertNotSelf(adminId, id);
+    await this.findUser(id);
+
+    // Shared workspaces need another owner before the account can go
+    const ownedShared = await this.prisma.workspace.count({
+      where: {
+        AND: [
+          { members: { some: { userId: id, role: 'OWNER' } } },
+          { members: { none: { userId: { not: id }, role: 'OWNER' } } },
+          { members: { some: { userId: { not: id } } } },
+        ],
+      },
+    });
+    if (ownedShared > 0) {
+      throw new ConflictException(
+        'The user is the last owner of a shared workspace',
+      );
+    }
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // Workspaces nobody else uses go with the account
+        await tx.workspace.deleteMany({
+          where: {
+            AND: [
+              { members: { some: { userId: id } } },
+              { members: { every: { userId: id } } },
+            ],
+          },
+        });
+        return tx.user.delete({ where: { id }, select: ADMIN_USER_SELECT });
+      });
+    } catch (error) {
+      // Invoices and the like must be kept, the account can only be suspended
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2003'
+      ) {
+        throw new ConflictException(
+          'The user still owns business data, suspend the account instead',
+        );
+      }
+      throw error;
+    }
+  }
+
+  // An admin cannot lock themselves out of the admin area
+  private assertNotSelf(adminId: string, id: string) {
+    if (adminId === id) {
+      throw new BadRequestException('Admins cannot change their own account');
+    }
+  }
+
+  private async findUser(id: string) {
+    const user = await this.prisma.user.findUnique({ where: { id } });
+    if (!user) throw new NotFoundException('User not found');
+    return user;
+  }
+}
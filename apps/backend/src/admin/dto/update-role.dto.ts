@@ -0,0 +1,8 @@
+import { IsIn } from 'class-validator';
+import { Role } from '../../auth/types/auth.types';
+import { ROLES } from '../../auth/utils/role.util';
+
+export class UpdateRoleDto {
+  @IsIn(ROLES)
+  role: Role;
+}
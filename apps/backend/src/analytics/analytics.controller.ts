@@ -0,0 +1,24 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
+import { AnalyticsQueryDto } from './dto/analytics-query.dto';
+import { AnalyticsService } from './analytics.service';
+
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('analytics')
+@Controller('analytics')
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  // GET /analytics/dashboard?from=2026-01-01&to=2026-06-30
+  @Get('dashboard')
+  getDashboard(
+    @Query() query: AnalyticsQueryDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.analyticsService.getDashboard(user.wid, query);
+  }
+}
@@ -0,0 +1,67 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AnalyticsService } from './analytics.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AnalyticsService', () => {
+  let service: AnalyticsService;
+  const prisma = {
+    $queryRaw: jest.fn(),
+    invoice: { aggregate: jest.fn(), count: jest.fn(), groupBy: jest.fn() },
+    creditNote: { aggregate: jest.fn() },
+    project: { count: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalyticsService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<AnalyticsService>(AnalyticsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('nets credit notes out of revenue and fills the monthly series', async () => {
+    prisma.invoice.aggregate.mockResolvedValue({ _sum: { amountHT: 5000 } });
+    prisma.creditNote.aggregate.mockResolvedValue({ _sum: { amountHT: 500 } });
+    prisma.invoice.count.mockResolvedValue(3);
+    prisma.invoice.groupBy.mockResolvedValue([
+      { clientId: 'client-1' },
+      { clientId: 'client-2' },
+    ]);
+    prisma.project.count.mockResolvedValue(4);
+    prisma.$queryRaw
+      .mockResolvedValueOnce([{ amount: 1200.004, count: 2 }])
+      .mockResolvedValueOnce([
+        { id: 'client-1', name: 'Acme', revenue: 4500, invoiceCount: 2 },
+      ])
+      .mockResolvedValueOnce([{ month: '2026-02', revenue: 4500 }]);
+
+    const dashboard = await service.getDashboard('workspace-1', {
+      from: '2026-01-01',
+      to: '2026-03-31',
+    });
+
+    expect(dashboard).toMatchObject({
+      totalRevenue: 4500,
+      outstandingAmount: 1200,
+      paidInvoices: 3,
+      pendingInvoices: 2,
+      activeClients: 2,
+      activeProjects: 4,
+      topClients: [{ id: 'client-1', revenue: 4500 }],
+      monthlyRevenue: [
+        { month: '2026-01', revenue: 0 },
+        { month: '2026-02', revenue: 4500 },
+        { month: '2026-03', revenue: 0 },
+      ],
+    });
+  });
+});
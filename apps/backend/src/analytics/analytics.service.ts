@@ -0,0 +1,157 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { roundAmount } from '../invoice/utils/totals.util';
+import { ISSUED_STATUSES } from '../invoice/utils/invoice-status.util';
+import { AnalyticsQueryDto } from './dto/analytics-query.dto';
+import { DateRange, MonthlyRevenue, TopClient } from './types/analytics.types';
+import { fillMonths, resolveDateRange } from './utils/date-range.util';
+
+const DEFAULT_TOP_CLIENTS = 5;
+
+@Injectable()
+export class AnalyticsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Dashboard figures over a date range. Revenue is invoiced excl. VAT minus
+   * credit notes, dated by issue; outstanding amounts are what is due today,
+   * whatever the range.
+   */
+  async getDashboard(workspaceId: string, query: AnalyticsQueryDto) {
+    const range = resolveDateRange(query.from, query.to);
+    const issuedAt = { gte: range.from, lte: range.to };
+    const issued = {
+      workspaceId,
+      status: { in: ISSUED_STATUSES },
+      issuedAt,
+    } satisfies Prisma.InvoiceWhereInput;
+
+    const [
+      invoiced,
+      credited,
+      outstanding,
+      paidInvoices,
+      invoicedClients,
+      activeProjects,
+      topClients,
+      monthlyRevenue,
+    ] = await Promise.all([
+      this.prisma.invoice.aggregate({
+        where: issued,
+        _sum: { amountHT: true },
+      }),
+      this.prisma.creditNote.aggregate({
+        where: { workspaceId, issuedAt },
+        _sum: { amountHT: true },
+      }),
+      this.getOutstanding(workspaceId),
+      this.prisma.invoice.count({ where: { ...issued, status: 'PAID' } }),
+      this.prisma.invoice.groupBy({ by: ['clientId'], where: issued }),
+      this.prisma.project.count({
+        where: { workspaceId, status: { not: 'COMPLETED' } },
+      }),
+      this.getTopClients(
+        workspaceId,
+        range,
+        Number(query.topClients ?? DEFAULT_TOP_CLIENTS),
+      ),
+      this.getMonthlyRevenue(workspaceId, range),
+    ]);
+
+    return {
+      from: range.from,
+      to: range.to,
+      totalRevenue: roundAmount(
+        (invoiced._sum.amountHT ?? 0) - (credited._sum.amountHT ?? 0),
+      ),
+      outstandingAmount: outstanding.amount,
+      paidInvoices,
+      pendingInvoices: outstanding.count,
+      activeClients: invoicedClients.length,
+      activeProjects,
+      topClients,
+      monthlyRevenue: fillMonths(range, monthlyRevenue),
+    };
+  }
+
+  // Balance due (incl. VAT) of every invoice still awaiting payment
+  private async getOutstanding(workspaceId: string) {
+    const [row] = await this.prisma.$queryRaw<
+      { amount: number; count: number }[]
+    >`
+      SELECT
+        COALESCE(SUM(
+          i."amountTTC"
+          - COALESCE((SELECT SUM(p."amount") FROM "Payment" p WHERE p."invoiceId" = i."id"), 0)
+          - COALESCE((SELECT SUM(c."amountTTC") FROM "CreditNote" c WHERE c."invoiceId" = i."id"), 0)
+        ), 0)::float AS "amount",
+        COUNT(*)::int AS "count"
+      FROM "Invoice" i
+      WHERE i."workspaceId" = ${workspaceId} AND i."status" IN ('SENT', 'OVERDUE')
+    `;
+
+    return { amount: roundAmount(row.amount), count: row.count };
+  }
+
+  private async getTopClients(
+    workspaceId: string,
+    range: DateRange,
+    limit: number,
+  ): Promise<TopClient[]> {
+    const rows = await this.prisma.$queryRaw<TopClient[]>`
+      SELECT
+        cl."id",
+        cl."name",
+        SUM(r."amount")::float AS "revenue",
+        COUNT(DISTINCT r."invoiceId")::int AS "invoiceCount"
+      FROM (
+        SELECT i."clientId", i."id" AS "invoiceId", i."amountHT" AS "amount"
+        FROM "Invoice" i
+        WHERE i."workspaceId" = ${workspaceId}
+          AND i."status"::text IN (${Prisma.join(ISSUED_STATUSES)})
+          AND i."issuedAt" BETWEEN ${range.from} AND ${range.to}
+        UNION ALL
+        SELECT i."clientId", NULL, -c."amountHT"
+        FROM "CreditNote" c
+        JOIN "Invoice" i ON i."id" = c."invoiceId"
+        WHERE c."workspaceId" = ${workspaceId}
+          AND c."issuedAt" BETWEEN ${range.from} AND ${range.to}
+      ) r
+      JOIN "Client" cl ON cl."id" = r."clientId"
+      GROUP BY cl."id", cl."name"
+      ORDER BY "revenue" DESC
+      LIMIT ${limit}
+    `;
+
+    return rows.map((row) => ({ ...row, revenue: roundAmount(row.revenue) }));
+  }
+
+  // Months are UTC, matching the range boundaries
+  private async getMonthlyRevenue(
+    workspaceId: string,
+    range: DateRange,
+  ): Promise<MonthlyRevenue[]> {
+    const rows = await this.prisma.$queryRaw<MonthlyRevenue[]>`
+      SELECT
+        to_char(date_trunc('month', r."date"), 'YYYY-MM') AS "month",
+        SUM(r."amount")::float AS "revenue"
+      FROM (
+        SELECT i."issuedAt" AS "date", i."amountHT" AS "amount"
+        FROM "Invoice" i
+        WHERE i."workspaceId" = ${workspaceId}
+          AND i."status"::text IN (${Prisma.join(ISSUED_STATUSES)})
+          AND i."issuedAt" BETWEEN ${range.from} AND ${range.to}
+        UNION ALL
+        SELECT c."issuedAt", -c."amountHT"
+        FROM "CreditNote" c
+        WHERE c."workspaceId" = ${workspaceId}
+          AND c."issuedAt" BETWEEN ${range.from} AND ${range.to}
+      ) r
+      GROUP BY 1
+      ORDER BY 1
+    `;
+
+    return rows.map((row) => ({ ...row, revenue: roundAmount(row.revenue) }));
+  }
+}
@@ -0,0 +1,19 @@
+import { IsDateString, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class AnalyticsQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string; // defaults to the start of the month, 11 months before `to`
+
+  @IsOptional()
+  @IsDateString()
+  to?: string; // inclusive, defaults to today
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  topClients?: number; // defaults to 5
+}
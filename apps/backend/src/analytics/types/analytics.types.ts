@@ -0,0 +1,16 @@
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export interface TopClient {
+  id: string;
+  name: string;
+  revenue: number;
+  invoiceCount: number;
+}
+
+export interface MonthlyRevenue {
+  month: string; // YYYY-MM
+  revenue: number;
+}
@@ -0,0 +1,37 @@
+import { BadRequestException } from '@nestjs/common';
+import { fillMonths, resolveDateRange } from './date-range.util';
+
+describe('date range utils', () => {
+  it('defaults to the last twelve months', () => {
+    const range = resolveDateRange(
+      undefined,
+      undefined,
+      new Date('2026-10-19T08:00:00Z'),
+    );
+
+    expect(range.from).toEqual(new Date('2025-11-01T00:00:00.000Z'));
+    expect(range.to).toEqual(new Date('2026-10-19T23:59:59.999Z'));
+  });
+
+  it('includes the whole `to` day', () => {
+    const range = resolveDateRange('2026-01-01', '2026-03-31');
+    expect(range.to).toEqual(new Date('2026-03-31T23:59:59.999Z'));
+  });
+
+  it('rejects inverted ranges', () => {
+    expect(() => resolveDateRange('2026-05-01', '2026-04-01')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('fills months without revenue with zero', () => {
+    const range = resolveDateRange('2026-01-15', '2026-04-02');
+
+    expect(fillMonths(range, [{ month: '2026-02', revenue: 1200 }])).toEqual([
+      { month: '2026-01', revenue: 0 },
+      { month: '2026-02', revenue: 1200 },
+      { month: '2026-03', revenue: 0 },
+      { month: '2026-04', revenue: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { BadRequestException } from '@nestjs/common';
+import { DateRange, MonthlyRevenue } from '../types/analytics.types';
+
+const DEFAULT_MONTHS = 12;
+
+// Whole UTC days: `from` at 00:00, `to` at 23:59:59.999
+export function resolveDateRange(
+  from?: string,
+  to?: string,
+  now = new Date(),
+): DateRange {
+  const end = to ? new Date(to) : new Date(now);
+  end.setUTCHours(23, 59, 59, 999);
+
+  const start = from
+    ? new Date(from)
+    : new Date(
+        Date.UTC(
+          end.getUTCFullYear(),
+          end.getUTCMonth() - (DEFAULT_MONTHS - 1),
+          1,
+        ),
+      );
+  start.setUTCHours(0, 0, 0, 0);
+
+  if (start > end) {
+    throw new BadRequestException('`from` must be before `to`');
+  }
+
+  return { from: start, to: end };
+}
+
+export function monthKey(date: Date) {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+// The database only returns months with activity; charts need every month
+export function fillMonths(
+  range: DateRange,
+  rows: MonthlyRevenue[],
+): MonthlyRevenue[] {
+  const byMonth = new Map(rows.map((row) => [row.month, row.revenue]));
+  const series: MonthlyRevenue[] = [];
+
+  const cursor = new Date(
+    Date.UTC(range.from.getUTCFullYear(), range.from.getUTCMonth(), 1),
+  );
+  while (cursor <= range.to) {
+    const month = monthKey(cursor);
+    series.push({ month, revenue: byMonth.get(month) ?? 0 });
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+
+  return series;
+}
@@ -0,0 +1,43 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { WorkspaceRoles } from '../workspace/decorator/workspace-roles.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
+import { ApiKeyService } from './api-key.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+// Keys of the signed-in user in the current workspace. Managed with access
+// tokens only: a key cannot create or revoke keys.
+@Controller('api-keys')
+@UseGuards(AuthGuard('jwt'), WorkspaceGuard)
+@WorkspaceRoles('OWNER', 'ADMIN', 'MEMBER', 'ACCOUNTANT')
+export class ApiKeyController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  @Post()
+  create(@Body() dto: CreateApiKeyDto, @GetUser() user: WorkspaceUser) {
+    return this.apiKeyService.create(user.sub, user.wid, dto);
+  }
+
+  @Get()
+  findAll(@GetUser() user: WorkspaceUser) {
+    return this.apiKeyService.findAll(user.sub, user.wid);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revoke(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.apiKeyService.revoke(user.sub, id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ApiKeyService } from './api-key.service';
+import { ApiKeyController } from './api-key.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [ApiKeyController],
+  providers: [ApiKeyService],
+  exports: [ApiKeyService],
+})
+export class ApiKeyModule {}
@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { API_KEY_PREFIX, ApiKeyService } from './api-key.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { hashToken } from '../auth/utils/token.util';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  const prisma = {
+    apiKey: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const apiKey = {
+    id: 'key-1',
+    userId: 'user-1',
+    workspaceId: 'workspace-1',
+    scopes: ['invoices:read'],
+    expiresAt: null,
+    revokedAt: null,
+    user: { email: 'jane@example.com', role: 'user', suspendedAt: null },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ApiKeyService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  it('returns the key once and stores its hash', async () => {
+    prisma.apiKey.create.mockImplementation(
+      ({ data }: { data: { prefix: string } }) => ({ id: 'key-1', ...data }),
+    );
+
+    const { key } = await service.create('user-1', 'workspace-1', {
+      name: 'Zapier',
+      scopes: ['invoices:read', 'invoices:read', 'clients:write'],
+    });
+
+    expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+    expect(prisma.apiKey.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+          keyHash: hashToken(key),
+          scopes: ['invoices:read', 'clients:write'],
+          expiresAt: null,
+        }),
+      }),
+    );
+  });
+
+  it('authenticates keys as their user in their workspace', async () => {
+    prisma.apiKey.findUnique.mockResolvedValue(apiKey);
+
+    await expect(service.authenticate('nlk_key')).resolves.toEqual({
+      sub: 'user-1',
+      email: 'jane@example.com',
+      role: 'user',
+      kid: 'key-1',
+      wid: 'workspace-1',
+      scopes: ['invoices:read'],
+    });
+    expect(prisma.apiKey.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { keyHash: hashToken('nlk_key') } }),
+    );
+    expect(prisma.apiKey.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { lastUsedAt: expect.any(Date) as Date },
+      }),
+    );
+  });
+
+  it('rejects revoked, expired and unknown keys', async () => {
+    prisma.apiKey.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ ...apiKey, revokedAt: new Date() })
+      .mockResolvedValueOnce({ ...apiKey, expiresAt: new Date(Date.now() - 1) })
+      .mockResolvedValueOnce({
+        ...apiKey,
+        user: { ...apiKey.user, suspendedAt: new Date() },
+      });
+
+    for (let i = 0; i < 4; i++) {
+      await expect(service.authenticate('nlk_key')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    }
+    expect(prisma.apiKey.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('only revokes keys of the user', async () => {
+    prisma.apiKey.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.revoke('user-2', 'key-1')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(prisma.apiKey.updateMany).toHaveBeenCalledWith({
+      where: { id: 'key-1', userId: 'user-2', revokedAt: null },
+      data: { revokedAt: expect.any(Date) as Date },
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ApiKeyPayload } from '../auth/types/auth.types';
+import { toRole } from '../auth/utils/role.util';
+import { generateToken, hashToken } from '../auth/utils/token.util';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+// Tells keys from access tokens in the Authorization header
+export const API_KEY_PREFIX = 'nlk_';
+
+// Characters of the key kept in clear, to recognise it in the list
+const DISPLAYED_LENGTH = API_KEY_PREFIX.length + 6;
+
+// Integrations call in bursts: the last use is written at most this often
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+@Injectable()
+export class ApiKeyService {
+  constructor(private prisma: PrismaService) {}
+
+  // The key is only returned here, the database keeps its hash
+  async create(userId: string, workspaceId: string, dto: CreateApiKeyDto) {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('The expiry date is in the past');
+    }
+
+    const key = `${API_KEY_PREFIX}${generateToken()}`;
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        workspaceId,
+        name: dto.name,
+        prefix: key.slice(0, DISPLAYED_LENGTH),
+        keyHash: hashToken(key),
+        scopes: [...new Set(dto.scopes)],
+        expiresAt,
+      },
+      select: API_KEY_SELECT,
+    });
+
+    return { ...apiKey, key };
+  }
+
+  // Keys of the user in the workspace, revoked ones are gone for good
+  findAll(userId: string, workspaceId: string) {
+    return this.prisma.apiKey.findMany({
+      where: { userId, workspaceId, revokedAt: null },
+      select: API_KEY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revoke(userId: string, id: string) {
+    const revoked = await this.prisma.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (revoked.count === 0) throw new NotFoundException('API key not found');
+  }
+
+  /**
+   * Request user of a key, for the api-key strategy. Membership and scopes
+   * are checked by WorkspaceGuard, like the roles of access tokens.
+   */
+  async authenticate(key: string): Promise<ApiKeyPayload> {
+    const now = new Date();
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: hashToken(key) },
+      include: {
+        user: { select: { email: true, role: true, suspendedAt: true } },
+      },
+    });
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      apiKey.user.suspendedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt <= now)
+    ) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    await this.prisma.apiKey.updateMany({
+      where: {
+        id: apiKey.id,
+        OR: [
+          { lastUsedAt: null },
+          {
+            lastUsedAt: {
+              lt: new Date(now.getTime() - LAST_USED_PRECISION_MS),
+            },
+          },
+        ],
+      },
+      data: { lastUsedAt: now },
+    });
+
+    return {
+      sub: apiKey.userId,
+      email: apiKey.user.email,
+      role: toRole(apiKey.user.role),
+      kid: apiKey.id,
+      wid: apiKey.workspaceId,
+      scopes: apiKey.scopes,
+    };
+  }
+}
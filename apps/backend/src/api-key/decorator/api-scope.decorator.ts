@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiResource } from '../utils/api-scope.util';
+
+export const API_SCOPE_KEY = 'apiScope';
+
+// Read by WorkspaceGuard: the resource whose scopes an API key needs. Routes
+// without one cannot be called with a key.
+export const ApiScope = (resource: ApiResource) =>
+  SetMetadata(API_SCOPE_KEY, resource);
@@ -0,0 +1,27 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { API_SCOPES } from '../utils/api-scope.util';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(API_SCOPES, { each: true })
+  scopes: string[];
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string; // never expires without one
+}
@@ -0,0 +1,24 @@
+// What API keys can be given access to, each readable and writable
+export const API_RESOURCES = [
+  'clients',
+  'projects',
+  'invoices',
+  'payments',
+  'credit-notes',
+  'quotes',
+  'recurring-invoices',
+  'reminders',
+  'analytics',
+  'business-profile',
+] as const;
+
+export type ApiResource = (typeof API_RESOURCES)[number];
+
+export const API_SCOPES = API_RESOURCES.flatMap((resource) => [
+  `${resource}:read`,
+  `${resource}:write`,
+]);
+
+// Reads need resource:read, everything else resource:write
+export const scopeOf = (resource: ApiResource, read: boolean) =>
+  `${resource}:${read ? 'read' : 'write'}`;
@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
 import { PrismaModule } from './prisma/prisma.module';
 import { UserModule } from './user/user.module';
 import { AuthModule } from './auth/auth.module';
@@ -6,9 +7,24 @@ import { ClientModule } from './client/client.module';
 import { ProjectModule } from './project/project.module';
 import { InvoiceModule } from './invoice/invoice.module';
 import { PdfModule } from './pdf/pdf.module';
+import { NumberingModule } from './numbering/numbering.module';
+import { QuoteModule } from './quote/quote.module';
+import { CreditNoteModule } from './credit-note/credit-note.module';
+import { PaymentModule } from './payment/payment.module';
+import { RecurringInvoiceModule } from './recurring-invoice/recurring-invoice.module';
+import { AnalyticsModule } from './analytics/analytics.module';
+import { BusinessProfileModule } from './business-profile/business-profile.module';
+import { EInvoiceModule } from './e-invoice/e-invoice.module';
+import { MailModule } from './mail/mail.module';
+import { DocumentMailModule } from './document-mail/document-mail.module';
+import { ReminderModule } from './reminder/reminder.module';
+import { AdminModule } from './admin/admin.module';
+import { WorkspaceModule } from './workspace/workspace.module';
+import { ApiKeyModule } from './api-key/api-key.module';
 
 @Module({
   imports: [
+    ScheduleModule.forRoot(),
     PrismaModule,
     UserModule,
     AuthModule,
@@ -16,6 +32,20 @@ import { PdfModule } from './pdf/pdf.module';
     ProjectModule,
     InvoiceModule,
     PdfModule,
+    NumberingModule,
+    QuoteModule,
+    CreditNoteModule,
+    PaymentModule,
+    RecurringInvoiceModule,
+    AnalyticsModule,
+    BusinessProfileModule,
+    EInvoiceModule,
+    MailModule,
+    DocumentMailModule,
+    ReminderModule,
+    AdminModule,
+    WorkspaceModule,
+    ApiKeyModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { AccountService } from './account.service';
+import { SessionService } from './session.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+
+describe('AccountService', () => {
+  let service: AccountService;
+  const prisma = {
+    $transaction: jest.fn(),
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    authToken: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+  const mailService = { send: jest.fn() };
+  const sessionService = { revokeAll: jest.fn() };
+
+  const resetToken = {
+    id: 'token-1',
+    userId: 'user-1',
+    type: 'PASSWORD_RESET',
+    expiresAt: new Date(Date.now() + 60_000),
+    usedAt: null,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MailService, useValue: mailService },
+        { provide: SessionService, useValue: sessionService },
+      ],
+    }).compile();
+
+    service = module.get<AccountService>(AccountService);
+  });
+
+  it('emails a reset link to existing accounts only', async () => {
+    prisma.user.findUnique.mockResolvedValueOnce({
+      id: 'user-1',
+      email: 'jane@example.com',
+      suspendedAt: null,
+    });
+
+    await service.forgotPassword('jane@example.com');
+    await service.forgotPassword('nobody@example.com');
+
+    expect(mailService.send).toHaveBeenCalledTimes(1);
+    const [{ to, text }] = mailService.send.mock.calls[0] as [
+      { to: string[]; text: string },
+    ];
+    expect(to).toEqual(['jane@example.com']);
+    expect(text).toMatch(/\/reset-password\?token=[\w-]+/);
+    expect(prisma.authToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-1',
+        type: 'PASSWORD_RESET',
+      }),
+    });
+  });
+
+  it('resets the password once and ends all sessions', async () => {
+    prisma.authToken.findUnique.mockResolvedValue(resetToken);
+    prisma.authToken.updateMany.mockResolvedValueOnce({ count: 1 });
+    prisma.authToken.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await service.resetPassword('token', 'new-secret');
+
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { password: expect.any(String) },
+    });
+    expect(sessionService.revokeAll).toHaveBeenCalledWith('user-1');
+    await expect(
+      service.resetPassword('token', 'other-secret'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('refuses expired tokens and tokens of another kind', async () => {
+    prisma.authToken.findUnique.mockResolvedValueOnce({
+      ...resetToken,
+      expiresAt: new Date(Date.now() - 1),
+    });
+    prisma.authToken.findUnique.mockResolvedValueOnce(resetToken);
+
+    await expect(
+      service.resetPassword('token', 'new-secret'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.verifyEmail('token')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('changes the password and keeps only the current session', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      id: 'user-1',
+      password: await bcrypt.hash('secret', 4),
+    });
+
+    await expect(
+      service.changePassword('user-1', 'session-1', {
+        currentPassword: 'wrong',
+        newPassword: 'new-secret',
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    await service.changePassword('user-1', 'session-1', {
+      currentPassword: 'secret',
+      newPassword: 'new-secret',
+    });
+    expect(sessionService.revokeAll).toHaveBeenCalledWith(
+      'user-1',
+      'session-1',
+    );
+  });
+});
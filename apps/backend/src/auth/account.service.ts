@@ -0,0 +1,183 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { AuthTokenType } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { RenderedEmail } from '../mail/templates/email.util';
+import {
+  ACCOUNT_SENDER_NAME,
+  renderPasswordResetEmail,
+  renderVerificationEmail,
+} from '../mail/templates/account-email.template';
+import { SessionService } from './session.service';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { generateToken, hashToken } from './utils/token.util';
+
+const MINUTE = 60 * 1000;
+const VERIFICATION_TTL_MINUTES = 48 * 60;
+const RESET_TTL_MINUTES = 60;
+
+// Frontend pages the links of the emails open
+const APP_URL = process.env.APP_URL ?? 'http://localhost:3001';
+
+@Injectable()
+export class AccountService {
+  private readonly logger = new Logger(AccountService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailService: MailService,
+    private sessionService: SessionService,
+  ) {}
+
+  async sendVerification(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Email already verified');
+    }
+
+    const token = await this.createToken(
+      userId,
+      'EMAIL_VERIFICATION',
+      VERIFICATION_TTL_MINUTES,
+    );
+    try {
+      await this.send(
+        user.email,
+        renderVerificationEmail(`${APP_URL}/verify-email?token=${token}`),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Could not send the verification link of ${userId}`,
+        error,
+      );
+      throw new BadGatewayException('The email could not be sent');
+    }
+  }
+
+  async verifyEmail(token: string) {
+    const { userId } = await this.consumeToken(token, 'EMAIL_VERIFICATION');
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+  }
+
+  // Answers the same whether the account exists or not, so it cannot be
+  // used to find out who has one
+  async forgotPassword(email: string) {
+    const user = await this.prisma.user.findUnique({ where: { email } });
+    if (!user || user.suspendedAt) return;
+
+    const token = await this.createToken(
+      user.id,
+      'PASSWORD_RESET',
+      RESET_TTL_MINUTES,
+    );
+    try {
+      await this.send(
+        user.email,
+        renderPasswordResetEmail(
+          `${APP_URL}/reset-password?token=${token}`,
+          RESET_TTL_MINUTES,
+        ),
+      );
+    } catch (error) {
+      this.logger.warn(`Could not send the reset link of ${user.id}`, error);
+    }
+  }
+
+  // Whoever had the old password may still be signed in: all sessions end
+  async resetPassword(token: string, password: string) {
+    const { userId } = await this.consumeToken(token, 'PASSWORD_RESET');
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { password: await bcrypt.hash(password, 12) },
+    });
+    await this.sessionService.revokeAll(userId);
+  }
+
+  // Keeps the session that made the change, ends all the others. Accounts
+  // created through an external identity set their first password here
+  async changePassword(
+    userId: string,
+    sessionId: string,
+    dto: ChangePasswordDto,
+  ) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+
+    if (user.password) {
+      const pwMatch = await bcrypt.compare(
+        dto.currentPassword ?? '',
+        user.password,
+      );
+      if (!pwMatch) throw new BadRequestException('Invalid credentials');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { password: await bcrypt.hash(dto.newPassword, 12) },
+    });
+    await this.sessionService.revokeAll(userId, sessionId);
+  }
+
+  // A new link replaces the ones sent before
+  private async createToken(
+    userId: string,
+    type: AuthTokenType,
+    ttlMinutes: number,
+  ) {
+    const token = generateToken();
+    await this.prisma.$transaction([
+      this.prisma.authToken.deleteMany({
+        where: { userId, type, usedAt: null },
+      }),
+      this.prisma.authToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + ttlMinutes * MINUTE),
+        },
+      }),
+    ]);
+    return token;
+  }
+
+  private async consumeToken(token: string, type: AuthTokenType) {
+    const now = new Date();
+    const found = await this.prisma.authToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+    if (!found || found.type !== type || found.expiresAt <= now) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    // Guarded, so a link works once even when opened twice at the same time
+    const used = await this.prisma.authToken.updateMany({
+      where: { id: found.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (used.count === 0) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return found;
+  }
+
+  private send(to: string, email: RenderedEmail) {
+    return this.mailService.send({
+      senderName: ACCOUNT_SENDER_NAME,
+      to: [to],
+      ...email,
+    });
+  }
+}
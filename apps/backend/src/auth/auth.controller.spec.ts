@@ -1,18 +1,57 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { ThrottlerModule } from '@nestjs/throttler';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
 import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { SessionService } from './session.service';
+import { AccountService } from './account.service';
+import { TwoFactorService } from './two-factor.service';
+import { OidcService } from './oidc.service';
 
 describe('AuthController', () => {
   let controller: AuthController;
+  let app: INestApplication<App>;
+  const accountService = { forgotPassword: jest.fn() };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
+      imports: [ThrottlerModule.forRoot([{ ttl: 60_000, limit: 5 }])],
       controllers: [AuthController],
+      providers: [
+        { provide: AuthService, useValue: {} },
+        { provide: SessionService, useValue: {} },
+        { provide: AccountService, useValue: accountService },
+        { provide: TwoFactorService, useValue: {} },
+        { provide: OidcService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<AuthController>(AuthController);
+    app = module.createNestApplication();
+    await app.init();
   });
 
+  afterEach(() => app.close());
+
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('rate-limits the password reset requests', async () => {
+    const server = app.getHttpServer();
+    for (let i = 0; i < 5; i++) {
+      await request(server)
+        .post('/auth/forgot-password')
+        .send({ email: 'jane@example.com' })
+        .expect(204);
+    }
+
+    await request(server)
+      .post('/auth/forgot-password')
+      .send({ email: 'jane@example.com' })
+      .expect(429);
+    expect(accountService.forgotPassword).toHaveBeenCalledTimes(5);
+  });
 });
@@ -1,18 +1,192 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ThrottlerGuard } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
+import { SessionService } from './session.service';
+import { AccountService } from './account.service';
+import { TwoFactorService } from './two-factor.service';
 import { AuthDto } from './dto/auth.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-challenge.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { TwoFactorSigninDto } from './dto/two-factor-signin.dto';
+import { SwitchWorkspaceDto } from './dto/switch-workspace.dto';
+import { GetUser } from './decorator/get-user.decorator';
+import { GetSessionContext } from './decorator/get-session-context.decorator';
+import { SessionContext, UserPayload } from './types/auth.types';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private sessionService: SessionService,
+    private accountService: AccountService,
+    private twoFactorService: TwoFactorService,
+  ) {}
 
+  @UseGuards(ThrottlerGuard)
   @Post('signup')
-  signup(@Body() dto: AuthDto) {
-    return this.authService.signup(dto);
+  signup(@Body() dto: AuthDto, @GetSessionContext() context: SessionContext) {
+    return this.authService.signup(dto, context);
   }
 
+  @UseGuards(ThrottlerGuard)
   @Post('signin')
-  signin(@Body() dto: AuthDto) {
-    return this.authService.signin(dto);
+  signin(@Body() dto: AuthDto, @GetSessionContext() context: SessionContext) {
+    return this.authService.signin(dto, context);
+  }
+
+  // Second step of a signin answered with two_factor_required
+  @UseGuards(ThrottlerGuard)
+  @Post('signin/2fa')
+  @HttpCode(HttpStatus.OK)
+  signinWithCode(
+    @Body() dto: TwoFactorSigninDto,
+    @GetSessionContext() context: SessionContext,
+  ) {
+    return this.authService.signinWithCode(dto, context);
+  }
+
+  // Enrolment of a signin answered with two_factor_setup_required
+  @UseGuards(ThrottlerGuard)
+  @Post('signin/2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  setupAtSignin(@Body() dto: TwoFactorChallengeDto) {
+    return this.authService.setupAtSignin(dto.challenge_token);
+  }
+
+  @UseGuards(ThrottlerGuard)
+  @Post('signin/2fa/confirm')
+  @HttpCode(HttpStatus.OK)
+  confirmAtSignin(
+    @Body() dto: TwoFactorSigninDto,
+    @GetSessionContext() context: SessionContext,
+  ) {
+    return this.authService.confirmAtSignin(dto, context);
+  }
+
+  // Public: the access token has usually expired when this is called
+  @UseGuards(ThrottlerGuard)
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  refresh(@Body() dto: RefreshTokenDto) {
+    return this.authService.refresh(dto.refresh_token);
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  logout(@Body() dto: RefreshTokenDto) {
+    return this.authService.logout(dto.refresh_token);
+  }
+
+  // New access token for another workspace of the user, same session
+  @UseGuards(AuthGuard('jwt'))
+  @Post('workspace')
+  @HttpCode(HttpStatus.OK)
+  switchWorkspace(
+    @Body() dto: SwitchWorkspaceDto,
+    @GetUser() user: UserPayload,
+  ) {
+    return this.authService.switchWorkspace(user, dto.workspace_id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get('sessions')
+  findSessions(@GetUser() user: UserPayload) {
+    return this.sessionService.findAll(user.sub, user.sid);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeSession(@Param('id') id: string, @GetUser() user: UserPayload) {
+    return this.sessionService.remove(user.sub, id);
+  }
+
+  @UseGuards(ThrottlerGuard)
+  @Post('verify-email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  verifyEmail(@Body() dto: VerifyEmailDto) {
+    return this.accountService.verifyEmail(dto.token);
+  }
+
+  @UseGuards(AuthGuard('jwt'), ThrottlerGuard)
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  resendVerification(@GetUser() user: UserPayload) {
+    return this.accountService.sendVerification(user.sub);
+  }
+
+  @UseGuards(ThrottlerGuard)
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  forgotPassword(@Body() dto: ForgotPasswordDto) {
+    return this.accountService.forgotPassword(dto.email);
+  }
+
+  @UseGuards(ThrottlerGuard)
+  @Post('reset-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  resetPassword(@Body() dto: ResetPasswordDto) {
+    return this.accountService.resetPassword(dto.token, dto.password);
+  }
+
+  @UseGuards(AuthGuard('jwt'), ThrottlerGuard)
+  @Patch('password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  changePassword(@Body() dto: ChangePasswordDto, @GetUser() user: UserPayload) {
+    return this.accountService.changePassword(user.sub, user.sid, dto);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  setupTwoFactor(@GetUser() user: UserPayload) {
+    return this.twoFactorService.setup(user.sub);
+  }
+
+  @UseGuards(AuthGuard('jwt'), ThrottlerGuard)
+  @Post('2fa/confirm')
+  @HttpCode(HttpStatus.OK)
+  confirmTwoFactor(
+    @Body() dto: TwoFactorCodeDto,
+    @GetUser() user: UserPayload,
+  ) {
+    return this.twoFactorService.confirm(user.sub, dto.code);
+  }
+
+  @UseGuards(AuthGuard('jwt'), ThrottlerGuard)
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  disableTwoFactor(
+    @Body() dto: TwoFactorCodeDto,
+    @GetUser() user: UserPayload,
+  ) {
+    return this.twoFactorService.disable(user.sub, dto.code);
+  }
+
+  @UseGuards(AuthGuard('jwt'), ThrottlerGuard)
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  regenerateRecoveryCodes(
+    @Body() dto: TwoFactorCodeDto,
+    @GetUser() user: UserPayload,
+  ) {
+    return this.twoFactorService.regenerateRecoveryCodes(user.sub, dto.code);
   }
 }
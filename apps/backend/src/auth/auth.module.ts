@@ -1,19 +1,48 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
-import { AuthService } from './auth.service';
+import { ThrottlerModule } from '@nestjs/throttler';
+import { ACCESS_TOKEN_TTL, AuthService } from './auth.service';
+import { SessionService } from './session.service';
+import { AccountService } from './account.service';
+import { TwoFactorService } from './two-factor.service';
+import { OidcService } from './oidc.service';
+import { OidcController } from './oidc.controller';
+import { SigninAttemptService } from './signin-attempt.service';
 import { AuthController } from './auth.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { MailModule } from '../mail/mail.module';
+import { ApiKeyModule } from '../api-key/api-key.module';
 import { JwtStrategy } from './strategy/jwt.strategy';
+import { ApiKeyStrategy } from './strategy/api-key.strategy';
 
 @Module({
   imports: [
     PrismaModule,
+    MailModule,
+    ApiKeyModule,
+    // Limits of the routes using ThrottlerGuard, per client IP
+    ThrottlerModule.forRoot([
+      {
+        ttl: (Number(process.env.AUTH_THROTTLE_TTL_SECONDS) || 60) * 1000,
+        limit: Number(process.env.AUTH_THROTTLE_LIMIT) || 10,
+      },
+    ]),
     JwtModule.register({
       secret: process.env.JWT_SECRET,
-      signOptions: { expiresIn: '1h' },
+      signOptions: { expiresIn: ACCESS_TOKEN_TTL },
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
+  controllers: [AuthController, OidcController],
+  providers: [
+    AuthService,
+    SessionService,
+    AccountService,
+    TwoFactorService,
+    OidcService,
+    SigninAttemptService,
+    JwtStrategy,
+    ApiKeyStrategy,
+  ],
+  exports: [SessionService],
 })
 export class AuthModule {}
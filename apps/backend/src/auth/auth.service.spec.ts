@@ -1,12 +1,48 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { JwtService } from '@nestjs/jwt';
 import { AuthService } from './auth.service';
+import { SessionService } from './session.service';
+import { AccountService } from './account.service';
+import { TwoFactorService } from './two-factor.service';
+import { OidcService } from './oidc.service';
+import { SigninAttemptService } from './signin-attempt.service';
+import { PrismaService } from '../prisma/prisma.service';
 
 describe('AuthService', () => {
   let service: AuthService;
+  const prisma = { user: { findUnique: jest.fn() } };
+  const jwt = { signAsync: jest.fn(), verifyAsync: jest.fn() };
+  const sessionService = { create: jest.fn(), rotate: jest.fn() };
+  const twoFactorService = { verifyCode: jest.fn() };
+  const signinAttemptService = {
+    assertNotLocked: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+  const credentials = { email: 'jane@example.com', password: 'secret' };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+    jwt.signAsync.mockResolvedValue('access');
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [AuthService],
+      providers: [
+        AuthService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: JwtService, useValue: jwt },
+        { provide: SessionService, useValue: sessionService },
+        { provide: AccountService, useValue: {} },
+        { provide: TwoFactorService, useValue: twoFactorService },
+        { provide: OidcService, useValue: {} },
+        { provide: SigninAttemptService, useValue: signinAttemptService },
+      ],
     }).compile();
 
     service = module.get<AuthService>(AuthService);
@@ -15,4 +51,168 @@ describe('AuthService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('signs the stored role of the user at signin', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      id: 'user-1',
+      email: 'jane@example.com',
+      password: await bcrypt.hash('secret', 4),
+      role: 'admin',
+      suspendedAt: null,
+    });
+    sessionService.create.mockResolvedValue({
+      sessionId: 'session-1',
+      refreshToken: 'first',
+    });
+
+    expect(await service.signin(credentials, {})).toEqual({
+      access_token: 'access',
+      refresh_token: 'first',
+    });
+    expect(jwt.signAsync).toHaveBeenCalledWith(
+      expect.objectContaining({ sub: 'user-1', role: 'admin' }),
+      expect.anything(),
+    );
+  });
+
+  it('refuses suspended users', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      id: 'user-1',
+      password: await bcrypt.hash('secret', 4),
+      role: 'user',
+      suspendedAt: new Date(),
+    });
+
+    await expect(service.signin(credentials, {})).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    expect(sessionService.create).not.toHaveBeenCalled();
+  });
+
+  it('records wrong passwords', async () => {
+    const user = { id: 'user-1', password: await bcrypt.hash('other', 4) };
+    prisma.user.findUnique.mockResolvedValue(user);
+
+    await expect(service.signin(credentials, {})).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(signinAttemptService.recordFailure).toHaveBeenCalledWith(
+      'jane@example.com',
+      user,
+      'PASSWORD',
+      {},
+    );
+  });
+
+  it('checks the lockout before the password', async () => {
+    prisma.user.findUnique.mockResolvedValue({ id: 'user-1' });
+    signinAttemptService.assertNotLocked.mockRejectedValue(
+      new HttpException('Locked', 429),
+    );
+
+    await expect(service.signin(credentials, {})).rejects.toBeInstanceOf(
+      HttpException,
+    );
+    expect(signinAttemptService.recordFailure).not.toHaveBeenCalled();
+  });
+
+  describe('with two-factor authentication', () => {
+    const user = {
+      id: 'user-1',
+      email: 'jane@example.com',
+      role: 'user',
+      suspendedAt: null,
+      twoFactorEnabledAt: new Date(),
+    };
+
+    it('answers the password with a challenge', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        ...user,
+        password: await bcrypt.hash('secret', 4),
+      });
+      jwt.signAsync.mockResolvedValue('challenge');
+
+      expect(await service.signin(credentials, {})).toEqual({
+        two_factor_required: true,
+        challenge_token: 'challenge',
+      });
+      expect(jwt.signAsync).toHaveBeenCalledWith(
+        { sub: 'user-1', purpose: 'verify' },
+        expect.objectContaining({ expiresIn: '5m' }),
+      );
+      expect(sessionService.create).not.toHaveBeenCalled();
+      expect(signinAttemptService.recordSuccess).not.toHaveBeenCalled();
+    });
+
+    it('signs in once the code of the challenge is valid', async () => {
+      jwt.verifyAsync.mockResolvedValue({ sub: 'user-1', purpose: 'verify' });
+      twoFactorService.verifyCode.mockResolvedValue(true);
+      prisma.user.findUnique.mockResolvedValue(user);
+      sessionService.create.mockResolvedValue({
+        sessionId: 'session-1',
+        refreshToken: 'first',
+      });
+
+      expect(
+        await service.signinWithCode(
+          { challenge_token: 'challenge', code: '123456' },
+          {},
+        ),
+      ).toEqual({ access_token: 'access', refresh_token: 'first' });
+      expect(twoFactorService.verifyCode).toHaveBeenCalledWith(
+        'user-1',
+        '123456',
+      );
+    });
+
+    it('refuses invalid codes and other challenges', async () => {
+      jwt.verifyAsync.mockResolvedValueOnce({
+        sub: 'user-1',
+        purpose: 'verify',
+      });
+      twoFactorService.verifyCode.mockResolvedValue(false);
+      prisma.user.findUnique.mockResolvedValue(user);
+      jwt.verifyAsync.mockResolvedValueOnce({
+        sub: 'user-1',
+        purpose: 'setup',
+      });
+      const dto = { challenge_token: 'challenge', code: '123456' };
+
+      await expect(service.signinWithCode(dto, {})).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(signinAttemptService.recordFailure).toHaveBeenCalledWith(
+        'jane@example.com',
+        user,
+        'CODE',
+        {},
+      );
+      await expect(service.signinWithCode(dto, {})).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  it('signs the access token for the session of the refresh token', async () => {
+    sessionService.rotate.mockResolvedValue({
+      user: { id: 'user-1', email: 'jane@example.com', role: 'unknown' },
+      sessionId: 'session-1',
+      refreshToken: 'next',
+    });
+
+    expect(await service.refresh('token')).toEqual({
+      access_token: 'access',
+      refresh_token: 'next',
+    });
+    expect(jwt.signAsync).toHaveBeenCalledWith(
+      {
+        sub: 'user-1',
+        email: 'jane@example.com',
+        role: 'user',
+        sid: 'session-1',
+      },
+      expect.objectContaining({ expiresIn: '15m' }),
+    );
+  });
 });
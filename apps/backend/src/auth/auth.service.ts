@@ -1,58 +1,200 @@
-import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { User } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuthDto } from './dto/auth.dto';
 import * as bcrypt from 'bcrypt';
 import { JwtService } from '@nestjs/jwt';
-//import { UserPayload } from './types/auth.types';
+import { SessionService } from './session.service';
+import { AccountService } from './account.service';
+import { TwoFactorService } from './two-factor.service';
+import { OidcService } from './oidc.service';
+import { SigninAttemptService } from './signin-attempt.service';
+import { OidcCallbackDto } from './dto/oidc-callback.dto';
+import { TwoFactorSigninDto } from './dto/two-factor-signin.dto';
+import {
+  AuthTokens,
+  Role,
+  SessionContext,
+  TwoFactorChallenge,
+  UserPayload,
+} from './types/auth.types';
+import { toRole } from './utils/role.util';
+import { personalWorkspace } from '../workspace/utils/workspace.util';
+
+// Short-lived, the refresh token keeps the user signed in
+export const ACCESS_TOKEN_TTL = '15m';
+
+// Between the password and the code of the second signin step
+const CHALLENGE_TTL = '5m';
+
+type SessionUser = { id: string; email: string; role: string };
+
+// 'setup' when an admin requires 2FA and the user has not enabled it yet
+type ChallengePurpose = 'verify' | 'setup';
 
 @Injectable()
 export class AuthService {
   constructor(
     private prisma: PrismaService,
     private jwt: JwtService,
+    private sessionService: SessionService,
+    private accountService: AccountService,
+    private twoFactorService: TwoFactorService,
+    private oidcService: OidcService,
+    private signinAttemptService: SigninAttemptService,
   ) {}
 
-  async signup(dto: AuthDto) {
+  async signup(dto: AuthDto, context: SessionContext) {
     const hash = await bcrypt.hash(dto.password, 12);
 
+    let user: SessionUser;
     try {
-      const user = await this.prisma.user.create({
+      user = await this.prisma.user.create({
         data: {
           email: dto.email,
           password: hash,
           role: 'user',
+          memberships: personalWorkspace(dto.email),
         },
       });
-
-      // Default role to 'user' since Prisma create does not return 'role'
-      return this.signToken(user.id, user.email, 'user');
     } catch {
       throw new BadRequestException('Email already exists');
     }
+
+    // A failed delivery is logged, the link can be asked for again
+    await this.accountService.sendVerification(user.id).catch(() => undefined);
+
+    return this.startSession(user, context);
   }
 
-  async signin(dto: AuthDto) {
+  async signin(
+    dto: AuthDto,
+    context: SessionContext,
+  ): Promise<AuthTokens | TwoFactorChallenge> {
     const user = await this.prisma.user.findUnique({
       where: { email: dto.email },
     });
 
-    if (!user) throw new BadRequestException('Invalid credentials');
+    if (user) await this.signinAttemptService.assertNotLocked(user, context);
+
+    // Accounts created through an external identity have no password
+    if (
+      !user?.password ||
+      !(await bcrypt.compare(dto.password, user.password))
+    ) {
+      await this.signinAttemptService.recordFailure(
+        dto.email,
+        user,
+        'PASSWORD',
+        context,
+      );
+      throw new BadRequestException('Invalid credentials');
+    }
+
+    return this.completeSignin(user, context);
+  }
+
+  async signinWithOidc(
+    provider: string,
+    dto: OidcCallbackDto,
+    binding: string | undefined,
+    context: SessionContext,
+  ) {
+    const user = await this.oidcService.signin(provider, dto, binding);
+    return this.completeSignin(user, context);
+  }
+
+  async signinWithCode(dto: TwoFactorSigninDto, context: SessionContext) {
+    const userId = await this.verifyChallenge(dto.challenge_token, 'verify');
+    const user = await this.findSessionUser(userId);
+    await this.signinAttemptService.assertNotLocked(user, context);
+
+    if (!(await this.twoFactorService.verifyCode(userId, dto.code))) {
+      await this.signinAttemptService.recordFailure(
+        user.email,
+        user,
+        'CODE',
+        context,
+      );
+      throw new UnauthorizedException('Invalid code');
+    }
+
+    await this.signinAttemptService.recordSuccess(user);
+    return this.startSession(user, context);
+  }
+
+  // Enrolment during the signin of an account that requires 2FA
+  async setupAtSignin(challengeToken: string) {
+    const userId = await this.verifyChallenge(challengeToken, 'setup');
+    return this.twoFactorService.setup(userId);
+  }
+
+  async confirmAtSignin(dto: TwoFactorSigninDto, context: SessionContext) {
+    const userId = await this.verifyChallenge(dto.challenge_token, 'setup');
+    const { recovery_codes } = await this.twoFactorService.confirm(
+      userId,
+      dto.code,
+    );
+    const tokens = await this.startSession(
+      await this.findSessionUser(userId),
+      context,
+    );
+
+    return { ...tokens, recovery_codes };
+  }
+
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const rotated = await this.sessionService.rotate(refreshToken);
+    // The role is read again, so role changes apply from the next refresh
+    const { access_token } = await this.signToken(
+      rotated.user.id,
+      rotated.user.email,
+      toRole(rotated.user.role),
+      rotated.sessionId,
+      rotated.workspaceId,
+    );
+
+    return { access_token, refresh_token: rotated.refreshToken };
+  }
 
-    const pwMatch = await bcrypt.compare(dto.password, user.password);
-    if (!pwMatch) throw new BadRequestException('Invalid credentials');
+  // The refresh token stays valid and keeps the new workspace
+  async switchWorkspace(user: UserPayload, workspaceId: string) {
+    await this.sessionService.setWorkspace(user.sub, user.sid, workspaceId);
+    return this.signToken(
+      user.sub,
+      user.email,
+      user.role,
+      user.sid,
+      workspaceId,
+    );
+  }
 
-    // Default role to 'user' since user object does not have 'role' property
-    return this.signToken(user.id, user.email, 'user');
+  logout(refreshToken: string) {
+    return this.sessionService.revokeToken(refreshToken);
   }
 
   async signToken(
     userId: string,
     email: string,
-    role: 'user' | 'admin',
+    role: Role,
+    sessionId: string,
+    workspaceId: string | null,
   ): Promise<{ access_token: string }> {
-    const payload = { sub: userId, email, role };
+    const payload: UserPayload = {
+      sub: userId,
+      email,
+      role,
+      sid: sessionId,
+      ...(workspaceId && { wid: workspaceId }),
+    };
     const token = await this.jwt.signAsync(payload, {
-      expiresIn: '1h',
+      expiresIn: ACCESS_TOKEN_TTL,
       secret: process.env.JWT_SECRET,
     });
 
@@ -60,4 +202,70 @@ export class AuthService {
       access_token: token,
     };
   }
+
+  // Checks shared by every way of proving who the user is. Failed signins
+  // are only forgotten once the tokens are issued, after the 2FA step
+  private async completeSignin(
+    user: User,
+    context: SessionContext,
+  ): Promise<AuthTokens | TwoFactorChallenge> {
+    if (user.suspendedAt) throw new ForbiddenException('Account suspended');
+
+    if (user.twoFactorEnabledAt) return this.challenge(user.id, 'verify');
+    if (user.twoFactorRequired) return this.challenge(user.id, 'setup');
+
+    await this.signinAttemptService.recordSuccess(user);
+    return this.startSession(user, context);
+  }
+
+  private async challenge(
+    userId: string,
+    purpose: ChallengePurpose,
+  ): Promise<TwoFactorChallenge> {
+    const challenge_token = await this.jwt.signAsync(
+      { sub: userId, purpose },
+      { expiresIn: CHALLENGE_TTL, secret: process.env.JWT_SECRET },
+    );
+
+    return purpose === 'verify'
+      ? { two_factor_required: true, challenge_token }
+      : { two_factor_setup_required: true, challenge_token };
+  }
+
+  // Challenges have no session, so JwtStrategy refuses them as access tokens
+  private async verifyChallenge(token: string, purpose: ChallengePurpose) {
+    const payload = await this.jwt
+      .verifyAsync<{ sub: string; purpose?: string }>(token, {
+        secret: process.env.JWT_SECRET,
+      })
+      .catch(() => null);
+    if (payload?.purpose !== purpose) {
+      throw new UnauthorizedException('Invalid or expired challenge');
+    }
+    return payload.sub;
+  }
+
+  private async findSessionUser(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+    if (user.suspendedAt) throw new ForbiddenException('Account suspended');
+    return user;
+  }
+
+  private async startSession(
+    user: SessionUser,
+    context: SessionContext,
+  ): Promise<AuthTokens> {
+    const { sessionId, workspaceId, refreshToken } =
+      await this.sessionService.create(user.id, context);
+    const { access_token } = await this.signToken(
+      user.id,
+      user.email,
+      toRole(user.role),
+      sessionId,
+      workspaceId,
+    );
+
+    return { access_token, refresh_token: refreshToken };
+  }
 }
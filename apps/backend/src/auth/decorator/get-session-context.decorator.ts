@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { SessionContext } from '../types/auth.types';
+
+export const GetSessionContext = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): SessionContext => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    return { userAgent: request.headers['user-agent'], ip: request.ip };
+  },
+);
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../types/auth.types';
+
+export const ROLES_KEY = 'roles';
+
+// Read by RolesGuard, which must run after the jwt guard
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
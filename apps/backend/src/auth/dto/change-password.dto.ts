@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsOptional, IsString, MinLength } from 'class-validator';
+
+export class ChangePasswordDto {
+  @IsOptional()
+  @IsString()
+  currentPassword?: string; // not needed when the account has no password yet
+
+  @IsString()
+  @MinLength(6)
+  @IsNotEmpty()
+  newPassword: string;
+}
@@ -0,0 +1,12 @@
+import { IsJWT, IsNotEmpty, IsString } from 'class-validator';
+
+// Query of the provider's redirect, forwarded by the frontend once it has
+// checked the state is the one it started with
+export class OidcCallbackDto {
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @IsJWT()
+  state: string;
+}
@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class SwitchWorkspaceDto {
+  @IsString()
+  @IsNotEmpty()
+  workspace_id: string;
+}
@@ -0,0 +1,6 @@
+import { IsJWT } from 'class-validator';
+
+export class TwoFactorChallengeDto {
+  @IsJWT()
+  challenge_token: string;
+}
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string; // from the authenticator app, or a recovery code
+}
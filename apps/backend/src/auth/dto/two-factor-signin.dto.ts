@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { TwoFactorChallengeDto } from './two-factor-challenge.dto';
+
+export class TwoFactorSigninDto extends TwoFactorChallengeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+}
@@ -0,0 +1,32 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { Role } from '../types/auth.types';
+
+describe('RolesGuard', () => {
+  const reflector = { getAllAndOverride: jest.fn() };
+  const guard = new RolesGuard(reflector as unknown as Reflector);
+
+  const contextOf = (role?: Role) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({ user: role && { sub: 'user-1', role } }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  it('lets everyone through routes without roles', () => {
+    reflector.getAllAndOverride.mockReturnValue(undefined);
+
+    expect(guard.canActivate(contextOf('user'))).toBe(true);
+  });
+
+  it('only lets the listed roles through', () => {
+    reflector.getAllAndOverride.mockReturnValue(['admin']);
+
+    expect(guard.canActivate(contextOf('admin'))).toBe(true);
+    expect(guard.canActivate(contextOf('user'))).toBe(false);
+    expect(guard.canActivate(contextOf())).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ThrottlerModule } from '@nestjs/throttler';
+import { OidcController } from './oidc.controller';
+import { AuthService } from './auth.service';
+import { OidcService } from './oidc.service';
+
+describe('OidcController', () => {
+  let controller: OidcController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [ThrottlerModule.forRoot([])],
+      controllers: [OidcController],
+      providers: [
+        { provide: AuthService, useValue: {} },
+        { provide: OidcService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<OidcController>(OidcController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { CookieOptions, Request, Response } from 'express';
+import { AuthGuard } from '@nestjs/passport';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { AuthService } from './auth.service';
+import { OIDC_BINDING_COOKIE, OidcService } from './oidc.service';
+import { OidcCallbackDto } from './dto/oidc-callback.dto';
+import { GetUser } from './decorator/get-user.decorator';
+import { GetSessionContext } from './decorator/get-session-context.decorator';
+import { SessionContext, UserPayload } from './types/auth.types';
+
+// Only sent back to the callbacks, and never readable by scripts
+const BINDING_COOKIE: CookieOptions = {
+  httpOnly: true,
+  sameSite: 'strict',
+  secure: process.env.NODE_ENV === 'production',
+  path: '/auth',
+};
+
+// As long as the state
+const BINDING_TTL = 10 * 60 * 1000;
+
+@Controller('auth')
+export class OidcController {
+  constructor(
+    private authService: AuthService,
+    private oidcService: OidcService,
+  ) {}
+
+  // Providers to show sign-in buttons for
+  @Get('oidc/providers')
+  findProviders() {
+    return this.oidcService.listProviders();
+  }
+
+  @Get('oidc/:provider/url')
+  getSigninUrl(
+    @Param('provider') provider: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.startFlow(res, provider);
+  }
+
+  @UseGuards(ThrottlerGuard)
+  @Post('oidc/:provider/callback')
+  @HttpCode(HttpStatus.OK)
+  signin(
+    @Param('provider') provider: string,
+    @Body() dto: OidcCallbackDto,
+    @GetSessionContext() context: SessionContext,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.authService.signinWithOidc(
+      provider,
+      dto,
+      this.endFlow(req, res),
+      context,
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get('identities')
+  findIdentities(@GetUser() user: UserPayload) {
+    return this.oidcService.findAll(user.sub);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get('identities/:provider/url')
+  getLinkUrl(
+    @Param('provider') provider: string,
+    @GetUser() user: UserPayload,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.startFlow(res, provider, user.sub);
+  }
+
+  @UseGuards(AuthGuard('jwt'), ThrottlerGuard)
+  @Post('identities/:provider')
+  link(
+    @Param('provider') provider: string,
+    @Body() dto: OidcCallbackDto,
+    @GetUser() user: UserPayload,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.oidcService.link(
+      user.sub,
+      provider,
+      dto,
+      this.endFlow(req, res),
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete('identities/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  unlink(@Param('id') id: string, @GetUser() user: UserPayload) {
+    return this.oidcService.unlink(user.sub, id);
+  }
+
+  // The binding stays in the browser, the state goes to the provider
+  private async startFlow(res: Response, provider: string, userId?: string) {
+    const { binding, ...authorization } =
+      await this.oidcService.getAuthorizationUrl(provider, userId);
+    res.cookie(OIDC_BINDING_COOKIE, binding, {
+      ...BINDING_COOKIE,
+      maxAge: BINDING_TTL,
+    });
+    return authorization;
+  }
+
+  // A binding serves one callback
+  private endFlow(req: Request, res: Response): string | undefined {
+    res.clearCookie(OIDC_BINDING_COOKIE, BINDING_COOKIE);
+    return (req.cookies as Record<string, string> | undefined)?.[
+      OIDC_BINDING_COOKIE
+    ];
+  }
+}
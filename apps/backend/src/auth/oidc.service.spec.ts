@@ -0,0 +1,324 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, generateKeyPairSync, sign } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OidcService } from './oidc.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const CLIENT_ID = 'nimbuslance';
+
+const base64url = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Stand-in for an OpenID provider: discovery, keys, and a token endpoint
+// checking PKCE for the codes handed out by authorize()
+function createIdpServer() {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const jwk = {
+    ...publicKey.export({ format: 'jwk' }),
+    kid: 'k1',
+    alg: 'RS256',
+    use: 'sig',
+  };
+  const codes = new Map<
+    string,
+    { challenge: string; nonce: string; claims: object }
+  >();
+  let issuer = '';
+
+  const signIdToken = (payload: object) => {
+    const input = `${base64url({ alg: 'RS256', kid: 'k1', typ: 'JWT' })}.${base64url(payload)}`;
+    return `${input}.${sign('sha256', Buffer.from(input), privateKey).toString('base64url')}`;
+  };
+
+  const server = http.createServer((req, res) => {
+    const json = (status: number, body: object) =>
+      res
+        .writeHead(status, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify(body));
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => {
+      switch (req.url) {
+        case '/.well-known/openid-configuration':
+          return json(200, {
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`,
+            response_types_supported: ['code'],
+            subject_types_supported: ['public'],
+            id_token_signing_alg_values_supported: ['RS256'],
+            code_challenge_methods_supported: ['S256'],
+          });
+        case '/jwks':
+          return json(200, { keys: [jwk] });
+        case '/token': {
+          const params = new URLSearchParams(body);
+          const grant = codes.get(params.get('code') ?? '');
+          const challenge = createHash('sha256')
+            .update(params.get('code_verifier') ?? '')
+            .digest('base64url');
+          if (!grant || grant.challenge !== challenge) {
+            return json(400, { error: 'invalid_grant' });
+          }
+          const now = Math.floor(Date.now() / 1000);
+          return json(200, {
+            access_token: 'access',
+            token_type: 'Bearer',
+            id_token: signIdToken({
+              iss: issuer,
+              aud: CLIENT_ID,
+              iat: now,
+              exp: now + 60,
+              nonce: grant.nonce,
+              ...grant.claims,
+            }),
+          });
+        }
+        default:
+          res.writeHead(404).end();
+      }
+    });
+  });
+
+  // What the provider does once the user has signed in on its side
+  const authorize = (url: string, claims: object) => {
+    const query = new URL(url).searchParams;
+    const code = `code-${codes.size + 1}`;
+    codes.set(code, {
+      challenge: query.get('code_challenge')!,
+      nonce: query.get('nonce')!,
+      claims,
+    });
+    return { code, state: query.get('state')! };
+  };
+
+  return {
+    server,
+    authorize,
+    setIssuer: (value: string) => (issuer = value),
+  };
+}
+
+describe('OidcService', () => {
+  const idp = createIdpServer();
+  let service: OidcService;
+  const prisma = {
+    user: { findUnique: jest.fn(), create: jest.fn() },
+    externalIdentity: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      upsert: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+  const claims = {
+    sub: 'idp-1',
+    email: 'jane@example.com',
+    email_verified: true,
+  };
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => idp.server.listen(0, resolve));
+    const { port } = idp.server.address() as AddressInfo;
+    idp.setIssuer(`http://localhost:${port}`);
+
+    process.env.JWT_SECRET = 'test-secret';
+    process.env.OIDC_PROVIDERS = 'mock';
+    process.env.OIDC_MOCK_ISSUER = `http://localhost:${port}`;
+    process.env.OIDC_MOCK_CLIENT_ID = CLIENT_ID;
+  });
+
+  afterAll(() => {
+    delete process.env.OIDC_PROVIDERS;
+    idp.server.close();
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        JwtService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+  });
+
+  it('sends the user to the provider with PKCE', async () => {
+    const { url, state } = await service.getAuthorizationUrl('mock');
+    const query = new URL(url).searchParams;
+
+    expect(service.listProviders()).toEqual(['mock']);
+    expect(query.get('client_id')).toBe(CLIENT_ID);
+    expect(query.get('redirect_uri')).toBe(
+      'http://localhost:3001/auth/callback/mock',
+    );
+    expect(query.get('code_challenge_method')).toBe('S256');
+    expect(query.get('state')).toBe(state);
+  });
+
+  it('creates an account without password for a new identity', async () => {
+    const { url, binding } = await service.getAuthorizationUrl('mock');
+    prisma.user.create.mockResolvedValue({ id: 'user-1' });
+
+    await service.signin('mock', idp.authorize(url, claims), binding);
+
+    expect(prisma.user.create).toHaveBeenCalledWith({
+      data: {
+        email: 'jane@example.com',
+        role: 'user',
+        emailVerifiedAt: expect.any(Date),
+        externalIdentities: {
+          create: {
+            provider: 'mock',
+            subject: 'idp-1',
+            email: 'jane@example.com',
+          },
+        },
+        memberships: {
+          create: {
+            role: 'OWNER',
+            workspace: { create: { name: 'jane@example.com' } },
+          },
+        },
+      },
+    });
+  });
+
+  it('signs in the user of a known identity', async () => {
+    const { url, binding } = await service.getAuthorizationUrl('mock');
+    prisma.externalIdentity.findUnique.mockResolvedValue({
+      user: { id: 'user-1' },
+    });
+
+    expect(
+      await service.signin('mock', idp.authorize(url, claims), binding),
+    ).toEqual({
+      id: 'user-1',
+    });
+    expect(prisma.externalIdentity.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { provider_subject: { provider: 'mock', subject: 'idp-1' } },
+      }),
+    );
+  });
+
+  it('does not take over an account through an unverified email', async () => {
+    const { url, binding } = await service.getAuthorizationUrl('mock');
+    prisma.user.findUnique.mockResolvedValue({ id: 'user-1' });
+
+    await expect(
+      service.signin(
+        'mock',
+        idp.authorize(url, { ...claims, email_verified: false }),
+        binding,
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(prisma.externalIdentity.create).not.toHaveBeenCalled();
+  });
+
+  it('does not take over an account whose email is not verified', async () => {
+    const { url, binding } = await service.getAuthorizationUrl('mock');
+    prisma.user.findUnique.mockResolvedValue({
+      id: 'user-1',
+      emailVerifiedAt: null,
+    });
+
+    await expect(
+      service.signin('mock', idp.authorize(url, claims), binding),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(prisma.externalIdentity.create).not.toHaveBeenCalled();
+  });
+
+  it('links the verified account with the verified email', async () => {
+    const { url, binding } = await service.getAuthorizationUrl('mock');
+    const user = { id: 'user-1', emailVerifiedAt: new Date() };
+    prisma.user.findUnique.mockResolvedValue(user);
+
+    expect(
+      await service.signin('mock', idp.authorize(url, claims), binding),
+    ).toBe(user);
+    expect(prisma.externalIdentity.create).toHaveBeenCalledWith({
+      data: {
+        provider: 'mock',
+        subject: 'idp-1',
+        email: 'jane@example.com',
+        userId: 'user-1',
+      },
+    });
+  });
+
+  it('refuses a code sent back with the state of another flow', async () => {
+    const { url } = await service.getAuthorizationUrl('mock');
+    const link = await service.getAuthorizationUrl('mock', 'user-1');
+    const other = await service.getAuthorizationUrl('mock');
+    const { code } = idp.authorize(url, claims);
+
+    await expect(
+      service.signin('mock', { code, state: link.state }, link.binding),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    // The verifier of another state does not match the challenge of the code
+    await expect(
+      service.signin('mock', { code, state: other.state }, other.binding),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('refuses a callback in a browser that did not start the flow', async () => {
+    const { url } = await service.getAuthorizationUrl('mock');
+    const victim = await service.getAuthorizationUrl('mock');
+    const callback = idp.authorize(url, claims);
+
+    await expect(service.signin('mock', callback)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    await expect(
+      service.signin('mock', callback, victim.binding),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(prisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it('links an identity to the signed-in user', async () => {
+    const { url, binding } = await service.getAuthorizationUrl(
+      'mock',
+      'user-1',
+    );
+
+    await service.link('user-1', 'mock', idp.authorize(url, claims), binding);
+
+    expect(prisma.externalIdentity.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: {
+          userId: 'user-1',
+          provider: 'mock',
+          subject: 'idp-1',
+          email: 'jane@example.com',
+        },
+      }),
+    );
+  });
+
+  it('keeps the last way to sign in of an account', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      password: null,
+      externalIdentities: [{ id: 'identity-1' }],
+    });
+
+    await expect(service.unlink('user-1', 'identity-1')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(prisma.externalIdentity.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, createHmac } from 'crypto';
+import { BaseClient, errors, generators, Issuer } from 'openid-client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OidcCallbackDto } from './dto/oidc-callback.dto';
+import {
+  OidcProviderConfig,
+  readOidcProviders,
+} from './utils/oidc-config.util';
+import { personalWorkspace } from '../workspace/utils/workspace.util';
+
+// Between the redirect to the provider and the callback
+const STATE_TTL = '10m';
+
+// Frontend page the providers redirect to, it forwards code and state here
+const APP_URL = process.env.APP_URL ?? 'http://localhost:3001';
+
+const IDENTITY_SELECT = {
+  id: true,
+  provider: true,
+  email: true,
+  createdAt: true,
+} as const;
+
+interface OidcState {
+  purpose: 'oidc';
+  provider: string;
+  nonce: string;
+  browser: string; // hash of the binding kept in the browser's cookie
+  link?: string; // user adding the identity to their account
+}
+
+// Name of the cookie binding a flow to the browser that started it
+export const OIDC_BINDING_COOKIE = 'oidc_binding';
+
+function hashBinding(binding: string) {
+  return createHash('sha256').update(binding).digest('base64url');
+}
+
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private readonly providers = readOidcProviders();
+  private readonly clients = new Map<string, Promise<BaseClient>>();
+
+  constructor(
+    private prisma: PrismaService,
+    private jwt: JwtService,
+  ) {}
+
+  listProviders() {
+    return [...this.providers.keys()];
+  }
+
+  // The state is signed, so the callback needs nothing stored in between. The
+  // binding goes to the browser as a cookie: a callback only succeeds in the
+  // browser that started the flow, which stops login CSRF.
+  async getAuthorizationUrl(provider: string, linkUserId?: string) {
+    const config = this.getConfig(provider);
+    const client = await this.getClient(config);
+    const nonce = generators.nonce();
+    const binding = generators.random();
+    const state = await this.jwt.signAsync(
+      {
+        purpose: 'oidc',
+        provider,
+        nonce,
+        browser: hashBinding(binding),
+        link: linkUserId,
+      } satisfies OidcState,
+      { expiresIn: STATE_TTL, secret: process.env.JWT_SECRET },
+    );
+
+    const url = client.authorizationUrl({
+      scope: config.scope,
+      state,
+      nonce,
+      code_challenge: generators.codeChallenge(this.codeVerifier(nonce)),
+      code_challenge_method: 'S256',
+    });
+    return { url, state, binding };
+  }
+
+  /**
+   * User of a signin callback: the one of a known identity, else the account
+   * with the same email when both it and the provider have verified it, else
+   * a new account without password.
+   */
+  async signin(provider: string, dto: OidcCallbackDto, binding?: string) {
+    const claims = await this.exchange(provider, dto, binding);
+    const identity = await this.prisma.externalIdentity.findUnique({
+      where: { provider_subject: { provider, subject: claims.subject } },
+      include: { user: true },
+    });
+    if (identity) return identity.user;
+
+    if (!claims.email) {
+      throw new BadRequestException('The provider shared no email address');
+    }
+    const identityData = {
+      provider,
+      subject: claims.subject,
+      email: claims.email,
+    };
+
+    const existing = await this.prisma.user.findUnique({
+      where: { email: claims.email },
+    });
+    if (existing) {
+      // An unverified email could belong to someone else at the provider, and
+      // an unverified account to someone who registered it to take it over
+      if (!claims.emailVerified || !existing.emailVerifiedAt) {
+        throw new ConflictException(
+          'An account uses this email: sign in to it and link the provider',
+        );
+      }
+      await this.prisma.externalIdentity.create({
+        data: { ...identityData, userId: existing.id },
+      });
+      return existing;
+    }
+
+    return this.prisma.user.create({
+      data: {
+        email: claims.email,
+        role: 'user',
+        emailVerifiedAt: claims.emailVerified ? new Date() : null,
+        externalIdentities: { create: identityData },
+        memberships: personalWorkspace(claims.email),
+      },
+    });
+  }
+
+  async link(
+    userId: string,
+    provider: string,
+    dto: OidcCallbackDto,
+    binding?: string,
+  ) {
+    const claims = await this.exchange(provider, dto, binding, userId);
+    const identity = await this.prisma.externalIdentity.findUnique({
+      where: { provider_subject: { provider, subject: claims.subject } },
+    });
+    if (identity && identity.userId !== userId) {
+      throw new ConflictException('This identity is linked to another account');
+    }
+
+    return this.prisma.externalIdentity.upsert({
+      where: { provider_subject: { provider, subject: claims.subject } },
+      create: {
+        userId,
+        provider,
+        subject: claims.subject,
+        email: claims.email,
+      },
+      update: { email: claims.email },
+      select: IDENTITY_SELECT,
+    });
+  }
+
+  findAll(userId: string) {
+    return this.prisma.externalIdentity.findMany({
+      where: { userId },
+      select: IDENTITY_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async unlink(userId: string, id: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { externalIdentities: { select: { id: true } } },
+    });
+    const identities = user?.externalIdentities ?? [];
+    if (!identities.some((identity) => identity.id === id)) {
+      throw new NotFoundException('Identity not found');
+    }
+    // The account must keep a way to sign in
+    if (!user?.password && identities.length === 1) {
+      throw new BadRequestException(
+        'Set a password before unlinking the last identity',
+      );
+    }
+
+    await this.prisma.externalIdentity.delete({ where: { id } });
+  }
+
+  private async exchange(
+    provider: string,
+    dto: OidcCallbackDto,
+    binding: string | undefined,
+    linkUserId?: string,
+  ) {
+    const config = this.getConfig(provider);
+    const state = await this.jwt
+      .verifyAsync<OidcState>(dto.state, { secret: process.env.JWT_SECRET })
+      .catch(() => null);
+    if (
+      state?.purpose !== 'oidc' ||
+      state.provider !== provider ||
+      !binding ||
+      state.browser !== hashBinding(binding) ||
+      state.link !== linkUserId
+    ) {
+      throw new UnauthorizedException('Invalid or expired state');
+    }
+
+    const client = await this.getClient(config);
+    try {
+      const tokenSet = await client.callback(
+        this.redirectUri(provider),
+        { code: dto.code, state: dto.state },
+        {
+          state: dto.state,
+          nonce: state.nonce,
+          code_verifier: this.codeVerifier(state.nonce),
+        },
+      );
+      const claims = tokenSet.claims();
+
+      return {
+        subject: claims.sub,
+        email: claims.email,
+        emailVerified: claims.email_verified === true,
+      };
+    } catch (error) {
+      if (error instanceof errors.OPError || error instanceof errors.RPError) {
+        this.logger.warn(`Sign-in refused by ${provider}: ${error.message}`);
+        throw new UnauthorizedException('The provider refused the sign-in');
+      }
+      throw error;
+    }
+  }
+
+  // PKCE verifier derived from the nonce with a server secret: the nonce
+  // travels in the URLs, the verifier never does
+  private codeVerifier(nonce: string) {
+    return createHmac('sha256', process.env.JWT_SECRET || 'fallback-secret')
+      .update(nonce)
+      .digest('base64url');
+  }
+
+  private redirectUri(provider: string) {
+    return `${APP_URL}/auth/callback/${provider}`;
+  }
+
+  private getConfig(provider: string) {
+    const config = this.providers.get(provider);
+    if (!config) throw new NotFoundException('Unknown provider');
+    return config;
+  }
+
+  // Discovered on first use; a failed discovery is tried again next time
+  private getClient(config: OidcProviderConfig) {
+    let client = this.clients.get(config.name);
+    if (!client) {
+      client = Issuer.discover(config.issuer).then(
+        (issuer) =>
+          new issuer.Client({
+            client_id: config.clientId,
+            client_secret: config.clientSecret,
+            redirect_uris: [this.redirectUri(config.name)],
+            response_types: ['code'],
+            token_endpoint_auth_method: config.clientSecret
+              ? 'client_secret_basic'
+              : 'none',
+          }),
+        (error: Error) => {
+          this.clients.delete(config.name);
+          this.logger.warn(`Discovery of ${config.name} failed`, error);
+          throw new BadGatewayException('The provider cannot be reached');
+        },
+      );
+      this.clients.set(config.name, client);
+    }
+    return client;
+  }
+}
@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { SessionService } from './session.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  const prisma = {
+    session: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    refreshToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    workspaceMember: { findFirst: jest.fn(), findUnique: jest.fn() },
+  };
+
+  const stored = {
+    id: 'token-1',
+    sessionId: 'session-1',
+    expiresAt: new Date(Date.now() + 60_000),
+    session: {
+      revokedAt: null,
+      user: { id: 'user-1', email: 'jane@example.com' },
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SessionService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  it('stores only the hash of the refresh token', async () => {
+    prisma.workspaceMember.findFirst.mockResolvedValue({
+      workspaceId: 'workspace-1',
+    });
+    prisma.session.create.mockResolvedValue({
+      id: 'session-1',
+      workspaceId: 'workspace-1',
+    });
+
+    const { sessionId, workspaceId, refreshToken } = await service.create(
+      'user-1',
+      { userAgent: 'Firefox' },
+    );
+
+    expect(sessionId).toBe('session-1');
+    expect(workspaceId).toBe('workspace-1');
+    expect(prisma.session.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ workspaceId: 'workspace-1' }),
+    });
+    expect(prisma.refreshToken.create).toHaveBeenCalledWith({
+      data: {
+        sessionId: 'session-1',
+        tokenHash: createHash('sha256').update(refreshToken).digest('hex'),
+        expiresAt: expect.any(Date),
+      },
+    });
+  });
+
+  it('rotates a refresh token into a new one of the family', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue(stored);
+    prisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+    const rotated = await service.rotate('token');
+
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 'token-1', usedAt: null },
+      data: { usedAt: expect.any(Date) },
+    });
+    expect(rotated.sessionId).toBe('session-1');
+    expect(rotated.refreshToken).not.toBe('token');
+    expect(prisma.refreshToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ sessionId: 'session-1' }),
+    });
+  });
+
+  it('revokes the whole family when a token is reused', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue(stored);
+    prisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.rotate('token')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+    expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses tokens of revoked sessions', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue({
+      ...stored,
+      session: { ...stored.session, revokedAt: new Date() },
+    });
+
+    await expect(service.rotate('token')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('flags the session of the request in the listing', async () => {
+    prisma.session.findMany.mockResolvedValue([
+      { id: 'session-1' },
+      { id: 'session-2' },
+    ]);
+
+    expect(await service.findAll('user-1', 'session-2')).toEqual([
+      { id: 'session-1', current: false },
+      { id: 'session-2', current: true },
+    ]);
+  });
+
+  it('only revokes sessions of the user', async () => {
+    prisma.session.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.remove('user-1', 'session-9')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('switches only to workspaces the user belongs to', async () => {
+    prisma.workspaceMember.findUnique.mockResolvedValueOnce({ id: 'member-1' });
+
+    await service.setWorkspace('user-1', 'session-1', 'workspace-2');
+    expect(prisma.session.update).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: { workspaceId: 'workspace-2' },
+    });
+
+    await expect(
+      service.setWorkspace('user-1', 'session-1', 'workspace-3'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
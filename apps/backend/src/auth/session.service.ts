@@ -0,0 +1,190 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionContext } from './types/auth.types';
+import { generateToken, hashToken } from './utils/token.util';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Sliding: every rotation extends the session by this much
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+@Injectable()
+export class SessionService {
+  constructor(private prisma: PrismaService) {}
+
+  // Opens the session of a signin with the first token of its family, in
+  // the first workspace the user joined
+  async create(userId: string, context: SessionContext) {
+    const membership = await this.prisma.workspaceMember.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: { workspaceId: true },
+    });
+    const session = await this.prisma.session.create({
+      data: {
+        userId,
+        workspaceId: membership?.workspaceId,
+        userAgent: context.userAgent,
+        ip: context.ip,
+      },
+    });
+    const refreshToken = await this.issue(session.id);
+
+    return {
+      sessionId: session.id,
+      workspaceId: session.workspaceId,
+      refreshToken,
+    };
+  }
+
+  // Workspace switch: the next access tokens of the session carry it
+  async setWorkspace(userId: string, sessionId: string, workspaceId: string) {
+    const membership = await this.prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+    });
+    if (!membership) throw new NotFoundException('Workspace not found');
+
+    await this.prisma.session.update({
+      where: { id: sessionId },
+      data: { workspaceId },
+    });
+  }
+
+  /**
+   * Trades a refresh token for the next one of its family. A token presented
+   * twice leaked, and nothing tells the thief from the user apart: the whole
+   * session is revoked and both have to sign in again.
+   */
+  async rotate(token: string) {
+    const now = new Date();
+    const current = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: {
+        session: {
+          include: {
+            user: {
+              select: { id: true, email: true, role: true, suspendedAt: true },
+            },
+          },
+        },
+      },
+    });
+    if (
+      !current ||
+      current.session.revokedAt ||
+      current.session.user.suspendedAt ||
+      current.expiresAt <= now
+    ) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // Guarded, so two concurrent rotations of a token cannot both succeed
+    const used = await this.prisma.refreshToken.updateMany({
+      where: { id: current.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (used.count === 0) {
+      await this.revokeSession(current.sessionId);
+      throw new UnauthorizedException('Refresh token reused');
+    }
+
+    await this.prisma.session.update({
+      where: { id: current.sessionId },
+      data: { lastUsedAt: now },
+    });
+    const refreshToken = await this.issue(current.sessionId);
+
+    return {
+      user: current.session.user,
+      sessionId: current.sessionId,
+      workspaceId: current.session.workspaceId,
+      refreshToken,
+    };
+  }
+
+  // Logout: unknown or already revoked tokens are ignored
+  async revokeToken(token: string) {
+    const current = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { sessionId: true },
+    });
+    if (current) await this.revokeSession(current.sessionId);
+  }
+
+  async findAll(userId: string, currentSessionId: string) {
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        tokens: { some: { usedAt: null, expiresAt: { gt: new Date() } } },
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ip: true,
+        createdAt: true,
+        lastUsedAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async remove(userId: string, id: string) {
+    const revoked = await this.prisma.session.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (revoked.count === 0) throw new NotFoundException('Session not found');
+  }
+
+  // Signs the user out everywhere, e.g. when an admin suspends the account,
+  // or everywhere else after a password change
+  revokeAll(userId: string, exceptId?: string) {
+    return this.prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptId && { id: { not: exceptId } }),
+      },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  // Access tokens of a revoked session stop working before they expire
+  async isActive(id: string) {
+    const session = await this.prisma.session.findUnique({
+      where: { id },
+      select: { revokedAt: true },
+    });
+    return !!session && !session.revokedAt;
+  }
+
+  private revokeSession(id: string) {
+    return this.prisma.session.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  // Only the hash is stored: a database leak does not give away sessions
+  private async issue(sessionId: string) {
+    const token = generateToken();
+    await this.prisma.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY),
+      },
+    });
+    return token;
+  }
+}
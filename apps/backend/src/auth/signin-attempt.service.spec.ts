@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException } from '@nestjs/common';
+import { SigninAttemptService, signinDelay } from './signin-attempt.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+
+describe('SigninAttemptService', () => {
+  let service: SigninAttemptService;
+  const prisma = {
+    user: { update: jest.fn(), updateMany: jest.fn() },
+    signinAttempt: { create: jest.fn(), count: jest.fn() },
+  };
+  const mailService = { send: jest.fn() };
+  const context = { ip: '203.0.113.7', userAgent: 'curl' };
+  const user = {
+    id: 'user-1',
+    email: 'jane@example.com',
+    failedSigninCount: 0,
+    lockedUntil: null,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SigninAttemptService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MailService, useValue: mailService },
+      ],
+    }).compile();
+
+    service = module.get<SigninAttemptService>(SigninAttemptService);
+  });
+
+  it('delays the answers more and more from the third failure', () => {
+    expect([1, 2, 3, 4, 5].map((n) => signinDelay(n, 1000))).toEqual([
+      0, 0, 1000, 2000, 4000,
+    ]);
+    expect(signinDelay(20, 1000)).toBe(10_000);
+  });
+
+  it('records the failure and counts it against the account', async () => {
+    prisma.user.update.mockResolvedValue({ failedSigninCount: 1 });
+
+    await service.recordFailure(user.email, user, 'PASSWORD', context);
+
+    expect(prisma.signinAttempt.create).toHaveBeenCalledWith({
+      data: {
+        email: 'jane@example.com',
+        userId: 'user-1',
+        reason: 'PASSWORD',
+        ip: '203.0.113.7',
+        userAgent: 'curl',
+      },
+    });
+    expect(prisma.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { failedSigninCount: { increment: 1 } },
+      }),
+    );
+    expect(prisma.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('locks the account at the limit and notifies its owner once', async () => {
+    prisma.user.update.mockResolvedValue({ failedSigninCount: 5 });
+    prisma.user.updateMany.mockResolvedValueOnce({ count: 1 });
+    prisma.user.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(
+      service.recordFailure(user.email, user, 'PASSWORD', context),
+    ).rejects.toBeInstanceOf(HttpException);
+    await expect(
+      service.recordFailure(user.email, user, 'PASSWORD', context),
+    ).rejects.toBeInstanceOf(HttpException);
+
+    expect(prisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', failedSigninCount: { gte: 5 } },
+      data: { lockedUntil: expect.any(Date), failedSigninCount: 0 },
+    });
+    expect(mailService.send).toHaveBeenCalledTimes(1);
+    expect(mailService.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: ['jane@example.com'] }),
+    );
+  });
+
+  it('records failures on unknown emails without an account', async () => {
+    prisma.signinAttempt.count.mockResolvedValue(1);
+
+    await service.recordFailure('nobody@example.com', null, 'PASSWORD', {});
+
+    expect(prisma.signinAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: undefined }),
+    });
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses locked accounts until the lockout ends', async () => {
+    const locked = {
+      ...user,
+      lockedUntil: new Date(Date.now() + 60_000),
+    };
+
+    await expect(
+      service.assertNotLocked(locked, context),
+    ).rejects.toMatchObject({ status: 429 });
+    expect(prisma.signinAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ reason: 'LOCKED' }),
+    });
+
+    await service.assertNotLocked(
+      { ...user, lockedUntil: new Date(Date.now() - 1000) },
+      context,
+    );
+  });
+
+  it('forgets the failures after a signin', async () => {
+    await service.recordSuccess(user);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+
+    await service.recordSuccess({ ...user, failedSigninCount: 2 });
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { failedSigninCount: 0, lockedUntil: null },
+    });
+  });
+});
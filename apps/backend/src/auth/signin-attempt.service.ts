@@ -0,0 +1,140 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { SigninFailure } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import {
+  ACCOUNT_SENDER_NAME,
+  renderLockoutEmail,
+} from '../mail/templates/account-email.template';
+import { SessionContext } from './types/auth.types';
+
+const MINUTE = 60 * 1000;
+
+// Failed signins in a row that lock an account, and for how long
+const MAX_FAILURES = Number(process.env.SIGNIN_MAX_FAILURES) || 5;
+const LOCKOUT_MINUTES = Number(process.env.SIGNIN_LOCKOUT_MINUTES) || 15;
+
+// Delay of the answer to the third failure in a row, doubled at each next one
+const DELAY_BASE_MS = Number(process.env.SIGNIN_DELAY_BASE_MS ?? 1000);
+const MAX_DELAY_MS = 10_000;
+
+interface AttemptUser {
+  id: string;
+  email: string;
+  failedSigninCount: number;
+  lockedUntil: Date | null;
+}
+
+export function signinDelay(failures: number, baseMs = DELAY_BASE_MS) {
+  if (failures < 3) return 0;
+  return Math.min(baseMs * 2 ** (failures - 3), MAX_DELAY_MS);
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+@Injectable()
+export class SigninAttemptService {
+  private readonly logger = new Logger(SigninAttemptService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailService: MailService,
+  ) {}
+
+  // Checked before the password, so a locked account cannot be brute-forced
+  async assertNotLocked(user: AttemptUser, context: SessionContext) {
+    if (!user.lockedUntil || user.lockedUntil <= new Date()) return;
+
+    await this.record(user.email, user.id, 'LOCKED', context);
+    throw this.lockedError(user.lockedUntil);
+  }
+
+  /**
+   * Records the failure, then answers more and more slowly. The failure that
+   * reaches the limit locks the account and tells its owner.
+   */
+  async recordFailure(
+    email: string,
+    user: AttemptUser | null,
+    reason: SigninFailure,
+    context: SessionContext,
+  ) {
+    await this.record(email, user?.id, reason, context);
+
+    if (!user) {
+      // Unknown emails answer as slowly as known ones
+      const failures = await this.prisma.signinAttempt.count({
+        where: {
+          email,
+          createdAt: { gt: new Date(Date.now() - LOCKOUT_MINUTES * MINUTE) },
+        },
+      });
+      return sleep(signinDelay(failures));
+    }
+
+    const { failedSigninCount } = await this.prisma.user.update({
+      where: { id: user.id },
+      data: { failedSigninCount: { increment: 1 } },
+      select: { failedSigninCount: true },
+    });
+    if (failedSigninCount < MAX_FAILURES) {
+      return sleep(signinDelay(failedSigninCount));
+    }
+
+    // Guarded, so concurrent failures lock the account and notify once
+    const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * MINUTE);
+    const locked = await this.prisma.user.updateMany({
+      where: { id: user.id, failedSigninCount: { gte: MAX_FAILURES } },
+      data: { lockedUntil, failedSigninCount: 0 },
+    });
+    if (locked.count > 0) await this.notifyLockout(user.email, context);
+
+    throw this.lockedError(lockedUntil);
+  }
+
+  async recordSuccess(user: AttemptUser) {
+    if (user.failedSigninCount === 0 && !user.lockedUntil) return;
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { failedSigninCount: 0, lockedUntil: null },
+    });
+  }
+
+  private record(
+    email: string,
+    userId: string | undefined,
+    reason: SigninFailure,
+    context: SessionContext,
+  ) {
+    return this.prisma.signinAttempt.create({
+      data: {
+        email,
+        userId,
+        reason,
+        ip: context.ip,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  private lockedError(lockedUntil: Date) {
+    return new HttpException(
+      `Too many failed signins, the account is locked until ${lockedUntil.toISOString()}`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  private async notifyLockout(email: string, context: SessionContext) {
+    try {
+      await this.mailService.send({
+        senderName: ACCOUNT_SENDER_NAME,
+        to: [email],
+        ...renderLockoutEmail(LOCKOUT_MINUTES, context.ip),
+      });
+    } catch (error) {
+      this.logger.warn(`Could not notify the lockout of ${email}`, error);
+    }
+  }
+}
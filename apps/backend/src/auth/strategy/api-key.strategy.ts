@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
+import { Strategy } from 'passport';
+import { ApiKeyPayload } from '../types/auth.types';
+import { API_KEY_PREFIX, ApiKeyService } from '../../api-key/api-key.service';
+
+type VerifyKey = (
+  key: string,
+  done: (error: unknown, user?: ApiKeyPayload | false) => void,
+) => void;
+
+// Reads the key from the same Bearer header as access tokens, and leaves
+// anything without the key prefix to the jwt strategy
+class BearerKeyStrategy extends Strategy {
+  constructor(private verify: VerifyKey) {
+    super();
+  }
+
+  authenticate(req: Request) {
+    const [scheme, key] = req.headers.authorization?.split(' ') ?? [];
+    if (scheme !== 'Bearer' || !key?.startsWith(API_KEY_PREFIX)) {
+      return this.fail(401);
+    }
+
+    this.verify(key, (error, user) => {
+      if (error) return this.error(error);
+      if (!user) return this.fail(401);
+      this.success(user);
+    });
+  }
+}
+
+// Accepted next to jwt by AuthGuard(['jwt', 'api-key'])
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(
+  BearerKeyStrategy,
+  'api-key',
+) {
+  constructor(private apiKeyService: ApiKeyService) {
+    super();
+  }
+
+  validate(key: string): Promise<ApiKeyPayload> {
+    return this.apiKeyService.authenticate(key);
+  }
+}
@@ -1,19 +1,23 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { UserPayload } from '../types/auth.types';
+import { SessionService } from '../session.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor() {
+  constructor(private sessionService: SessionService) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       secretOrKey: process.env.JWT_SECRET || 'fallback-secret',
     });
   }
 
-  validate(payload: UserPayload): UserPayload {
-    // You can add extra validation here if needed
+  async validate(payload: UserPayload): Promise<UserPayload> {
+    // Logout and revocation end the session before its tokens expire
+    if (!payload.sid || !(await this.sessionService.isActive(payload.sid))) {
+      throw new UnauthorizedException('Session revoked');
+    }
     return payload;
   }
 }
@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { authenticator } from 'otplib';
+import { TwoFactorService } from './two-factor.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  const prisma = {
+    $transaction: jest.fn(),
+    user: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    recoveryCode: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+  };
+
+  const secret = authenticator.generateSecret();
+  const enabled = {
+    id: 'user-1',
+    email: 'jane@example.com',
+    twoFactorSecret: secret,
+    twoFactorEnabledAt: new Date(),
+    twoFactorRequired: false,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  it('gives the otpauth URI and its QR code at setup', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      id: 'user-1',
+      email: 'jane@example.com',
+      twoFactorEnabledAt: null,
+    });
+
+    const setup = await service.setup('user-1');
+
+    expect(setup.otpauth_uri).toBe(
+      `otpauth://totp/NimbusLance:jane%40example.com?secret=${setup.secret}&period=30&digits=6&algorithm=SHA1&issuer=NimbusLance`,
+    );
+    expect(setup.qr_code).toMatch(/^data:image\/png;base64,/);
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { twoFactorSecret: setup.secret },
+    });
+  });
+
+  it('enables 2FA once a code confirms the secret', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      ...enabled,
+      twoFactorEnabledAt: null,
+    });
+
+    await expect(service.confirm('user-1', '000000')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+
+    const { recovery_codes } = await service.confirm(
+      'user-1',
+      authenticator.generate(secret),
+    );
+    expect(recovery_codes).toHaveLength(10);
+    expect(recovery_codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(prisma.recoveryCode.createMany).toHaveBeenCalledWith({
+      data: expect.arrayContaining([
+        { userId: 'user-1', codeHash: expect.stringMatching(/^\$2b\$/) },
+      ]),
+    });
+  });
+
+  it('accepts a code of the app once', async () => {
+    prisma.user.findUnique.mockResolvedValue(enabled);
+    prisma.user.updateMany.mockResolvedValueOnce({ count: 1 });
+    prisma.user.updateMany.mockResolvedValueOnce({ count: 0 });
+    const code = authenticator.generate(secret);
+
+    expect(await service.verifyCode('user-1', code)).toBe(true);
+    expect(await service.verifyCode('user-1', code)).toBe(false);
+  });
+
+  it('accepts an unused recovery code', async () => {
+    prisma.user.findUnique.mockResolvedValue(enabled);
+    prisma.recoveryCode.findMany.mockResolvedValue([
+      { id: 'code-1', codeHash: await bcrypt.hash('aaaaa-bbbbb', 4) },
+      { id: 'code-2', codeHash: await bcrypt.hash('3f9a1-07bc4', 4) },
+    ]);
+    prisma.recoveryCode.updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await service.verifyCode('user-1', ' 3F9A1-07BC4 ')).toBe(true);
+    expect(prisma.recoveryCode.updateMany).toHaveBeenCalledWith({
+      where: { id: 'code-2', usedAt: null },
+      data: { usedAt: expect.any(Date) },
+    });
+    expect(await service.verifyCode('user-1', 'ccccc-ddddd')).toBe(false);
+  });
+
+  it('cannot be disabled when an admin requires it', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      ...enabled,
+      twoFactorRequired: true,
+    });
+
+    await expect(
+      service.disable('user-1', authenticator.generate(secret)),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { User } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { authenticator } from 'otplib';
+import { toDataURL } from 'qrcode';
+import { PrismaService } from '../prisma/prisma.service';
+
+const ISSUER = 'NimbusLance';
+const STEP_SECONDS = 30;
+const RECOVERY_CODE_COUNT = 10;
+
+// Accepts the codes of the previous and next steps, for clock drift
+const totp = authenticator.clone({ step: STEP_SECONDS, window: 1 });
+
+const currentStep = () => Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+// e.g. 3f9a1-07bc4
+function generateRecoveryCode() {
+  const hex = randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+@Injectable()
+export class TwoFactorService {
+  constructor(private prisma: PrismaService) {}
+
+  // Starts over on every call until a code confirms the secret
+  async setup(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication already enabled',
+      );
+    }
+
+    const secret = totp.generateSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: secret },
+    });
+    const otpauthUri = totp.keyuri(user.email, ISSUER, secret);
+
+    return {
+      secret,
+      otpauth_uri: otpauthUri,
+      qr_code: await toDataURL(otpauthUri),
+    };
+  }
+
+  // The recovery codes are only shown here, they are stored hashed
+  async confirm(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabledAt || !user.twoFactorSecret) {
+      throw new BadRequestException('No two-factor setup to confirm');
+    }
+
+    const step = this.checkTotp(user, code);
+    if (step === null) throw new BadRequestException('Invalid code');
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+    });
+    return { recovery_codes: await this.replaceRecoveryCodes(userId) };
+  }
+
+  async disable(userId: string, code: string) {
+    const user = await this.findEnabled(userId);
+    if (user.twoFactorRequired) {
+      throw new ForbiddenException(
+        'Two-factor authentication is required for this account',
+      );
+    }
+    if (!(await this.verify(user, code))) {
+      throw new BadRequestException('Invalid code');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastStep: null,
+        },
+      }),
+    ]);
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await this.findEnabled(userId);
+    if (!(await this.verify(user, code))) {
+      throw new BadRequestException('Invalid code');
+    }
+
+    return { recovery_codes: await this.replaceRecoveryCodes(userId) };
+  }
+
+  // Second step of the signin
+  async verifyCode(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    return !!user.twoFactorEnabledAt && this.verify(user, code);
+  }
+
+  private async verify(user: User, code: string) {
+    const step = this.checkTotp(user, code);
+    if (step === null) return this.useRecoveryCode(user.id, code);
+
+    // Guarded, so a code seen over a shoulder cannot be used again
+    const used = await this.prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+    return used.count > 0;
+  }
+
+  // Time step of the code, or null when it is not a valid code of the app
+  private checkTotp(user: User, code: string) {
+    if (!user.twoFactorSecret || !/^\d{6}$/.test(code)) return null;
+
+    const delta = totp.checkDelta(code, user.twoFactorSecret);
+    return delta === null ? null : currentStep() + delta;
+  }
+
+  private async useRecoveryCode(userId: string, code: string) {
+    const candidate = code.trim().toLowerCase();
+    const codes = await this.prisma.recoveryCode.findMany({
+      where: { userId, usedAt: null },
+    });
+
+    for (const recoveryCode of codes) {
+      if (await bcrypt.compare(candidate, recoveryCode.codeHash)) {
+        const used = await this.prisma.recoveryCode.updateMany({
+          where: { id: recoveryCode.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+        return used.count > 0;
+      }
+    }
+    return false;
+  }
+
+  private async replaceRecoveryCodes(userId: string) {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      generateRecoveryCode(),
+    );
+    const hashes = await Promise.all(
+      codes.map((code) => bcrypt.hash(code, 10)),
+    );
+
+    await this.prisma.$transaction([
+      this.prisma.recoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.recoveryCode.createMany({
+        data: hashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+    return codes;
+  }
+
+  private async findEnabled(userId: string) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    return user;
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+    return user;
+  }
+}
@@ -1,7 +1,41 @@
+import { WorkspaceRole } from '@prisma/client';
+
+export type Role = 'user' | 'admin';
+
 export interface UserPayload {
   sub: string;
   email: string;
-  role: 'user' | 'admin'; // Add more roles as needed
+  role: Role; // as stored on the user when the token was signed
+  sid: string; // session of the token, checked on every request
+  wid?: string; // active workspace of the session, if the user has one
+  workspaceRole?: WorkspaceRole; // read by WorkspaceGuard on each request
   iat?: number;
   exp?: number;
 }
+
+// Request user of an API key: no session, the key and its scopes instead
+export interface ApiKeyPayload {
+  sub: string;
+  email: string;
+  role: Role;
+  kid: string; // API key of the request
+  wid: string; // workspace the key was created in
+  workspaceRole?: WorkspaceRole;
+  scopes: string[];
+}
+
+// Device the session was opened from, listed in /auth/sessions
+export interface SessionContext {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface AuthTokens {
+  access_token: string;
+  refresh_token: string;
+}
+
+// Answer of a signin that needs a code, or an enrolment, before the tokens
+export type TwoFactorChallenge =
+  | { two_factor_required: true; challenge_token: string }
+  | { two_factor_setup_required: true; challenge_token: string };
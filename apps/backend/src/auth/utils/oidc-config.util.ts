@@ -0,0 +1,43 @@
+export interface OidcProviderConfig {
+  name: string; // in the routes and on the linked identities
+  issuer: string; // discovered through /.well-known/openid-configuration
+  clientId: string;
+  clientSecret?: string; // public clients rely on PKCE alone
+  scope: string;
+}
+
+/**
+ * Providers listed in OIDC_PROVIDERS (e.g. "google,mock"), each configured by
+ * OIDC_<NAME>_ISSUER, OIDC_<NAME>_CLIENT_ID, and optionally
+ * OIDC_<NAME>_CLIENT_SECRET and OIDC_<NAME>_SCOPE.
+ */
+export function readOidcProviders(
+  env: NodeJS.ProcessEnv = process.env,
+): Map<string, OidcProviderConfig> {
+  const names = (env.OIDC_PROVIDERS ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return new Map(
+    names.map((name) => {
+      const prefix = `OIDC_${name.toUpperCase().replace(/-/g, '_')}_`;
+      const issuer = env[`${prefix}ISSUER`];
+      const clientId = env[`${prefix}CLIENT_ID`];
+      if (!issuer || !clientId) {
+        throw new Error(`${prefix}ISSUER and ${prefix}CLIENT_ID are required`);
+      }
+
+      return [
+        name,
+        {
+          name,
+          issuer,
+          clientId,
+          clientSecret: env[`${prefix}CLIENT_SECRET`],
+          scope: env[`${prefix}SCOPE`] ?? 'openid email profile',
+        },
+      ];
+    }),
+  );
+}
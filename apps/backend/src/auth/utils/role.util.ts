@@ -0,0 +1,8 @@
+import { Role } from '../types/auth.types';
+
+export const ROLES: Role[] = ['user', 'admin'];
+
+// User.role is a plain column: anything unexpected gets the least privileges
+export function toRole(value: string): Role {
+  return ROLES.find((role) => role === value) ?? 'user';
+}
@@ -0,0 +1,7 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Random enough that a fast hash is safe to store, unlike passwords
+export const generateToken = () => randomBytes(32).toString('base64url');
+
+export const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
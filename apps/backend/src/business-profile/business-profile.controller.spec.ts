@@ -0,0 +1,26 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BusinessProfileController } from './business-profile.controller';
+import { BusinessProfileService } from './business-profile.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('BusinessProfileController', () => {
+  let controller: BusinessProfileController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [BusinessProfileController],
+      providers: [
+        { provide: BusinessProfileService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<BusinessProfileController>(
+      BusinessProfileController,
+    );
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
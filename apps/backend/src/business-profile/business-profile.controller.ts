@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Put,
+  Res,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
+import { WorkspaceRoles } from '../workspace/decorator/workspace-roles.decorator';
+import { MANAGER_ROLES } from '../workspace/utils/workspace.util';
+import {
+  BusinessProfileService,
+  MAX_LOGO_SIZE,
+} from './business-profile.service';
+import { UpsertBusinessProfileDto } from './dto/upsert-business-profile.dto';
+
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('business-profile')
+@Controller('workspaces/current/business-profile')
+export class BusinessProfileController {
+  constructor(
+    private readonly businessProfileService: BusinessProfileService,
+  ) {}
+
+  @Get()
+  findOne(@GetUser() user: WorkspaceUser) {
+    return this.businessProfileService.findOne(user.wid);
+  }
+
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Put()
+  upsert(
+    @Body() dto: UpsertBusinessProfileDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.businessProfileService.upsert(user.wid, dto);
+  }
+
+  @Get('logo')
+  async getLogo(@GetUser() user: WorkspaceUser, @Res() res: Response) {
+    const logo = await this.businessProfileService.getLogo(user.wid);
+    if (!logo) throw new NotFoundException('No logo uploaded');
+
+    res.type(logo.mimeType).send(logo.data);
+  }
+
+  // multipart/form-data with a `logo` file field
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Put('logo')
+  @UseInterceptors(
+    FileInterceptor('logo', { limits: { fileSize: MAX_LOGO_SIZE } }),
+  )
+  setLogo(
+    @UploadedFile() file: Express.Multer.File,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.businessProfileService.setLogo(user.wid, file);
+  }
+
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Delete('logo')
+  removeLogo(@GetUser() user: WorkspaceUser) {
+    return this.businessProfileService.removeLogo(user.wid);
+  }
+}
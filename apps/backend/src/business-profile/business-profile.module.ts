@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { BusinessProfileController } from './business-profile.controller';
+import { BusinessProfileService } from './business-profile.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [BusinessProfileController],
+  providers: [BusinessProfileService],
+  exports: [BusinessProfileService],
+})
+export class BusinessProfileModule {}
@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { BusinessProfileService } from './business-profile.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('BusinessProfileService', () => {
+  let service: BusinessProfileService;
+  const prisma = {
+    workspace: { findUniqueOrThrow: jest.fn() },
+    businessProfile: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  const branding = {
+    documentTemplate: 'CLASSIC',
+    documentAccentColor: '#1f2937',
+    documentFooter: null,
+  };
+
+  const profile = {
+    legalName: 'Jane Doe',
+    siren: '123456789',
+    siret: null,
+    vatNumber: null,
+    vatMention: 'TVA non applicable, art. 293 B du CGI',
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BusinessProfileService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<BusinessProfileService>(BusinessProfileService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('allows issuing with a SIREN and a VAT exemption mention', async () => {
+    prisma.workspace.findUniqueOrThrow.mockResolvedValue({
+      ...branding,
+      businessProfile: profile,
+    });
+    await expect(service.assertCanIssue('workspace-1')).resolves.toEqual({
+      seller: profile,
+      branding: { template: 'CLASSIC', accentColor: '#1f2937', footer: null },
+    });
+  });
+
+  it('refuses to issue without a business profile', async () => {
+    prisma.workspace.findUniqueOrThrow.mockResolvedValue({
+      ...branding,
+      businessProfile: null,
+    });
+    await expect(service.assertCanIssue('workspace-1')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('lists the missing mandatory mentions', async () => {
+    prisma.workspace.findUniqueOrThrow.mockResolvedValue({
+      ...branding,
+      businessProfile: { ...profile, siren: null, vatMention: null },
+    });
+    await expect(service.assertCanIssue('workspace-1')).rejects.toThrow(
+      'Business profile is missing siren or siret, vatNumber or vatMention',
+    );
+  });
+
+  it('rejects logos that are not PNG or JPEG', async () => {
+    const file = {
+      size: 10,
+      buffer: Buffer.from('GIF89a'),
+    } as Express.Multer.File;
+
+    await expect(service.setLogo('workspace-1', file)).rejects.toThrow(
+      'Logo must be a PNG or JPEG image',
+    );
+    expect(prisma.businessProfile.update).not.toHaveBeenCalled();
+  });
+
+  it('signs emails with the chosen name, the trade name or the workspace', async () => {
+    const workspace = {
+      name: 'Doe studio',
+      members: [{ user: { email: 'jane@example.com' } }],
+      mailSenderName: null,
+      businessProfile: {
+        legalName: 'Jane Doe',
+        tradeName: 'Doe & Co',
+        email: 'billing@doe.test',
+      },
+    };
+    prisma.workspace.findUniqueOrThrow
+      .mockResolvedValueOnce({ ...workspace, mailSenderName: 'Jane from Doe' })
+      .mockResolvedValueOnce(workspace)
+      .mockResolvedValueOnce({ ...workspace, businessProfile: null });
+
+    expect(await service.getMailSender('workspace-1')).toEqual({
+      name: 'Jane from Doe',
+      replyTo: 'billing@doe.test',
+    });
+    expect((await service.getMailSender('workspace-1')).name).toBe('Doe & Co');
+    expect(await service.getMailSender('workspace-1')).toEqual({
+      name: 'Doe studio',
+      replyTo: 'jane@example.com',
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { DocumentContext } from '../pdf/types/pdf.types';
+import { UpsertBusinessProfileDto } from './dto/upsert-business-profile.dto';
+
+export const MAX_LOGO_SIZE = 512 * 1024;
+
+// PDFKit only embeds PNG and JPEG; checked on the bytes, not the declared type
+const LOGO_SIGNATURES = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+];
+
+// The logo is served by its own route, not inlined in every response
+const PROFILE_SELECT = {
+  id: true,
+  legalName: true,
+  tradeName: true,
+  legalForm: true,
+  addressLine1: true,
+  addressLine2: true,
+  postalCode: true,
+  city: true,
+  country: true,
+  email: true,
+  phone: true,
+  siren: true,
+  siret: true,
+  registration: true,
+  vatNumber: true,
+  vatMention: true,
+  bankName: true,
+  iban: true,
+  bic: true,
+  logoMimeType: true,
+  updatedAt: true,
+} as const;
+
+@Injectable()
+export class BusinessProfileService {
+  constructor(private prisma: PrismaService) {}
+
+  findOne(workspaceId: string) {
+    return this.prisma.businessProfile.findUnique({
+      where: { workspaceId },
+      select: PROFILE_SELECT,
+    });
+  }
+
+  upsert(workspaceId: string, dto: UpsertBusinessProfileDto) {
+    return this.prisma.businessProfile.upsert({
+      where: { workspaceId },
+      create: { ...dto, workspaceId },
+      update: dto,
+      select: PROFILE_SELECT,
+    });
+  }
+
+  async setLogo(workspaceId: string, file?: Express.Multer.File) {
+    if (!file) throw new BadRequestException('A logo file is required');
+    if (file.size > MAX_LOGO_SIZE) {
+      throw new BadRequestException('Logo must not exceed 512 KB');
+    }
+
+    const signature = LOGO_SIGNATURES.find(({ bytes }) =>
+      bytes.every((byte, i) => file.buffer[i] === byte),
+    );
+    if (!signature) {
+      throw new BadRequestException('Logo must be a PNG or JPEG image');
+    }
+
+    await this.requireProfile(workspaceId);
+    return this.prisma.businessProfile.update({
+      where: { workspaceId },
+      data: { logo: file.buffer, logoMimeType: signature.mimeType },
+      select: PROFILE_SELECT,
+    });
+  }
+
+  async removeLogo(workspaceId: string) {
+    await this.requireProfile(workspaceId);
+    return this.prisma.businessProfile.update({
+      where: { workspaceId },
+      data: { logo: null, logoMimeType: null },
+      select: PROFILE_SELECT,
+    });
+  }
+
+  async getLogo(workspaceId: string) {
+    const profile = await this.prisma.businessProfile.findUnique({
+      where: { workspaceId },
+      select: { logo: true, logoMimeType: true },
+    });
+    if (!profile?.logo || !profile.logoMimeType) return null;
+
+    return { data: Buffer.from(profile.logo), mimeType: profile.logoMimeType };
+  }
+
+  // Full profile, logo included, and the workspace's branding, as printed on documents
+  async getDocumentContext(workspaceId: string): Promise<DocumentContext> {
+    const workspace = await this.prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+      select: {
+        documentTemplate: true,
+        documentAccentColor: true,
+        documentFooter: true,
+        businessProfile: true,
+      },
+    });
+
+    return {
+      seller: workspace.businessProfile,
+      branding: {
+        template: workspace.documentTemplate,
+        accentColor: workspace.documentAccentColor,
+        footer: workspace.documentFooter,
+      },
+    };
+  }
+
+  // Emails show the chosen name and replies go to the business address, or
+  // to the first owner of the workspace
+  async getMailSender(workspaceId: string) {
+    const workspace = await this.prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+      select: {
+        name: true,
+        mailSenderName: true,
+        businessProfile: {
+          select: { legalName: true, tradeName: true, email: true },
+        },
+        members: {
+          where: { role: 'OWNER' },
+          orderBy: { createdAt: 'asc' },
+          take: 1,
+          select: { user: { select: { email: true } } },
+        },
+      },
+    });
+    const profile = workspace.businessProfile;
+
+    return {
+      name:
+        workspace.mailSenderName ??
+        profile?.tradeName ??
+        profile?.legalName ??
+        workspace.name,
+      replyTo: profile?.email ?? workspace.members[0]?.user.email,
+    };
+  }
+
+  /**
+   * An invoice cannot be issued without the seller's mandatory mentions:
+   * identity, address, SIREN/SIRET and either a VAT number or the reason VAT
+   * is not charged.
+   */
+  async assertCanIssue(workspaceId: string) {
+    const context = await this.getDocumentContext(workspaceId);
+    const profile = context.seller;
+    if (!profile) {
+      throw new BadRequestException(
+        'Complete your business profile before issuing invoices',
+      );
+    }
+
+    const missing: string[] = [];
+    if (!profile.siren && !profile.siret) missing.push('siren or siret');
+    if (!profile.vatNumber && !profile.vatMention) {
+      missing.push('vatNumber or vatMention');
+    }
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Business profile is missing ${missing.join(', ')}`,
+      );
+    }
+
+    return { ...context, seller: profile };
+  }
+
+  private async requireProfile(workspaceId: string) {
+    const profile = await this.prisma.businessProfile.findUnique({
+      where: { workspaceId },
+      select: { id: true },
+    });
+    if (!profile) {
+      throw new BadRequestException('Create your business profile first');
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  IsEmail,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class UpsertBusinessProfileDto {
+  @IsString()
+  @MaxLength(200)
+  legalName: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  tradeName?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  legalForm?: string; // e.g. EI, SASU, SARL
+
+  @IsString()
+  addressLine1: string;
+
+  @IsOptional()
+  @IsString()
+  addressLine2?: string;
+
+  @IsString()
+  postalCode: string;
+
+  @IsString()
+  city: string;
+
+  @IsOptional()
+  @Length(2, 2)
+  country?: string; // ISO 3166-1 alpha-2, defaults to FR
+
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @IsOptional()
+  @Matches(/^\d{9}$/, { message: 'siren must be 9 digits' })
+  siren?: string;
+
+  @IsOptional()
+  @Matches(/^\d{14}$/, { message: 'siret must be 14 digits' })
+  siret?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  registration?: string; // e.g. "RCS Paris" or "RM 75"
+
+  @IsOptional()
+  @Matches(/^[A-Z]{2}[0-9A-Z]{2,13}$/, {
+    message: 'vatNumber must be an intra-EU VAT number, e.g. FR12345678901',
+  })
+  vatNumber?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  vatMention?: string; // e.g. "TVA non applicable, art. 293 B du CGI"
+
+  @IsOptional()
+  @IsString()
+  bankName?: string;
+
+  @IsOptional()
+  @Matches(/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/, {
+    message:
+      'iban must be written without spaces, e.g. FR7630006000011234567890189',
+  })
+  iban?: string;
+
+  @IsOptional()
+  @Matches(/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/, {
+    message: 'bic must be 8 or 11 characters',
+  })
+  bic?: string;
+}
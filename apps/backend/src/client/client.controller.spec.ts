@@ -1,5 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ClientController } from './client.controller';
+import { ClientService } from './client.service';
+import { PrismaService } from '../prisma/prisma.service';
 
 describe('ClientController', () => {
   let controller: ClientController;
@@ -7,6 +9,10 @@ describe('ClientController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ClientController],
+      providers: [
+        { provide: ClientService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<ClientController>(ClientController);
@@ -13,39 +13,42 @@ import { ClientService } from './client.service';
 import { CreateClientDto } from './dto/create-client.dto';
 import { UpdateClientDto } from './dto/update-client.dto';
 import { GetUser } from '../auth/decorator/get-user.decorator';
-import { UserPayload } from '../auth/types/auth.types';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
 
 @Controller('clients')
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('clients')
 export class ClientController {
   constructor(private readonly clientService: ClientService) {}
 
   @Post()
-  create(@Body() dto: CreateClientDto, @GetUser() user: UserPayload) {
-    return this.clientService.create(user.sub, dto);
+  create(@Body() dto: CreateClientDto, @GetUser() user: WorkspaceUser) {
+    return this.clientService.create(user.wid, dto);
   }
 
   @Get()
-  findAll(@GetUser() user: UserPayload) {
-    return this.clientService.findAll(user.sub);
+  findAll(@GetUser() user: WorkspaceUser) {
+    return this.clientService.findAll(user.wid);
   }
 
   @Get(':id')
-  findOne(@Param('id') id: string, @GetUser() user: UserPayload) {
-    return this.clientService.findOne(user.sub, id);
+  findOne(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.clientService.findOne(user.wid, id);
   }
 
   @Patch(':id')
   update(
     @Param('id') id: string,
     @Body() dto: UpdateClientDto,
-    @GetUser() user: UserPayload,
+    @GetUser() user: WorkspaceUser,
   ) {
-    return this.clientService.update(user.sub, id, dto);
+    return this.clientService.update(user.wid, id, dto);
   }
 
   @Delete(':id')
-  remove(@Param('id') id: string, @GetUser() user: UserPayload) {
-    return this.clientService.remove(user.sub, id);
+  remove(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.clientService.remove(user.wid, id);
   }
 }
@@ -1,12 +1,18 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ClientService } from './client.service';
+import { PrismaService } from '../prisma/prisma.service';
 
 describe('ClientService', () => {
   let service: ClientService;
+  const prisma = {
+    client: { findFirst: jest.fn(), updateMany: jest.fn() },
+  };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ClientService],
+      providers: [ClientService, { provide: PrismaService, useValue: prisma }],
     }).compile();
 
     service = module.get<ClientService>(ClientService);
@@ -15,4 +21,20 @@ describe('ClientService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('scopes reads and writes to the workspace', async () => {
+    await service.findOne('workspace-1', 'client-1');
+    await service.update('workspace-1', 'client-1', {});
+
+    expect(prisma.client.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'client-1', workspaceId: 'workspace-1' },
+      }),
+    );
+    expect(prisma.client.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'client-1', workspaceId: 'workspace-1' },
+      }),
+    );
+  });
 });
@@ -7,41 +7,41 @@ import { UpdateClientDto } from './dto/update-client.dto';
 export class ClientService {
   constructor(private prisma: PrismaService) {}
 
-  create(userId: string, dto: CreateClientDto) {
+  create(workspaceId: string, dto: CreateClientDto) {
     return this.prisma.client.create({
       data: {
         ...dto,
-        userId,
+        workspaceId,
       },
     });
   }
 
-  findAll(userId: string) {
+  findAll(workspaceId: string) {
     return this.prisma.client.findMany({
-      where: { userId },
+      where: { workspaceId },
       orderBy: { createdAt: 'desc' },
     });
   }
 
-  findOne(userId: string, id: string) {
+  findOne(workspaceId: string, id: string) {
     return this.prisma.client.findFirst({
       where: {
         id,
-        userId,
+        workspaceId,
       },
     });
   }
 
-  update(userId: string, id: string, dto: UpdateClientDto) {
+  update(workspaceId: string, id: string, dto: UpdateClientDto) {
     return this.prisma.client.updateMany({
-      where: { id, userId },
+      where: { id, workspaceId },
       data: dto,
     });
   }
 
-  remove(userId: string, id: string) {
+  remove(workspaceId: string, id: string) {
     return this.prisma.client.deleteMany({
-      where: { id, userId },
+      where: { id, workspaceId },
     });
   }
 }
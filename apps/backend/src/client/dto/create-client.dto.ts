@@ -1,4 +1,12 @@
-import { IsString, IsOptional, IsEmail } from 'class-validator';
+import { Language, PaymentTerms } from '@prisma/client';
+import {
+  IsString,
+  IsOptional,
+  IsEmail,
+  IsEnum,
+  Length,
+  Matches,
+} from 'class-validator';
 
 export class CreateClientDto {
   @IsString()
@@ -19,4 +27,42 @@ export class CreateClientDto {
   @IsOptional()
   @IsString()
   notes?: string;
+
+  @IsOptional()
+  @IsEnum(PaymentTerms)
+  paymentTerms?: PaymentTerms;
+
+  @IsOptional()
+  @IsEnum(Language)
+  language?: Language; // of the documents sent to this client, defaults to FR
+
+  @IsOptional()
+  @IsString()
+  billingAddressLine1?: string;
+
+  @IsOptional()
+  @IsString()
+  billingAddressLine2?: string;
+
+  @IsOptional()
+  @IsString()
+  billingPostalCode?: string;
+
+  @IsOptional()
+  @IsString()
+  billingCity?: string;
+
+  @IsOptional()
+  @Length(2, 2)
+  billingCountry?: string; // ISO 3166-1 alpha-2
+
+  @IsOptional()
+  @Matches(/^\d{9}$/, { message: 'siren must be 9 digits' })
+  siren?: string;
+
+  @IsOptional()
+  @Matches(/^[A-Z]{2}[0-9A-Z]{2,13}$/, {
+    message: 'vatNumber must be an intra-EU VAT number, e.g. FR12345678901',
+  })
+  vatNumber?: string;
 }
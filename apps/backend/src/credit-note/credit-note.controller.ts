@@ -0,0 +1,51 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
+import { CreateCreditNoteDto } from './dto/create-credit-note.dto';
+import { CreditNoteService } from './credit-note.service';
+
+// Credit notes are legal documents: no update or delete routes on purpose
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('credit-notes')
+@Controller('credit-notes')
+export class CreditNoteController {
+  constructor(private readonly creditNoteService: CreditNoteService) {}
+
+  @Post()
+  create(@Body() dto: CreateCreditNoteDto, @GetUser() user: WorkspaceUser) {
+    return this.creditNoteService.create(user.wid, user.sub, dto);
+  }
+
+  @Get()
+  findAll(@GetUser() user: WorkspaceUser) {
+    return this.creditNoteService.findAll(user.wid);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.creditNoteService.findOne(user.wid, id);
+  }
+
+  @Get(':id/pdf')
+  async getPdf(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    const { fileName, file } = await this.creditNoteService.getPdf(
+      user.wid,
+      id,
+    );
+    return new StreamableFile(file, {
+      type: 'application/pdf',
+      disposition: `inline; filename="${fileName}"`,
+    });
+  }
+}
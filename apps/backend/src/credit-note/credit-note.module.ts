@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { CreditNoteController } from './credit-note.controller';
+import { CreditNoteService } from './credit-note.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PdfModule } from '../pdf/pdf.module';
+import { NumberingModule } from '../numbering/numbering.module';
+import { InvoiceModule } from '../invoice/invoice.module';
+import { BusinessProfileModule } from '../business-profile/business-profile.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    PdfModule,
+    NumberingModule,
+    InvoiceModule,
+    BusinessProfileModule,
+  ],
+  controllers: [CreditNoteController],
+  providers: [CreditNoteService],
+  exports: [CreditNoteService],
+})
+export class CreditNoteModule {}
@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { CreditNoteService } from './credit-note.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PdfService } from '../pdf/pdf.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+
+describe('CreditNoteService', () => {
+  let service: CreditNoteService;
+  const prisma = {
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn(),
+    invoice: { findFirst: jest.fn() },
+    workspace: { findUniqueOrThrow: jest.fn() },
+    creditNote: { create: jest.fn(), update: jest.fn() },
+  };
+  const numberingService = { next: jest.fn() };
+  const invoiceService = { transition: jest.fn() };
+  const pdfService = { generateCreditNote: jest.fn() };
+
+  const invoice = {
+    id: 'inv-1',
+    number: 'FA-2026-0001',
+    status: 'SENT',
+    amountTTC: 1200,
+    client: { name: 'Acme', language: 'EN' },
+    lines: [{ description: 'Dev', quantity: 2, unitPriceHT: 500, vatRate: 20 }],
+    creditNotes: [] as { amountTTC: number }[],
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    prisma.workspace.findUniqueOrThrow.mockResolvedValue({
+      creditNoteNumberPattern: 'AV-{YYYY}-{seq:4}',
+    });
+    prisma.creditNote.create.mockImplementation(
+      ({ data }: { data: Record<string, any> }) => ({
+        id: 'cn-1',
+        ...data,
+        lines: data.lines.create,
+        invoice,
+      }),
+    );
+    numberingService.next.mockResolvedValue('AV-2026-0001');
+    pdfService.generateCreditNote.mockResolvedValue('credit-notes/cn-1.pdf');
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CreditNoteService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PdfService, useValue: pdfService },
+        { provide: NumberingService, useValue: numberingService },
+        { provide: InvoiceService, useValue: invoiceService },
+        {
+          provide: BusinessProfileService,
+          useValue: { getDocumentContext: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CreditNoteService>(CreditNoteService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('credits the whole invoice and marks it CREDITED', async () => {
+    prisma.invoice.findFirst.mockResolvedValue(invoice);
+
+    const creditNote = await service.create('workspace-1', 'user-1', {
+      invoiceId: 'inv-1',
+    });
+
+    expect(creditNote).toMatchObject({
+      number: 'AV-2026-0001',
+      amountTTC: 1200,
+      pdfKey: 'credit-notes/cn-1.pdf',
+    });
+    expect(pdfService.generateCreditNote).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Credit note AV-2026-0001' }),
+    );
+    expect(invoiceService.transition).toHaveBeenCalledWith(
+      prisma,
+      'workspace-1',
+      'inv-1',
+      'CREDITED',
+      { actorId: 'user-1', note: 'Fully credited by AV-2026-0001' },
+    );
+  });
+
+  it('keeps the invoice status on a partial credit', async () => {
+    prisma.invoice.findFirst.mockResolvedValue(invoice);
+
+    await service.create('workspace-1', 'user-1', {
+      invoiceId: 'inv-1',
+      lines: [{ description: 'Discount', quantity: 1, unitPriceHT: 100 }],
+    });
+
+    expect(invoiceService.transition).not.toHaveBeenCalled();
+  });
+
+  it('refuses to credit more than what remains', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({
+      ...invoice,
+      creditNotes: [{ amountTTC: 1150 }],
+    });
+
+    await expect(
+      service.create('workspace-1', 'user-1', {
+        invoiceId: 'inv-1',
+        lines: [{ description: 'Refund', quantity: 1, unitPriceHT: 100 }],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.creditNote.create).not.toHaveBeenCalled();
+  });
+
+  it('asks for the lines of what remains once part is credited', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({
+      ...invoice,
+      creditNotes: [{ amountTTC: 200 }],
+    });
+
+    await expect(
+      service.create('workspace-1', 'user-1', { invoiceId: 'inv-1' }),
+    ).rejects.toThrow(
+      '200 has already been credited on this invoice: give the lines of the credit note for the 1000 that remains',
+    );
+    expect(prisma.creditNote.create).not.toHaveBeenCalled();
+  });
+
+  it('locks the invoice so two credit notes cannot exceed its amount', async () => {
+    // Transactions run one after the other, as the row lock makes them
+    const credited: { amountTTC: number }[] = [];
+    let queue: Promise<unknown> = Promise.resolve();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) =>
+        (queue = queue.then(
+          () => fn(prisma),
+          () => fn(prisma),
+        )),
+    );
+    prisma.invoice.findFirst.mockImplementation(() => ({
+      ...invoice,
+      creditNotes: [...credited],
+    }));
+    prisma.creditNote.create.mockImplementation(
+      ({ data }: { data: Record<string, any> }) => {
+        credited.push({ amountTTC: data.amountTTC as number });
+        return { id: 'cn-1', ...data, lines: data.lines.create, invoice };
+      },
+    );
+    const refund = {
+      invoiceId: 'inv-1',
+      lines: [{ description: 'Refund', quantity: 1, unitPriceHT: 700 }],
+    };
+
+    const results = await Promise.allSettled([
+      service.create('workspace-1', 'user-1', refund),
+      service.create('workspace-1', 'user-1', refund),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(prisma.$executeRaw).toHaveBeenCalledTimes(2);
+    expect(prisma.$executeRaw.mock.invocationCallOrder[1]).toBeLessThan(
+      prisma.invoice.findFirst.mock.invocationCallOrder[1],
+    );
+    expect(credited).toEqual([{ amountTTC: 840 }]);
+  });
+
+  it('marks the invoice CREDITED once fully covered', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({
+      ...invoice,
+      creditNotes: [{ amountTTC: 600 }],
+    });
+
+    await service.create('workspace-1', 'user-1', {
+      invoiceId: 'inv-1',
+      lines: [{ description: 'Rest', quantity: 1, unitPriceHT: 500 }],
+    });
+
+    expect(invoiceService.transition).toHaveBeenCalledWith(
+      prisma,
+      'workspace-1',
+      'inv-1',
+      'CREDITED',
+      expect.anything(),
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PdfService } from '../pdf/pdf.service';
+import { LABELS } from '../pdf/i18n/labels';
+import { toFileName } from '../pdf/utils/file-name.util';
+import { NumberingService } from '../numbering/numbering.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+import {
+  computeTotals,
+  roundAmount,
+  toLineRecords,
+} from '../invoice/utils/totals.util';
+import { CreateCreditNoteDto } from './dto/create-credit-note.dto';
+
+const CREDIT_NOTE_INCLUDE = {
+  lines: { orderBy: { position: 'asc' } },
+  invoice: {
+    select: { id: true, number: true, status: true, client: true },
+  },
+} as const;
+
+type CreditNoteWithRelations = Prisma.CreditNoteGetPayload<{
+  include: typeof CREDIT_NOTE_INCLUDE;
+}>;
+
+@Injectable()
+export class CreditNoteService {
+  constructor(
+    private prisma: PrismaService,
+    private pdfService: PdfService,
+    private numberingService: NumberingService,
+    private invoiceService: InvoiceService,
+    private businessProfileService: BusinessProfileService,
+  ) {}
+
+  // Credits an issued invoice, in full when no lines are given. The invoice
+  // becomes CREDITED once credit notes cover its whole amount.
+  async create(workspaceId: string, actorId: string, dto: CreateCreditNoteDto) {
+    const creditNote = await this.prisma.$transaction(async (tx) => {
+      // Row lock so concurrent credit notes cannot both pass the check of
+      // what remains to be credited
+      await tx.$executeRaw`SELECT 1 FROM "Invoice" WHERE "id" = ${dto.invoiceId} FOR UPDATE`;
+
+      const invoice = await tx.invoice.findFirst({
+        where: { id: dto.invoiceId, workspaceId },
+        include: {
+          lines: { orderBy: { position: 'asc' } },
+          creditNotes: { select: { amountTTC: true } },
+        },
+      });
+
+      if (!invoice) throw new NotFoundException('Invoice not found');
+      if (!['SENT', 'OVERDUE', 'PAID'].includes(invoice.status)) {
+        throw new BadRequestException(
+          `A ${invoice.status} invoice cannot be credited`,
+        );
+      }
+
+      const alreadyCredited = invoice.creditNotes.reduce(
+        (sum, note) => sum + note.amountTTC,
+        0,
+      );
+      // The invoice lines only make up what remains while nothing is credited
+      if (!dto.lines && alreadyCredited > 0) {
+        throw new BadRequestException(
+          `${roundAmount(alreadyCredited)} has already been credited on this invoice: give the lines of the credit note for the ${roundAmount(invoice.amountTTC - alreadyCredited)} that remains`,
+        );
+      }
+
+      const lines = dto.lines ?? invoice.lines;
+      const totals = computeTotals(lines);
+      const creditedAfter = roundAmount(alreadyCredited + totals.amountTTC);
+
+      if (creditedAfter > invoice.amountTTC) {
+        throw new BadRequestException(
+          `Only ${roundAmount(invoice.amountTTC - alreadyCredited)} remains to be credited on this invoice`,
+        );
+      }
+
+      const { creditNoteNumberPattern } = await tx.workspace.findUniqueOrThrow({
+        where: { id: workspaceId },
+        select: { creditNoteNumberPattern: true },
+      });
+      const number = await this.numberingService.next(
+        tx,
+        workspaceId,
+        'CREDIT_NOTE',
+        creditNoteNumberPattern,
+      );
+
+      const created = await tx.creditNote.create({
+        data: {
+          number,
+          reason: dto.reason,
+          invoiceId: invoice.id,
+          workspaceId,
+          amountHT: totals.amountHT,
+          amountTVA: totals.amountTVA,
+          amountTTC: totals.amountTTC,
+          lines: { create: toLineRecords(lines) },
+        },
+        include: CREDIT_NOTE_INCLUDE,
+      });
+
+      if (creditedAfter >= invoice.amountTTC) {
+        await this.invoiceService.transition(
+          tx,
+          workspaceId,
+          invoice.id,
+          'CREDITED',
+          { actorId, note: `Fully credited by ${number}` },
+        );
+      }
+
+      return created;
+    });
+
+    return this.renderPdf(workspaceId, creditNote);
+  }
+
+  findAll(workspaceId: string) {
+    return this.prisma.creditNote.findMany({
+      where: { workspaceId },
+      include: CREDIT_NOTE_INCLUDE,
+      orderBy: { issuedAt: 'desc' },
+    });
+  }
+
+  findOne(workspaceId: string, id: string) {
+    return this.prisma.creditNote.findFirst({
+      where: { id, workspaceId },
+      include: CREDIT_NOTE_INCLUDE,
+    });
+  }
+
+  // Stored PDF, generated first for credit notes that have none yet
+  async getPdf(workspaceId: string, id: string) {
+    const creditNote = await this.findOne(workspaceId, id);
+    if (!creditNote) throw new NotFoundException('Credit note not found');
+
+    const pdfKey =
+      creditNote.pdfKey ??
+      (await this.renderPdf(workspaceId, creditNote)).pdfKey;
+    return {
+      fileName: toFileName(creditNote.number, 'pdf'),
+      file: await this.pdfService.open(pdfKey),
+    };
+  }
+
+  private async renderPdf(
+    workspaceId: string,
+    creditNote: CreditNoteWithRelations,
+  ) {
+    const { vatBreakdown } = computeTotals(creditNote.lines);
+
+    const pdfKey = await this.pdfService.generateCreditNote({
+      id: creditNote.id,
+      number: creditNote.number,
+      ...(await this.businessProfileService.getDocumentContext(workspaceId)),
+      customer: creditNote.invoice.client,
+      title: `${LABELS[creditNote.invoice.client.language].headings.creditNote} ${creditNote.number}`,
+      invoiceNumber: creditNote.invoice.number,
+      reason: creditNote.reason,
+      lines: creditNote.lines,
+      vatBreakdown,
+      amountHT: creditNote.amountHT,
+      amountTVA: creditNote.amountTVA,
+      amountTTC: creditNote.amountTTC,
+    });
+
+    await this.prisma.creditNote.update({
+      where: { id: creditNote.id },
+      data: { pdfKey },
+    });
+
+    return { ...creditNote, vatBreakdown, pdfKey };
+  }
+}
@@ -0,0 +1,28 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { LineItemDto } from '../../invoice/dto/line-item.dto';
+
+export class CreateCreditNoteDto {
+  @IsString()
+  invoiceId: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+
+  // Omit to credit the whole invoice, while nothing of it is credited yet
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => LineItemDto)
+  lines?: LineItemDto[];
+}
@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DocumentMailController } from './document-mail.controller';
+import { DocumentMailService } from './document-mail.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('DocumentMailController', () => {
+  let controller: DocumentMailController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [DocumentMailController],
+      providers: [
+        { provide: DocumentMailService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<DocumentMailController>(DocumentMailController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
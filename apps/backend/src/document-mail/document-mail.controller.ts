@@ -0,0 +1,36 @@
+import { Body, Controller, Param, Post, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
+import { DocumentMailService } from './document-mail.service';
+import { SendDocumentEmailDto } from './dto/send-document-email.dto';
+
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@Controller()
+export class DocumentMailController {
+  constructor(private readonly documentMailService: DocumentMailService) {}
+
+  // Drafts are issued first, then emailed. A failed delivery is logged in the
+  // document's emails, and posting again resends it.
+  @ApiScope('invoices')
+  @Post('invoices/:id/email')
+  sendInvoice(
+    @Param('id') id: string,
+    @Body() dto: SendDocumentEmailDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.documentMailService.sendInvoice(user.wid, user.sub, id, dto);
+  }
+
+  @ApiScope('quotes')
+  @Post('quotes/:id/email')
+  sendQuote(
+    @Param('id') id: string,
+    @Body() dto: SendDocumentEmailDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.documentMailService.sendQuote(user.wid, id, dto);
+  }
+}
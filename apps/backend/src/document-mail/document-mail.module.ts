@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { DocumentMailController } from './document-mail.controller';
+import { DocumentMailService } from './document-mail.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { MailModule } from '../mail/mail.module';
+import { PdfModule } from '../pdf/pdf.module';
+import { InvoiceModule } from '../invoice/invoice.module';
+import { QuoteModule } from '../quote/quote.module';
+import { BusinessProfileModule } from '../business-profile/business-profile.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    MailModule,
+    PdfModule,
+    InvoiceModule,
+    QuoteModule,
+    BusinessProfileModule,
+  ],
+  controllers: [DocumentMailController],
+  providers: [DocumentMailService],
+})
+export class DocumentMailModule {}
@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadGatewayException, BadRequestException } from '@nestjs/common';
+import { DocumentMailService } from './document-mail.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { PdfService } from '../pdf/pdf.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { QuoteService } from '../quote/quote.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+
+describe('DocumentMailService', () => {
+  let service: DocumentMailService;
+  const prisma = { documentEmail: { create: jest.fn() } };
+  const businessProfileService = { getMailSender: jest.fn() };
+  const mailService = { send: jest.fn() };
+  const pdfService = { open: jest.fn() };
+  const invoiceService = {
+    findOne: jest.fn(),
+    getPdf: jest.fn(),
+    send: jest.fn(),
+  };
+  const quoteService = {
+    findOne: jest.fn(),
+    getPdf: jest.fn(),
+    send: jest.fn(),
+  };
+
+  const client = {
+    id: 'client-1',
+    name: 'John Smith',
+    email: 'john@acme.test',
+    language: 'EN',
+  };
+  const draft = {
+    id: 'inv-1',
+    status: 'DRAFT',
+    number: null,
+    amountTTC: 1200,
+    dueDate: null,
+    client,
+  };
+  const issued = {
+    ...draft,
+    status: 'SENT',
+    number: 'FA-2026-0001',
+    dueDate: new Date('2026-11-18'),
+    pdfKey: 'invoices/inv-1/v2.pdf',
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    businessProfileService.getMailSender.mockResolvedValue({
+      name: 'Doe & Co',
+      replyTo: 'billing@doe.test',
+    });
+    prisma.documentEmail.create.mockImplementation(
+      ({ data }: { data: object }) => ({ id: 'email-1', ...data }),
+    );
+    pdfService.open.mockResolvedValue('stream');
+    invoiceService.send.mockResolvedValue(issued);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentMailService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MailService, useValue: mailService },
+        { provide: PdfService, useValue: pdfService },
+        { provide: InvoiceService, useValue: invoiceService },
+        { provide: QuoteService, useValue: quoteService },
+        {
+          provide: BusinessProfileService,
+          useValue: businessProfileService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DocumentMailService>(DocumentMailService);
+  });
+
+  it('issues a draft, then emails it and logs the delivery', async () => {
+    invoiceService.findOne.mockResolvedValue(draft);
+    mailService.send.mockResolvedValue('<message-1@smtp>');
+
+    const email = await service.sendInvoice('workspace-1', 'user-1', 'inv-1', {
+      cc: ['accounting@acme.test'],
+    });
+
+    expect(invoiceService.send).toHaveBeenCalledWith(
+      'workspace-1',
+      'user-1',
+      'inv-1',
+    );
+    // Outside the issuing transaction, once it committed
+    expect(invoiceService.send.mock.invocationCallOrder[0]).toBeLessThan(
+      mailService.send.mock.invocationCallOrder[0],
+    );
+    expect(pdfService.open).toHaveBeenCalledWith('invoices/inv-1/v2.pdf');
+    expect(mailService.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        senderName: 'Doe & Co',
+        replyTo: 'billing@doe.test',
+        to: ['john@acme.test'],
+        cc: ['accounting@acme.test'],
+        bcc: [],
+        subject: 'Invoice FA-2026-0001 - Doe & Co',
+        attachments: [
+          {
+            filename: 'FA-2026-0001.pdf',
+            content: 'stream',
+            contentType: 'application/pdf',
+          },
+        ],
+      }),
+    );
+    expect(email).toMatchObject({
+      invoiceId: 'inv-1',
+      status: 'SENT',
+      messageId: '<message-1@smtp>',
+    });
+  });
+
+  it('logs a failed delivery and keeps the invoice issued', async () => {
+    invoiceService.findOne.mockResolvedValue(draft);
+    mailService.send.mockRejectedValue(new Error('Connection refused'));
+
+    await expect(
+      service.sendInvoice('workspace-1', 'user-1', 'inv-1', {}),
+    ).rejects.toBeInstanceOf(BadGatewayException);
+    expect(invoiceService.send).toHaveBeenCalledTimes(1);
+    expect(prisma.documentEmail.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        invoiceId: 'inv-1',
+        status: 'FAILED',
+        error: 'Connection refused',
+      }),
+    });
+  });
+
+  it('sends issued invoices again without issuing them', async () => {
+    invoiceService.findOne.mockResolvedValue(issued);
+    invoiceService.getPdf.mockResolvedValue({ file: 'stored' });
+    mailService.send.mockResolvedValue('<message-2@smtp>');
+
+    await service.sendInvoice('workspace-1', 'user-1', 'inv-1', {
+      to: ['other@acme.test'],
+      subject: 'Reminder',
+    });
+
+    expect(invoiceService.send).not.toHaveBeenCalled();
+    expect(mailService.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: ['other@acme.test'], subject: 'Reminder' }),
+    );
+  });
+
+  it('needs a recipient when the client has no email', async () => {
+    invoiceService.findOne.mockResolvedValue({
+      ...draft,
+      client: { ...client, email: null },
+    });
+
+    await expect(
+      service.sendInvoice('workspace-1', 'user-1', 'inv-1', {}),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(mailService.send).not.toHaveBeenCalled();
+  });
+
+  it('refuses cancelled invoices', async () => {
+    invoiceService.findOne.mockResolvedValue({ ...draft, status: 'CANCELLED' });
+
+    await expect(
+      service.sendInvoice('workspace-1', 'user-1', 'inv-1', {}),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('sends a quote with its validity date', async () => {
+    quoteService.findOne.mockResolvedValue({
+      id: 'quote-1',
+      status: 'SENT',
+      number: 'DE-2026-0001',
+      amountTTC: 600,
+      validUntil: new Date('2026-11-18'),
+      client,
+    });
+    quoteService.getPdf.mockResolvedValue({ file: 'stored' });
+    mailService.send.mockResolvedValue('<message-3@smtp>');
+
+    const email = await service.sendQuote('workspace-1', 'quote-1', {});
+
+    const [{ text }] = mailService.send.mock.calls[0] as [{ text: string }];
+    expect(text).toContain('valid until 18 November 2026');
+    expect(email).toMatchObject({ quoteId: 'quote-1', status: 'SENT' });
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Client, InvoiceStatus, QuoteStatus } from '@prisma/client';
+import { Readable } from 'stream';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { PdfService } from '../pdf/pdf.service';
+import { toFileName } from '../pdf/utils/file-name.util';
+import { InvoiceService } from '../invoice/invoice.service';
+import { QuoteService } from '../quote/quote.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+import {
+  DocumentEmailData,
+  renderDocumentEmail,
+} from '../mail/templates/document-email.template';
+import { SendDocumentEmailDto } from './dto/send-document-email.dto';
+
+const EMAILABLE_INVOICE_STATUSES: InvoiceStatus[] = [
+  'DRAFT',
+  'SENT',
+  'OVERDUE',
+  'PAID',
+];
+const EMAILABLE_QUOTE_STATUSES: QuoteStatus[] = ['DRAFT', 'SENT', 'ACCEPTED'];
+
+type EmailTarget = { invoiceId: string } | { quoteId: string };
+
+interface Recipients {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+}
+
+interface Delivery {
+  target: EmailTarget;
+  recipients: Recipients;
+  client: Client;
+  email: Omit<DocumentEmailData, 'senderName' | 'customerName' | 'message'>;
+  file: Readable;
+}
+
+function getRecipients(
+  dto: SendDocumentEmailDto,
+  client: { email: string | null },
+): Recipients {
+  const to = dto.to ?? (client.email ? [client.email] : []);
+  if (to.length === 0) {
+    throw new BadRequestException(
+      'The client has no email address, give the recipients',
+    );
+  }
+  return { to, cc: dto.cc ?? [], bcc: dto.bcc ?? [] };
+}
+
+@Injectable()
+export class DocumentMailService {
+  constructor(
+    private prisma: PrismaService,
+    private mailService: MailService,
+    private pdfService: PdfService,
+    private invoiceService: InvoiceService,
+    private quoteService: QuoteService,
+    private businessProfileService: BusinessProfileService,
+  ) {}
+
+  // Emails the PDF to the client. A draft is issued first, and stays issued
+  // if the email then fails: the attempt is logged and it can be sent again.
+  // Issued invoices are sent again as they are.
+  async sendInvoice(
+    workspaceId: string,
+    actorId: string,
+    id: string,
+    dto: SendDocumentEmailDto,
+  ) {
+    const invoice = await this.invoiceService.findOne(workspaceId, id);
+    if (!invoice) throw new NotFoundException('Invoice not found');
+    if (!EMAILABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      throw new BadRequestException(
+        `${invoice.status} invoices cannot be emailed`,
+      );
+    }
+
+    const target = { invoiceId: id };
+    const recipients = getRecipients(dto, invoice.client);
+    if (invoice.status !== 'DRAFT') {
+      const { file } = await this.invoiceService.getPdf(workspaceId, id);
+      return this.deliver(workspaceId, dto, {
+        target,
+        recipients,
+        client: invoice.client,
+        email: {
+          kind: 'invoice',
+          number: invoice.number ?? '',
+          amountTTC: invoice.amountTTC,
+          deadline: invoice.dueDate,
+        },
+        file,
+      });
+    }
+
+    const issued = await this.invoiceService.send(workspaceId, actorId, id);
+    return this.deliver(workspaceId, dto, {
+      target,
+      recipients,
+      client: issued.client,
+      email: {
+        kind: 'invoice',
+        number: issued.number ?? '',
+        amountTTC: issued.amountTTC,
+        deadline: issued.dueDate,
+      },
+      file: await this.pdfService.open(issued.pdfKey),
+    });
+  }
+
+  async sendQuote(workspaceId: string, id: string, dto: SendDocumentEmailDto) {
+    const quote = await this.quoteService.findOne(workspaceId, id);
+    if (!quote) throw new NotFoundException('Quote not found');
+    if (!EMAILABLE_QUOTE_STATUSES.includes(quote.status)) {
+      throw new BadRequestException(`${quote.status} quotes cannot be emailed`);
+    }
+
+    const target = { quoteId: id };
+    const recipients = getRecipients(dto, quote.client);
+    if (quote.status !== 'DRAFT') {
+      const { file } = await this.quoteService.getPdf(workspaceId, id);
+      return this.deliver(workspaceId, dto, {
+        target,
+        recipients,
+        client: quote.client,
+        email: {
+          kind: 'quote',
+          number: quote.number ?? '',
+          amountTTC: quote.amountTTC,
+          deadline: quote.validUntil,
+        },
+        file,
+      });
+    }
+
+    const sent = await this.quoteService.send(workspaceId, id);
+    return this.deliver(workspaceId, dto, {
+      target,
+      recipients,
+      client: sent.client,
+      email: {
+        kind: 'quote',
+        number: sent.number ?? '',
+        amountTTC: sent.amountTTC,
+        deadline: sent.validUntil,
+      },
+      file: await this.pdfService.open(sent.pdfKey),
+    });
+  }
+
+  // Sends the email and records the attempt, failed ones included, in the
+  // send log of the document
+  private async deliver(
+    workspaceId: string,
+    dto: SendDocumentEmailDto,
+    delivery: Delivery,
+  ) {
+    const sender = await this.businessProfileService.getMailSender(workspaceId);
+    const { subject, text, html } = renderDocumentEmail(
+      {
+        ...delivery.email,
+        senderName: sender.name,
+        customerName: delivery.client.name,
+        message: dto.message,
+      },
+      delivery.client.language,
+    );
+    const { recipients } = delivery;
+    const log = {
+      ...delivery.target,
+      ...recipients,
+      subject: dto.subject ?? subject,
+    };
+
+    let messageId: string;
+    try {
+      messageId = await this.mailService.send({
+        senderName: sender.name,
+        replyTo: sender.replyTo,
+        ...recipients,
+        subject: log.subject,
+        text,
+        html,
+        attachments: [
+          {
+            filename: toFileName(delivery.email.number, 'pdf'),
+            content: delivery.file,
+            contentType: 'application/pdf',
+          },
+        ],
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await this.prisma.documentEmail.create({
+        data: { ...log, status: 'FAILED', error: reason },
+      });
+      throw new BadGatewayException(`The email could not be sent: ${reason}`);
+    }
+
+    return this.prisma.documentEmail.create({
+      data: { ...log, status: 'SENT', messageId },
+    });
+  }
+}
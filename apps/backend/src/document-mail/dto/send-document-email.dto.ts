@@ -0,0 +1,45 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEmail,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+const MAX_RECIPIENTS = 10;
+
+export class SendDocumentEmailDto {
+  // Defaults to the client's email address
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_RECIPIENTS)
+  @IsEmail({}, { each: true })
+  to?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_RECIPIENTS)
+  @IsEmail({}, { each: true })
+  cc?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_RECIPIENTS)
+  @IsEmail({}, { each: true })
+  bcc?: string[];
+
+  // Replaces the subject of the template
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  subject?: string;
+
+  // Added to the body of the template
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  message?: string;
+}
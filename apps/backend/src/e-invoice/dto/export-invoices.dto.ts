@@ -0,0 +1,10 @@
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsString } from 'class-validator';
+import { MAX_BULK_EXPORT } from '../e-invoice.service';
+
+export class ExportInvoicesDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BULK_EXPORT)
+  @IsString({ each: true })
+  invoiceIds: string[];
+}
@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
+import { EInvoiceService } from './e-invoice.service';
+import { ExportInvoicesDto } from './dto/export-invoices.dto';
+import { toFileName } from '../pdf/utils/file-name.util';
+
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('invoices')
+@Controller('invoices')
+export class EInvoiceController {
+  constructor(private readonly eInvoiceService: EInvoiceService) {}
+
+  @Get(':id/factur-x')
+  async getPdf(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    const { number, pdf } = await this.eInvoiceService.getFacturXPdf(
+      user.wid,
+      id,
+    );
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${toFileName(number, 'pdf')}"`,
+    });
+  }
+
+  @Get(':id/factur-x.xml')
+  async getXml(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    const { number, xml } = await this.eInvoiceService.getFacturXXml(
+      user.wid,
+      id,
+    );
+    return new StreamableFile(Buffer.from(xml, 'utf-8'), {
+      type: 'application/xml',
+      disposition: `attachment; filename="${toFileName(number, 'xml')}"`,
+    });
+  }
+
+  // Peppol BIS 3.0 UBL; a 400 lists the rules the data breaks
+  @Get(':id/ubl.xml')
+  async getUbl(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    const { number, xml } = await this.eInvoiceService.getUblXml(user.wid, id);
+    return new StreamableFile(Buffer.from(xml, 'utf-8'), {
+      type: 'application/xml',
+      disposition: `attachment; filename="${toFileName(number, 'xml')}"`,
+    });
+  }
+
+  @Post('export/ubl')
+  async exportUbl(
+    @Body() dto: ExportInvoicesDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    const archive = await this.eInvoiceService.getUblArchive(
+      user.wid,
+      dto.invoiceIds,
+    );
+    return new StreamableFile(archive, {
+      type: 'application/zip',
+      disposition: 'attachment; filename="invoices-ubl.zip"',
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { EInvoiceController } from './e-invoice.controller';
+import { EInvoiceService } from './e-invoice.service';
+import { InvoiceModule } from '../invoice/invoice.module';
+import { PdfModule } from '../pdf/pdf.module';
+import { BusinessProfileModule } from '../business-profile/business-profile.module';
+
+@Module({
+  imports: [InvoiceModule, PdfModule, BusinessProfileModule],
+  controllers: [EInvoiceController],
+  providers: [EInvoiceService],
+})
+export class EInvoiceModule {}
@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EInvoiceService } from './e-invoice.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+import { PdfService } from '../pdf/pdf.service';
+import { strFromU8, unzipSync } from 'fflate';
+
+describe('EInvoiceService', () => {
+  let service: EInvoiceService;
+  const invoiceService = { findOne: jest.fn() };
+  const businessProfileService = { assertCanIssue: jest.fn() };
+  const pdfService = { renderFacturX: jest.fn() };
+
+  const seller = {
+    legalName: 'Jane Doe',
+    addressLine1: '1 rue de la Paix',
+    postalCode: '75002',
+    city: 'Paris',
+    country: 'FR',
+    siren: '123456789',
+    vatNumber: 'FR12123456789',
+    vatMention: 'TVA non applicable, art. 293 B du CGI',
+  };
+
+  const invoice = {
+    id: 'inv-1',
+    number: 'FA-2026-0001',
+    status: 'SENT',
+    issuedAt: new Date('2026-10-19T10:00:00Z'),
+    dueDate: new Date('2026-11-18T10:00:00Z'),
+    paymentTerms: 'NET_30',
+    latePenaltyRate: 10,
+    title: 'Website',
+    client: {
+      name: 'Acme',
+      language: 'FR',
+      billingAddressLine1: '10 avenue des Champs',
+      billingPostalCode: '69001',
+      billingCity: 'Lyon',
+      billingCountry: 'FR',
+      siren: '987654321',
+      vatNumber: 'FR32987654321',
+    },
+    lines: [
+      {
+        description: 'Development',
+        quantity: 2,
+        unitPriceHT: 500,
+        vatRate: 0,
+        discount: 0,
+        totalHT: 1000,
+      },
+    ],
+    vatBreakdown: [{ rate: 0, baseHT: 1000, amountTVA: 0 }],
+    amountHT: 1000,
+    amountTVA: 0,
+    amountTTC: 1000,
+    amountPaid: 0,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EInvoiceService,
+        { provide: InvoiceService, useValue: invoiceService },
+        { provide: BusinessProfileService, useValue: businessProfileService },
+        { provide: PdfService, useValue: pdfService },
+      ],
+    }).compile();
+
+    service = module.get<EInvoiceService>(EInvoiceService);
+    businessProfileService.assertCanIssue.mockResolvedValue({
+      seller,
+      branding: { template: 'CLASSIC', accentColor: '#1f2937' },
+    });
+  });
+
+  it('builds the XML of an issued invoice', async () => {
+    invoiceService.findOne.mockResolvedValue(invoice);
+
+    const { number, xml } = await service.getFacturXXml('workspace-1', 'inv-1');
+
+    expect(number).toBe('FA-2026-0001');
+    expect(xml).toContain('<ram:ID>FA-2026-0001</ram:ID>');
+    expect(xml).toContain('<ram:Name>Acme</ram:Name>');
+  });
+
+  it('embeds the same XML in the PDF', async () => {
+    invoiceService.findOne.mockResolvedValue(invoice);
+    pdfService.renderFacturX.mockResolvedValue(Buffer.from('%PDF-'));
+
+    const { pdf } = await service.getFacturXPdf('workspace-1', 'inv-1');
+
+    expect(pdf.toString()).toBe('%PDF-');
+    expect(pdfService.renderFacturX).toHaveBeenCalledWith(
+      expect.objectContaining({ number: 'FA-2026-0001', seller }),
+      expect.stringContaining('<rsm:CrossIndustryInvoice'),
+      'EN 16931',
+    );
+  });
+
+  it('rejects drafts, which have no legal number yet', async () => {
+    invoiceService.findOne.mockResolvedValue({
+      ...invoice,
+      status: 'DRAFT',
+      number: null,
+      issuedAt: null,
+    });
+
+    await expect(service.getFacturXXml('workspace-1', 'inv-1')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('throws when the invoice does not exist', async () => {
+    invoiceService.findOne.mockResolvedValue(null);
+
+    await expect(service.getFacturXPdf('workspace-1', 'inv-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  describe('UBL', () => {
+    it('builds the Peppol document of a valid invoice', async () => {
+      invoiceService.findOne.mockResolvedValue(invoice);
+
+      const { xml } = await service.getUblXml('workspace-1', 'inv-1');
+
+      expect(xml).toContain('<cbc:ID>FA-2026-0001</cbc:ID>');
+    });
+
+    it('lists the broken rules', async () => {
+      invoiceService.findOne.mockResolvedValue({
+        ...invoice,
+        client: { ...invoice.client, vatNumber: null, siren: null },
+      });
+
+      const error = await service
+        .getUblXml('workspace-1', 'inv-1')
+        .catch((e: BadRequestException) => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toEqual({
+        message: 'Invoice FA-2026-0001 cannot be exported to Peppol BIS 3.0',
+        errors: [
+          expect.objectContaining({
+            rule: 'PEPPOL-EN16931-R010',
+            field: 'client.vatNumber',
+          }),
+        ],
+      });
+    });
+
+    it('zips one file per invoice', async () => {
+      invoiceService.findOne.mockImplementation((workspaceId, id) => ({
+        ...invoice,
+        id,
+        number: `FA/${id}`,
+      }));
+
+      const archive = await service.getUblArchive('workspace-1', [
+        'inv-1',
+        'inv-2',
+        'inv-1',
+      ]);
+
+      const files = unzipSync(archive);
+      expect(Object.keys(files)).toEqual(['FA_inv-1.xml', 'FA_inv-2.xml']);
+      expect(strFromU8(files['FA_inv-2.xml'])).toContain('FA/inv-2');
+      expect(businessProfileService.assertCanIssue).toHaveBeenCalledTimes(1);
+    });
+
+    it('exports nothing when one invoice is invalid', async () => {
+      invoiceService.findOne.mockImplementation((workspaceId, id) => ({
+        ...invoice,
+        id,
+        number: id,
+        dueDate: id === 'inv-2' ? null : invoice.dueDate,
+        paymentTerms: id === 'inv-2' ? null : invoice.paymentTerms,
+      }));
+
+      const error = await service
+        .getUblArchive('workspace-1', ['inv-1', 'inv-2'])
+        .catch((e: BadRequestException) => e);
+
+      expect((error as BadRequestException).getResponse()).toEqual({
+        message: '1 invoice(s) cannot be exported to Peppol BIS 3.0',
+        invoices: [
+          {
+            id: 'inv-2',
+            number: 'inv-2',
+            errors: [expect.objectContaining({ rule: 'BR-CO-25' })],
+          },
+        ],
+      });
+    });
+  });
+});
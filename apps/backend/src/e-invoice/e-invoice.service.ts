@@ -0,0 +1,130 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { BusinessProfile } from '@prisma/client';
+import { strToU8, zipSync } from 'fflate';
+import { InvoiceService } from '../invoice/invoice.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+import { PdfService } from '../pdf/pdf.service';
+import { DocumentContext } from '../pdf/types/pdf.types';
+import { EInvoiceData } from './types/e-invoice.types';
+import { buildCiiXml, EN16931_CONFORMANCE_LEVEL } from './utils/cii.util';
+import { buildUblXml } from './utils/ubl.util';
+import { checkPeppolRules } from './utils/peppol.util';
+import { toFileName } from '../pdf/utils/file-name.util';
+
+// Bulk exports are built in memory
+export const MAX_BULK_EXPORT = 100;
+
+@Injectable()
+export class EInvoiceService {
+  constructor(
+    private invoiceService: InvoiceService,
+    private businessProfileService: BusinessProfileService,
+    private pdfService: PdfService,
+  ) {}
+
+  // Standalone CII XML, for platforms that only take the structured data
+  async getFacturXXml(workspaceId: string, id: string) {
+    const invoice = await this.load(workspaceId, id);
+    return { number: invoice.number, xml: buildCiiXml(invoice) };
+  }
+
+  // Readable PDF/A-3 with the same XML embedded
+  async getFacturXPdf(workspaceId: string, id: string) {
+    const invoice = await this.load(workspaceId, id);
+    const pdf = await this.pdfService.renderFacturX(
+      invoice,
+      buildCiiXml(invoice),
+      EN16931_CONFORMANCE_LEVEL,
+    );
+    return { number: invoice.number, pdf };
+  }
+
+  // Peppol BIS Billing 3.0 UBL, refused with the broken rules when the
+  // invoice, the client or the business profile lack required data
+  async getUblXml(workspaceId: string, id: string) {
+    const invoice = await this.load(workspaceId, id);
+
+    const errors = checkPeppolRules(invoice);
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: `Invoice ${invoice.number} cannot be exported to Peppol BIS 3.0`,
+        errors,
+      });
+    }
+
+    return { number: invoice.number, xml: buildUblXml(invoice) };
+  }
+
+  // Zip of one UBL file per invoice; nothing is exported unless all are valid
+  async getUblArchive(workspaceId: string, ids: string[]) {
+    const context =
+      await this.businessProfileService.assertCanIssue(workspaceId);
+    const invoices = await Promise.all(
+      [...new Set(ids)].map((id) => this.load(workspaceId, id, context)),
+    );
+
+    const invalid = invoices
+      .map((invoice) => ({
+        id: invoice.id,
+        number: invoice.number,
+        errors: checkPeppolRules(invoice),
+      }))
+      .filter((result) => result.errors.length > 0);
+    if (invalid.length > 0) {
+      throw new BadRequestException({
+        message: `${invalid.length} invoice(s) cannot be exported to Peppol BIS 3.0`,
+        invoices: invalid,
+      });
+    }
+
+    return zipSync(
+      Object.fromEntries(
+        invoices.map((invoice) => [
+          toFileName(invoice.number, 'xml'),
+          strToU8(buildUblXml(invoice)),
+        ]),
+      ),
+    );
+  }
+
+  private async load(
+    workspaceId: string,
+    id: string,
+    context?: DocumentContext & { seller: BusinessProfile },
+  ): Promise<EInvoiceData> {
+    const invoice = await this.invoiceService.findOne(workspaceId, id);
+    if (!invoice) throw new NotFoundException('Invoice not found');
+    if (!invoice.number || !invoice.issuedAt) {
+      throw new BadRequestException(
+        `Invoice ${id} is not issued, e-invoices are only available once it is`,
+      );
+    }
+
+    const { seller, branding } =
+      context ??
+      (await this.businessProfileService.assertCanIssue(workspaceId));
+
+    return {
+      id: invoice.id,
+      number: invoice.number,
+      issuedAt: invoice.issuedAt,
+      dueDate: invoice.dueDate,
+      paymentTerms: invoice.paymentTerms,
+      latePenaltyRate: invoice.latePenaltyRate,
+      seller,
+      branding,
+      customer: invoice.client,
+      title: invoice.title,
+      lines: invoice.lines,
+      vatBreakdown: invoice.vatBreakdown,
+      amountHT: invoice.amountHT,
+      amountTVA: invoice.amountTVA,
+      amountTTC: invoice.amountTTC,
+      amountPaid: invoice.amountPaid,
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { BusinessProfile, Client } from '@prisma/client';
+import { InvoiceData } from '../../pdf/types/pdf.types';
+
+// An issued invoice with everything an e-invoice must carry
+export interface EInvoiceData extends InvoiceData {
+  number: string;
+  issuedAt: Date;
+  seller: BusinessProfile;
+  customer: Client;
+  amountPaid: number;
+}
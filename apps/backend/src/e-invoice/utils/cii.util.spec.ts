@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateXML } from 'xmllint-wasm';
+import { BusinessProfile, Client } from '@prisma/client';
+import { EInvoiceData } from '../types/e-invoice.types';
+import { buildCiiXml, EN16931_GUIDELINE } from './cii.util';
+
+const SCHEMA_DIR = path.join(__dirname, '../schemas/factur-x');
+const SCHEMA = 'Factur-X_1.07.3_EN16931.xsd';
+
+// The main schema imports the others by file name
+function validate(xml: string) {
+  const [schema, ...preload] = [
+    SCHEMA,
+    ...fs.readdirSync(SCHEMA_DIR).filter((file) => file !== SCHEMA),
+  ].map((fileName) => ({
+    fileName,
+    contents: fs.readFileSync(path.join(SCHEMA_DIR, fileName), 'utf-8'),
+  }));
+
+  return validateXML({
+    xml: [{ fileName: 'factur-x.xml', contents: xml }],
+    schema,
+    preload,
+  });
+}
+
+describe('buildCiiXml', () => {
+  const seller: BusinessProfile = {
+    id: 'bp-1',
+    workspaceId: 'workspace-1',
+    legalName: 'Jane Doe',
+    tradeName: 'Doe & Co',
+    legalForm: 'EI',
+    addressLine1: '1 rue de la Paix',
+    addressLine2: null,
+    postalCode: '75002',
+    city: 'Paris',
+    country: 'FR',
+    email: 'jane@example.com',
+    phone: null,
+    siren: '123456789',
+    siret: '12345678900012',
+    registration: null,
+    vatNumber: 'FR12123456789',
+    vatMention: null,
+    bankName: 'Banque',
+    iban: 'FR76 3000 6000 0112 3456 7890 189',
+    bic: 'AGRIFRPP',
+    logo: null,
+    logoMimeType: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const customer: Client = {
+    id: 'client-1',
+    name: 'John Smith',
+    email: 'john@acme.test',
+    phone: null,
+    company: 'Acme <SAS>',
+    notes: null,
+    paymentTerms: 'NET_30',
+    language: 'FR',
+    remindersPaused: false,
+    reminderSequenceId: null,
+    billingAddressLine1: '10 avenue des Champs',
+    billingAddressLine2: null,
+    billingPostalCode: '69001',
+    billingCity: 'Lyon',
+    billingCountry: null,
+    siren: '987654321',
+    vatNumber: null,
+    workspaceId: 'workspace-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const invoice: EInvoiceData = {
+    id: 'inv-1',
+    number: 'FA-2026-0001',
+    issuedAt: new Date('2026-10-19T10:00:00Z'),
+    dueDate: new Date('2026-11-18T10:00:00Z'),
+    paymentTerms: 'NET_30',
+    latePenaltyRate: 10,
+    title: 'Website',
+    lines: [
+      {
+        description: 'Development',
+        quantity: 2,
+        unit: 'jour',
+        unitPriceHT: 500,
+        vatRate: 20,
+        discount: 0,
+        totalHT: 1000,
+      },
+      {
+        description: 'Hosting',
+        quantity: 1,
+        unitPriceHT: 100,
+        vatRate: 20,
+        discount: 10,
+        totalHT: 90,
+      },
+    ],
+    vatBreakdown: [{ rate: 20, baseHT: 1090, amountTVA: 218 }],
+    amountHT: 1090,
+    amountTVA: 218,
+    amountTTC: 1308,
+    amountPaid: 300,
+    seller,
+    customer,
+  };
+
+  it('produces XML valid against the Factur-X EN 16931 schema', async () => {
+    const result = await validate(buildCiiXml(invoice));
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('carries the profile, identifiers and amounts', () => {
+    const xml = buildCiiXml(invoice);
+
+    expect(xml).toContain(`<ram:ID>${EN16931_GUIDELINE}</ram:ID>`);
+    expect(xml).toContain('<ram:ID>FA-2026-0001</ram:ID>');
+    expect(xml).toContain(
+      '<udt:DateTimeString format="102">20261019</udt:DateTimeString>',
+    );
+    expect(xml).toContain('<ram:ID schemeID="0002">123456789</ram:ID>');
+    expect(xml).toContain('<ram:ID schemeID="VA">FR12123456789</ram:ID>');
+    expect(xml).toContain(
+      '<ram:IBANID>FR7630006000011234567890189</ram:IBANID>',
+    );
+    expect(xml).toContain(
+      '<ram:BilledQuantity unitCode="DAY">2</ram:BilledQuantity>',
+    );
+    expect(xml).toContain('<ram:Name>Acme &lt;SAS&gt;</ram:Name>');
+    expect(xml).toContain(
+      '<ram:TotalPrepaidAmount>300.00</ram:TotalPrepaidAmount>',
+    );
+    expect(xml).toContain(
+      '<ram:DuePayableAmount>1008.00</ram:DuePayableAmount>',
+    );
+  });
+
+  it('prices discounted lines net of the discount', () => {
+    const xml = buildCiiXml(invoice);
+
+    expect(xml).toMatch(
+      /<ram:GrossPriceProductTradePrice>\s*<ram:ChargeAmount>100<\/ram:ChargeAmount>[\s\S]*<ram:ActualAmount>10<\/ram:ActualAmount>/,
+    );
+    expect(xml).toMatch(
+      /<ram:NetPriceProductTradePrice>\s*<ram:ChargeAmount>90<\/ram:ChargeAmount>/,
+    );
+  });
+
+  it('marks VAT-free invoices as exempt with the seller mention', async () => {
+    const mention = 'TVA non applicable, art. 293 B du CGI';
+    const xml = buildCiiXml({
+      ...invoice,
+      seller: { ...seller, vatNumber: null, vatMention: mention, iban: null },
+      lines: invoice.lines.map((line) => ({ ...line, vatRate: 0 })),
+      vatBreakdown: [{ rate: 0, baseHT: 1090, amountTVA: 0 }],
+      amountTVA: 0,
+      amountTTC: 1090,
+      amountPaid: 0,
+    });
+
+    expect(xml).toContain(
+      `<ram:ExemptionReason>${mention}</ram:ExemptionReason>`,
+    );
+    expect(xml).toContain('<ram:CategoryCode>E</ram:CategoryCode>');
+    expect(xml).not.toContain('SpecifiedTradeSettlementPaymentMeans');
+    expect((await validate(xml)).valid).toBe(true);
+  });
+});
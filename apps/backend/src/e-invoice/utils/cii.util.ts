@@ -0,0 +1,277 @@
+import { BusinessProfile, Client } from '@prisma/client';
+import { LABELS } from '../../pdf/i18n/labels';
+import { createFormatter } from '../../pdf/utils/format.util';
+import { RECOVERY_INDEMNITY } from '../../invoice/utils/payment-terms.util';
+import { DEFAULT_VAT_RATE } from '../../invoice/utils/totals.util';
+import { EInvoiceData } from '../types/e-invoice.types';
+import { leaf, node, serializeXml, XmlElement } from './xml.util';
+import { toUnitCode } from './unit-code.util';
+import {
+  COMMERCIAL_INVOICE,
+  CURRENCY,
+  DEFAULT_EXEMPTION_REASON,
+  formatAmount,
+  formatDecimal,
+  getSiren,
+  netUnitPrice,
+  SEPA_CREDIT_TRANSFER,
+  SIREN_SCHEME,
+  taxCategory,
+} from './en16931.util';
+
+const NAMESPACES = {
+  'xmlns:rsm': 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100',
+  'xmlns:qdt': 'urn:un:unece:uncefact:data:standard:QualifiedDataType:100',
+  'xmlns:ram':
+    'urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100',
+  'xmlns:udt': 'urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100',
+};
+
+// Factur-X EN 16931 (a.k.a. COMFORT) profile, as named in the XML and in
+// the PDF metadata
+export const EN16931_GUIDELINE = 'urn:cen.eu:en16931:2017';
+export const EN16931_CONFORMANCE_LEVEL = 'EN 16931';
+
+const VAT_SCHEME = 'VA';
+// Late payment penalties note, mandatory on French B2B invoices
+const PAYMENT_PENALTIES_NOTE = 'PMD';
+
+// Format 102 of UNTDID 2379: YYYYMMDD
+const formatDate = (value: Date) =>
+  value.toISOString().slice(0, 10).replace(/-/g, '');
+
+function dateTime(name: string, value?: Date | null) {
+  if (!value) return null;
+  return node(name, [
+    leaf('udt:DateTimeString', formatDate(value), { format: '102' }),
+  ]);
+}
+
+function note(content: string, subjectCode?: string) {
+  return node('ram:IncludedNote', [
+    leaf('ram:Content', content),
+    leaf('ram:SubjectCode', subjectCode),
+  ]);
+}
+
+function address(
+  postcode: string | null,
+  lineOne: string | null,
+  lineTwo: string | null,
+  city: string | null,
+  country: string | null,
+) {
+  return node('ram:PostalTradeAddress', [
+    leaf('ram:PostcodeCode', postcode),
+    leaf('ram:LineOne', lineOne),
+    leaf('ram:LineTwo', lineTwo),
+    leaf('ram:CityName', city),
+    leaf('ram:CountryID', country || 'FR'),
+  ]);
+}
+
+function tradeParty(
+  name: string,
+  party: {
+    siren: string | null;
+    tradeName?: string | null;
+    email: string | null;
+    vatNumber: string | null;
+  },
+  postalAddress: XmlElement,
+) {
+  return [
+    leaf('ram:Name', name),
+    party.siren &&
+      node('ram:SpecifiedLegalOrganization', [
+        leaf('ram:ID', party.siren, { schemeID: SIREN_SCHEME }),
+        leaf('ram:TradingBusinessName', party.tradeName),
+      ]),
+    postalAddress,
+    party.email &&
+      node('ram:URIUniversalCommunication', [
+        leaf('ram:URIID', party.email, { schemeID: 'EM' }),
+      ]),
+    party.vatNumber &&
+      node('ram:SpecifiedTaxRegistration', [
+        leaf('ram:ID', party.vatNumber, { schemeID: VAT_SCHEME }),
+      ]),
+  ];
+}
+
+function sellerParty(seller: BusinessProfile) {
+  return node(
+    'ram:SellerTradeParty',
+    tradeParty(
+      seller.legalName,
+      { ...seller, siren: getSiren(seller) },
+      address(
+        seller.postalCode,
+        seller.addressLine1,
+        seller.addressLine2,
+        seller.city,
+        seller.country,
+      ),
+    ),
+  );
+}
+
+function buyerParty(customer: Client) {
+  return node(
+    'ram:BuyerTradeParty',
+    tradeParty(
+      customer.company ?? customer.name,
+      customer,
+      address(
+        customer.billingPostalCode,
+        customer.billingAddressLine1,
+        customer.billingAddressLine2,
+        customer.billingCity,
+        customer.billingCountry,
+      ),
+    ),
+  );
+}
+
+function lineItem(line: EInvoiceData['lines'][number], index: number) {
+  const rate = line.vatRate ?? DEFAULT_VAT_RATE;
+  const discount = line.discount ?? 0;
+  const netPrice = netUnitPrice(line);
+
+  return node('ram:IncludedSupplyChainTradeLineItem', [
+    node('ram:AssociatedDocumentLineDocument', [leaf('ram:LineID', index + 1)]),
+    node('ram:SpecifiedTradeProduct', [leaf('ram:Name', line.description)]),
+    node('ram:SpecifiedLineTradeAgreement', [
+      discount > 0 &&
+        node('ram:GrossPriceProductTradePrice', [
+          leaf('ram:ChargeAmount', formatDecimal(line.unitPriceHT)),
+          node('ram:AppliedTradeAllowanceCharge', [
+            node('ram:ChargeIndicator', [leaf('udt:Indicator', 'false')]),
+            leaf(
+              'ram:ActualAmount',
+              formatDecimal(line.unitPriceHT - netPrice),
+            ),
+          ]),
+        ]),
+      node('ram:NetPriceProductTradePrice', [
+        leaf('ram:ChargeAmount', formatDecimal(netPrice)),
+      ]),
+    ]),
+    node('ram:SpecifiedLineTradeDelivery', [
+      leaf('ram:BilledQuantity', formatDecimal(line.quantity), {
+        unitCode: toUnitCode(line.unit),
+      }),
+    ]),
+    node('ram:SpecifiedLineTradeSettlement', [
+      node('ram:ApplicableTradeTax', [
+        leaf('ram:TypeCode', 'VAT'),
+        leaf('ram:CategoryCode', taxCategory(rate)),
+        leaf('ram:RateApplicablePercent', formatDecimal(rate)),
+      ]),
+      node('ram:SpecifiedTradeSettlementLineMonetarySummation', [
+        leaf('ram:LineTotalAmount', formatAmount(line.totalHT)),
+      ]),
+    ]),
+  ]);
+}
+
+// Cross Industry Invoice (UN/CEFACT D16B) XML of an issued invoice, at the
+// Factur-X EN 16931 profile
+export function buildCiiXml(invoice: EInvoiceData): string {
+  const { seller, customer } = invoice;
+  const language = invoice.language ?? customer.language;
+  const labels = LABELS[language];
+  const format = createFormatter(language);
+  const iban = seller.iban?.replace(/\s/g, '');
+
+  return serializeXml(
+    node(
+      'rsm:CrossIndustryInvoice',
+      [
+        node('rsm:ExchangedDocumentContext', [
+          node('ram:GuidelineSpecifiedDocumentContextParameter', [
+            leaf('ram:ID', EN16931_GUIDELINE),
+          ]),
+        ]),
+        node('rsm:ExchangedDocument', [
+          leaf('ram:ID', invoice.number),
+          leaf('ram:TypeCode', COMMERCIAL_INVOICE),
+          dateTime('ram:IssueDateTime', invoice.issuedAt),
+          note(invoice.title),
+          invoice.latePenaltyRate != null &&
+            note(
+              labels.latePayment(
+                format.percent(invoice.latePenaltyRate),
+                format.amount(RECOVERY_INDEMNITY),
+              ),
+              PAYMENT_PENALTIES_NOTE,
+            ),
+        ]),
+        node('rsm:SupplyChainTradeTransaction', [
+          ...invoice.lines.map(lineItem),
+          node('ram:ApplicableHeaderTradeAgreement', [
+            sellerParty(seller),
+            buyerParty(customer),
+          ]),
+          node('ram:ApplicableHeaderTradeDelivery', []),
+          node('ram:ApplicableHeaderTradeSettlement', [
+            leaf('ram:PaymentReference', invoice.number),
+            leaf('ram:InvoiceCurrencyCode', CURRENCY),
+            iban &&
+              node('ram:SpecifiedTradeSettlementPaymentMeans', [
+                leaf('ram:TypeCode', SEPA_CREDIT_TRANSFER),
+                node('ram:PayeePartyCreditorFinancialAccount', [
+                  leaf('ram:IBANID', iban),
+                ]),
+                seller.bic &&
+                  node('ram:PayeeSpecifiedCreditorFinancialInstitution', [
+                    leaf('ram:BICID', seller.bic),
+                  ]),
+              ]),
+            ...invoice.vatBreakdown.map((vat) =>
+              node('ram:ApplicableTradeTax', [
+                leaf('ram:CalculatedAmount', formatAmount(vat.amountTVA)),
+                leaf('ram:TypeCode', 'VAT'),
+                vat.rate === 0 &&
+                  leaf(
+                    'ram:ExemptionReason',
+                    seller.vatMention ?? DEFAULT_EXEMPTION_REASON,
+                  ),
+                leaf('ram:BasisAmount', formatAmount(vat.baseHT)),
+                leaf('ram:CategoryCode', taxCategory(vat.rate)),
+                leaf('ram:RateApplicablePercent', formatDecimal(vat.rate)),
+              ]),
+            ),
+            (invoice.paymentTerms || invoice.dueDate) &&
+              node('ram:SpecifiedTradePaymentTerms', [
+                leaf(
+                  'ram:Description',
+                  invoice.paymentTerms &&
+                    labels.paymentTermsValues[invoice.paymentTerms],
+                ),
+                dateTime('ram:DueDateDateTime', invoice.dueDate),
+              ]),
+            node('ram:SpecifiedTradeSettlementHeaderMonetarySummation', [
+              leaf('ram:LineTotalAmount', formatAmount(invoice.amountHT)),
+              leaf('ram:TaxBasisTotalAmount', formatAmount(invoice.amountHT)),
+              leaf('ram:TaxTotalAmount', formatAmount(invoice.amountTVA), {
+                currencyID: CURRENCY,
+              }),
+              leaf('ram:GrandTotalAmount', formatAmount(invoice.amountTTC)),
+              invoice.amountPaid > 0 &&
+                leaf(
+                  'ram:TotalPrepaidAmount',
+                  formatAmount(invoice.amountPaid),
+                ),
+              leaf(
+                'ram:DuePayableAmount',
+                formatAmount(invoice.amountTTC - invoice.amountPaid),
+              ),
+            ]),
+          ]),
+        ]),
+      ],
+      NAMESPACES,
+    ),
+  );
+}
@@ -0,0 +1,28 @@
+import { roundAmount } from '../../invoice/utils/totals.util';
+
+// Values shared by every EN 16931 syntax (CII and UBL)
+
+export const CURRENCY = 'EUR';
+export const COMMERCIAL_INVOICE = '380';
+export const SEPA_CREDIT_TRANSFER = '58';
+// ISO 6523 scheme of the French SIREN
+export const SIREN_SCHEME = '0002';
+export const DEFAULT_EXEMPTION_REASON = 'Exonération de TVA';
+
+export const formatAmount = (value: number) => roundAmount(value).toFixed(2);
+export const formatDecimal = (value: number) =>
+  String(Number(value.toFixed(4)));
+
+// VAT category: standard rate, or exempt (e.g. franchise en base) at 0 %
+export const taxCategory = (rate: number) => (rate > 0 ? 'S' : 'E');
+
+export const netUnitPrice = (line: {
+  unitPriceHT: number;
+  discount?: number;
+}) => line.unitPriceHT * (1 - (line.discount ?? 0) / 100);
+
+// SIREN, or the SIREN part of a SIRET
+export const getSiren = (party: {
+  siren: string | null;
+  siret?: string | null;
+}) => party.siren ?? party.siret?.slice(0, 9) ?? null;
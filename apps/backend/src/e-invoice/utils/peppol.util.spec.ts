@@ -0,0 +1,131 @@
+import { BusinessProfile, Client } from '@prisma/client';
+import { EInvoiceData } from '../types/e-invoice.types';
+import { checkPeppolRules, getEndpoint } from './peppol.util';
+
+describe('peppol.util', () => {
+  const seller = {
+    legalName: 'Jane Doe',
+    addressLine1: '1 rue de la Paix',
+    addressLine2: null,
+    postalCode: '75002',
+    city: 'Paris',
+    country: 'FR',
+    siren: '123456789',
+    siret: null,
+    vatNumber: 'FR12123456789',
+    vatMention: null,
+  } as BusinessProfile;
+
+  const customer = {
+    name: 'Jan Peeters',
+    company: 'Peeters BV',
+    language: 'EN',
+    billingAddressLine1: 'Grote Markt 1',
+    billingPostalCode: '1000',
+    billingCity: 'Brussel',
+    billingCountry: 'BE',
+    siren: null,
+    vatNumber: 'BE 0123.456.789',
+  } as Client;
+
+  const invoice = {
+    id: 'inv-1',
+    number: 'FA-2026-0001',
+    issuedAt: new Date('2026-10-19'),
+    dueDate: new Date('2026-11-18'),
+    title: 'Website',
+    lines: [],
+    vatBreakdown: [{ rate: 20, baseHT: 1000, amountTVA: 200 }],
+    amountHT: 1000,
+    amountTVA: 200,
+    amountTTC: 1200,
+    amountPaid: 0,
+    seller,
+    customer,
+  } as EInvoiceData;
+
+  describe('getEndpoint', () => {
+    it('uses the SIREN of French companies', () => {
+      expect(getEndpoint(seller)).toEqual({
+        schemeID: '0002',
+        id: '123456789',
+      });
+    });
+
+    it('uses the VAT number of foreign companies', () => {
+      expect(
+        getEndpoint({ ...customer, country: customer.billingCountry }),
+      ).toEqual({ schemeID: '9925', id: 'BE0123456789' });
+    });
+
+    it('returns null when no scheme applies', () => {
+      expect(
+        getEndpoint({
+          siren: null,
+          vatNumber: 'CH123456789',
+          country: 'CH',
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe('checkPeppolRules', () => {
+    it('accepts a complete invoice', () => {
+      expect(checkPeppolRules(invoice)).toEqual([]);
+    });
+
+    it('reports the missing buyer VAT number and address', () => {
+      const violations = checkPeppolRules({
+        ...invoice,
+        customer: {
+          ...customer,
+          vatNumber: null,
+          billingCity: null,
+          billingCountry: null,
+        },
+      });
+
+      expect(violations.map((v) => [v.rule, v.field])).toEqual([
+        ['PEPPOL-EN16931-R010', 'client.vatNumber'],
+        ['BR-10', 'client.billingCity'],
+        ['BR-11', 'client.billingCountry'],
+      ]);
+    });
+
+    it('reports a seller without VAT number or Peppol address', () => {
+      const violations = checkPeppolRules({
+        ...invoice,
+        seller: { ...seller, siren: null, vatNumber: null },
+      });
+
+      expect(violations.map((v) => v.rule)).toEqual([
+        'PEPPOL-EN16931-R020',
+        'BR-S-02',
+      ]);
+    });
+
+    it('reports VAT numbers without country prefix', () => {
+      const violations = checkPeppolRules({
+        ...invoice,
+        seller: { ...seller, vatNumber: '12123456789' },
+      });
+
+      expect(violations).toEqual([
+        expect.objectContaining({
+          rule: 'BR-CO-09',
+          field: 'businessProfile.vatNumber',
+        }),
+      ]);
+    });
+
+    it('requires a due date or payment terms when an amount is due', () => {
+      const violations = checkPeppolRules({
+        ...invoice,
+        dueDate: null,
+        paymentTerms: null,
+      });
+
+      expect(violations.map((v) => v.rule)).toEqual(['BR-CO-25']);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { EInvoiceData } from '../types/e-invoice.types';
+import { getSiren, SIREN_SCHEME } from './en16931.util';
+
+export interface PeppolEndpoint {
+  schemeID: string;
+  id: string;
+}
+
+// Same shape as the schematron reports: the rule, where, and what to fix
+export interface RuleViolation {
+  rule: string;
+  field: string;
+  message: string;
+}
+
+// Peppol electronic address schemes (EAS) of national VAT numbers
+const VAT_SCHEMES: Record<string, string> = {
+  AT: '9914',
+  BE: '9925',
+  DE: '9930',
+  ES: '9920',
+  FR: '9957',
+  IT: '0211',
+  LU: '9938',
+  NL: '9944',
+};
+
+const VAT_NUMBER = /^[A-Z]{2}[A-Z0-9]{2,13}$/;
+
+export const normalizeVatNumber = (vatNumber: string | null) =>
+  vatNumber?.replace(/[\s.-]/g, '').toUpperCase() || null;
+
+// Where the party receives documents on the Peppol network: French companies
+// are registered under their SIREN, others under their VAT number
+export function getEndpoint(party: {
+  siren: string | null;
+  siret?: string | null;
+  vatNumber: string | null;
+  country: string | null;
+}): PeppolEndpoint | null {
+  const siren = getSiren(party);
+  if (siren && (party.country ?? 'FR') === 'FR') {
+    return { schemeID: SIREN_SCHEME, id: siren };
+  }
+
+  const vatNumber = normalizeVatNumber(party.vatNumber);
+  const scheme = vatNumber && VAT_SCHEMES[vatNumber.slice(0, 2)];
+  return scheme ? { schemeID: scheme, id: vatNumber } : null;
+}
+
+// Business rules of EN 16931 and Peppol BIS Billing 3.0 that the data of an
+// issued invoice can break; the builder relies on them holding
+export function checkPeppolRules(invoice: EInvoiceData): RuleViolation[] {
+  const { seller, customer } = invoice;
+  const violations: RuleViolation[] = [];
+  const fail = (rule: string, field: string, message: string) =>
+    violations.push({ rule, field, message });
+
+  if (!getEndpoint(seller)) {
+    fail(
+      'PEPPOL-EN16931-R020',
+      'businessProfile.siren',
+      'The seller has no Peppol address: set a SIREN or a supported VAT number',
+    );
+  }
+  if (!seller.vatNumber) {
+    const charged = invoice.vatBreakdown.some((vat) => vat.rate > 0);
+    fail(
+      charged ? 'BR-S-02' : 'BR-E-02',
+      'businessProfile.vatNumber',
+      'The seller VAT identifier is required',
+    );
+  }
+
+  const buyer = {
+    ...customer,
+    country: customer.billingCountry,
+    vatNumber: normalizeVatNumber(customer.vatNumber),
+  };
+  if (!getEndpoint(buyer)) {
+    fail(
+      'PEPPOL-EN16931-R010',
+      'client.vatNumber',
+      buyer.vatNumber
+        ? `VAT numbers from ${buyer.vatNumber.slice(0, 2)} cannot be used as a Peppol address`
+        : 'The buyer VAT identifier is required, it gives the buyer Peppol address',
+    );
+  }
+
+  for (const [field, vatNumber] of [
+    ['businessProfile.vatNumber', normalizeVatNumber(seller.vatNumber)],
+    ['client.vatNumber', buyer.vatNumber],
+  ] as const) {
+    if (vatNumber && !VAT_NUMBER.test(vatNumber)) {
+      fail(
+        'BR-CO-09',
+        field,
+        'VAT identifiers must start with the ISO code of their country',
+      );
+    }
+  }
+
+  const address = {
+    billingAddressLine1: 'street',
+    billingPostalCode: 'postal code',
+    billingCity: 'city',
+  } as const;
+  for (const [field, label] of Object.entries(address)) {
+    if (!customer[field as keyof typeof address]) {
+      fail('BR-10', `client.${field}`, `The buyer address has no ${label}`);
+    }
+  }
+  if (!customer.billingCountry) {
+    fail('BR-11', 'client.billingCountry', 'The buyer country is required');
+  }
+
+  if (
+    invoice.amountTTC > invoice.amountPaid &&
+    !invoice.dueDate &&
+    !invoice.paymentTerms
+  ) {
+    fail(
+      'BR-CO-25',
+      'invoice.dueDate',
+      'An amount is due, so a due date or payment terms are required',
+    );
+  }
+
+  return violations;
+}
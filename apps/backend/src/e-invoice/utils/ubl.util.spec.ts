@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateXML } from 'xmllint-wasm';
+import { BusinessProfile, Client } from '@prisma/client';
+import { EInvoiceData } from '../types/e-invoice.types';
+import { buildUblXml, PEPPOL_CUSTOMIZATION_ID } from './ubl.util';
+
+// OASIS UBL 2.1 distribution layout: the main schema imports the others
+// from ../common
+const SCHEMA_DIR = path.join(__dirname, '../schemas/ubl-2.1');
+const SCHEMA = 'maindoc/UBL-Invoice-2.1.xsd';
+const COMMON = 'common';
+
+function validate(xml: string) {
+  const read = (fileName: string) => ({
+    fileName,
+    contents: fs.readFileSync(path.join(SCHEMA_DIR, fileName), 'utf-8'),
+  });
+
+  return validateXML({
+    xml: [{ fileName: 'invoice.xml', contents: xml }],
+    schema: read(SCHEMA),
+    preload: fs
+      .readdirSync(path.join(SCHEMA_DIR, COMMON))
+      .map((file) => read(`${COMMON}/${file}`)),
+  });
+}
+
+describe('buildUblXml', () => {
+  const seller = {
+    legalName: 'Jane Doe',
+    tradeName: null,
+    legalForm: 'EI',
+    addressLine1: '1 rue de la Paix',
+    addressLine2: null,
+    postalCode: '75002',
+    city: 'Paris',
+    country: 'FR',
+    email: 'jane@example.com',
+    phone: null,
+    siren: '123456789',
+    siret: null,
+    vatNumber: 'FR12123456789',
+    vatMention: null,
+    iban: 'FR76 3000 6000 0112 3456 7890 189',
+    bic: 'AGRIFRPP',
+  } as BusinessProfile;
+
+  const customer = {
+    name: 'Jan Peeters',
+    email: null,
+    phone: null,
+    company: 'Peeters & Zonen BV',
+    language: 'EN',
+    billingAddressLine1: 'Grote Markt 1',
+    billingAddressLine2: null,
+    billingPostalCode: '1000',
+    billingCity: 'Brussel',
+    billingCountry: 'BE',
+    siren: null,
+    vatNumber: 'BE0123456789',
+  } as Client;
+
+  const invoice: EInvoiceData = {
+    id: 'inv-1',
+    number: 'FA-2026-0001',
+    issuedAt: new Date('2026-10-19T10:00:00Z'),
+    dueDate: new Date('2026-11-18T10:00:00Z'),
+    paymentTerms: 'NET_30',
+    latePenaltyRate: 10,
+    title: 'Website',
+    lines: [
+      {
+        description: 'Development',
+        quantity: 2,
+        unit: 'day',
+        unitPriceHT: 500,
+        vatRate: 20,
+        discount: 0,
+        totalHT: 1000,
+      },
+      {
+        description: 'Hosting',
+        quantity: 1,
+        unitPriceHT: 100,
+        vatRate: 20,
+        discount: 10,
+        totalHT: 90,
+      },
+    ],
+    vatBreakdown: [{ rate: 20, baseHT: 1090, amountTVA: 218 }],
+    amountHT: 1090,
+    amountTVA: 218,
+    amountTTC: 1308,
+    amountPaid: 0,
+    seller,
+    customer,
+  };
+
+  it('produces well-formed XML', async () => {
+    const result = await validateXML({
+      xml: [{ fileName: 'invoice.xml', contents: buildUblXml(invoice) }],
+      normalization: 'format',
+    });
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it('produces XML valid against the UBL 2.1 Invoice schema', async () => {
+    const exempt = buildUblXml({
+      ...invoice,
+      seller: { ...seller, iban: null },
+      lines: invoice.lines.map((line) => ({ ...line, vatRate: 0 })),
+      vatBreakdown: [{ rate: 0, baseHT: 1090, amountTVA: 0 }],
+      amountTVA: 0,
+      amountTTC: 1090,
+      amountPaid: 500,
+    });
+
+    for (const xml of [buildUblXml(invoice), exempt]) {
+      const result = await validate(xml);
+
+      expect(result.errors).toEqual([]);
+      expect(result.valid).toBe(true);
+    }
+  });
+
+  it('follows Peppol BIS Billing 3.0', () => {
+    const xml = buildUblXml(invoice);
+
+    expect(xml).toContain(
+      `<cbc:CustomizationID>${PEPPOL_CUSTOMIZATION_ID}</cbc:CustomizationID>`,
+    );
+    expect(xml).toContain('<cbc:IssueDate>2026-10-19</cbc:IssueDate>');
+    expect(xml).toContain(
+      '<cbc:BuyerReference>FA-2026-0001</cbc:BuyerReference>',
+    );
+    expect(xml).toContain(
+      '<cbc:EndpointID schemeID="0002">123456789</cbc:EndpointID>',
+    );
+    expect(xml).toContain(
+      '<cbc:EndpointID schemeID="9925">BE0123456789</cbc:EndpointID>',
+    );
+    expect(xml).toContain(
+      '<cbc:RegistrationName>Peeters &amp; Zonen BV</cbc:RegistrationName>',
+    );
+    expect(xml).toContain(
+      '<cbc:IdentificationCode>BE</cbc:IdentificationCode>',
+    );
+    expect(xml).toContain(
+      '<cbc:InvoicedQuantity unitCode="DAY">2</cbc:InvoicedQuantity>',
+    );
+    expect(xml).toContain(
+      '<cbc:PayableAmount currencyID="EUR">1308.00</cbc:PayableAmount>',
+    );
+    // Peppol allows one document note, the terms have their own
+    expect(xml.match(/<cbc:Note>/g)).toHaveLength(2);
+  });
+
+  it('prices discounted lines net of the discount', () => {
+    expect(buildUblXml(invoice)).toMatch(
+      /<cbc:PriceAmount currencyID="EUR">90<\/cbc:PriceAmount>\s*<cac:AllowanceCharge>\s*<cbc:ChargeIndicator>false<\/cbc:ChargeIndicator>\s*<cbc:Amount currencyID="EUR">10<\/cbc:Amount>\s*<cbc:BaseAmount currencyID="EUR">100<\/cbc:BaseAmount>/,
+    );
+  });
+
+  it('gives the exemption reason of VAT-free subtotals', () => {
+    const mention = 'TVA non applicable, art. 293 B du CGI';
+    const xml = buildUblXml({
+      ...invoice,
+      seller: { ...seller, vatMention: mention },
+      lines: invoice.lines.map((line) => ({ ...line, vatRate: 0 })),
+      vatBreakdown: [{ rate: 0, baseHT: 1090, amountTVA: 0 }],
+      amountTVA: 0,
+      amountTTC: 1090,
+    });
+
+    expect(xml).toMatch(
+      /<cac:TaxCategory>\s*<cbc:ID>E<\/cbc:ID>\s*<cbc:Percent>0<\/cbc:Percent>\s*<cbc:TaxExemptionReason>TVA non applicable/,
+    );
+    // Not repeated on the lines
+    expect(xml.match(/TaxExemptionReason>/g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,226 @@
+import { LABELS } from '../../pdf/i18n/labels';
+import { createFormatter } from '../../pdf/utils/format.util';
+import { RECOVERY_INDEMNITY } from '../../invoice/utils/payment-terms.util';
+import { DEFAULT_VAT_RATE } from '../../invoice/utils/totals.util';
+import { EInvoiceData } from '../types/e-invoice.types';
+import { leaf, node, serializeXml } from './xml.util';
+import { toUnitCode } from './unit-code.util';
+import {
+  COMMERCIAL_INVOICE,
+  CURRENCY,
+  DEFAULT_EXEMPTION_REASON,
+  formatAmount,
+  formatDecimal,
+  getSiren,
+  netUnitPrice,
+  SEPA_CREDIT_TRANSFER,
+  SIREN_SCHEME,
+  taxCategory,
+} from './en16931.util';
+import { getEndpoint, normalizeVatNumber } from './peppol.util';
+
+const NAMESPACES = {
+  xmlns: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  'xmlns:cac':
+    'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  'xmlns:cbc':
+    'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+};
+
+export const PEPPOL_CUSTOMIZATION_ID =
+  'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0';
+export const PEPPOL_PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+const formatDate = (value: Date) => value.toISOString().slice(0, 10);
+
+const amount = (name: string, value: number) =>
+  leaf(name, formatAmount(value), { currencyID: CURRENCY });
+
+const taxScheme = () => node('cac:TaxScheme', [leaf('cbc:ID', 'VAT')]);
+
+interface PartyData {
+  name: string;
+  tradeName?: string | null;
+  legalForm?: string | null;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  postalCode: string | null;
+  country: string | null;
+  siren: string | null;
+  siret?: string | null;
+  vatNumber: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+function party(data: PartyData) {
+  const endpoint = getEndpoint(data);
+  const siren = getSiren(data);
+  const vatNumber = normalizeVatNumber(data.vatNumber);
+
+  return node('cac:Party', [
+    endpoint &&
+      leaf('cbc:EndpointID', endpoint.id, { schemeID: endpoint.schemeID }),
+    data.tradeName && node('cac:PartyName', [leaf('cbc:Name', data.tradeName)]),
+    node('cac:PostalAddress', [
+      leaf('cbc:StreetName', data.addressLine1),
+      leaf('cbc:AdditionalStreetName', data.addressLine2),
+      leaf('cbc:CityName', data.city),
+      leaf('cbc:PostalZone', data.postalCode),
+      node('cac:Country', [
+        leaf('cbc:IdentificationCode', data.country || 'FR'),
+      ]),
+    ]),
+    vatNumber &&
+      node('cac:PartyTaxScheme', [
+        leaf('cbc:CompanyID', vatNumber),
+        taxScheme(),
+      ]),
+    node('cac:PartyLegalEntity', [
+      leaf('cbc:RegistrationName', data.name),
+      leaf('cbc:CompanyID', siren, { schemeID: SIREN_SCHEME }),
+      leaf('cbc:CompanyLegalForm', data.legalForm),
+    ]),
+    (data.email || data.phone) &&
+      node('cac:Contact', [
+        leaf('cbc:Telephone', data.phone),
+        leaf('cbc:ElectronicMail', data.email),
+      ]),
+  ]);
+}
+
+function taxCategoryNode(name: string, rate: number, exemptionReason?: string) {
+  return node(name, [
+    leaf('cbc:ID', taxCategory(rate)),
+    leaf('cbc:Percent', formatDecimal(rate)),
+    rate === 0 && leaf('cbc:TaxExemptionReason', exemptionReason),
+    taxScheme(),
+  ]);
+}
+
+function invoiceLine(line: EInvoiceData['lines'][number], index: number) {
+  const rate = line.vatRate ?? DEFAULT_VAT_RATE;
+  const netPrice = netUnitPrice(line);
+
+  return node('cac:InvoiceLine', [
+    leaf('cbc:ID', index + 1),
+    leaf('cbc:InvoicedQuantity', formatDecimal(line.quantity), {
+      unitCode: toUnitCode(line.unit),
+    }),
+    amount('cbc:LineExtensionAmount', line.totalHT),
+    node('cac:Item', [
+      leaf('cbc:Name', line.description),
+      taxCategoryNode('cac:ClassifiedTaxCategory', rate),
+    ]),
+    node('cac:Price', [
+      leaf('cbc:PriceAmount', formatDecimal(netPrice), {
+        currencyID: CURRENCY,
+      }),
+      !!line.discount &&
+        node('cac:AllowanceCharge', [
+          leaf('cbc:ChargeIndicator', 'false'),
+          leaf('cbc:Amount', formatDecimal(line.unitPriceHT - netPrice), {
+            currencyID: CURRENCY,
+          }),
+          leaf('cbc:BaseAmount', formatDecimal(line.unitPriceHT), {
+            currencyID: CURRENCY,
+          }),
+        ]),
+    ]),
+  ]);
+}
+
+/**
+ * UBL 2.1 invoice following Peppol BIS Billing 3.0. Peppol requires a buyer
+ * reference or an order reference, and invoices carry neither: the invoice
+ * number stands in as the buyer reference.
+ */
+export function buildUblXml(invoice: EInvoiceData): string {
+  const { seller, customer } = invoice;
+  const language = invoice.language ?? customer.language;
+  const labels = LABELS[language];
+  const format = createFormatter(language);
+  const iban = seller.iban?.replace(/\s/g, '');
+  const exemptionReason = seller.vatMention ?? DEFAULT_EXEMPTION_REASON;
+
+  // Peppol allows a single document note, terms go to the payment terms
+  const terms = [
+    invoice.paymentTerms &&
+      `${labels.paymentTerms}: ${labels.paymentTermsValues[invoice.paymentTerms]}`,
+    invoice.latePenaltyRate != null &&
+      labels.latePayment(
+        format.percent(invoice.latePenaltyRate),
+        format.amount(RECOVERY_INDEMNITY),
+      ),
+  ].filter(Boolean);
+
+  return serializeXml(
+    node(
+      'Invoice',
+      [
+        leaf('cbc:CustomizationID', PEPPOL_CUSTOMIZATION_ID),
+        leaf('cbc:ProfileID', PEPPOL_PROFILE_ID),
+        leaf('cbc:ID', invoice.number),
+        leaf('cbc:IssueDate', formatDate(invoice.issuedAt)),
+        leaf('cbc:DueDate', invoice.dueDate && formatDate(invoice.dueDate)),
+        leaf('cbc:InvoiceTypeCode', COMMERCIAL_INVOICE),
+        leaf('cbc:Note', invoice.title),
+        leaf('cbc:DocumentCurrencyCode', CURRENCY),
+        leaf('cbc:BuyerReference', invoice.number),
+        node('cac:AccountingSupplierParty', [
+          party({ ...seller, name: seller.legalName }),
+        ]),
+        node('cac:AccountingCustomerParty', [
+          party({
+            name: customer.company ?? customer.name,
+            addressLine1: customer.billingAddressLine1,
+            addressLine2: customer.billingAddressLine2,
+            city: customer.billingCity,
+            postalCode: customer.billingPostalCode,
+            country: customer.billingCountry,
+            siren: customer.siren,
+            vatNumber: customer.vatNumber,
+            email: customer.email,
+            phone: customer.phone,
+          }),
+        ]),
+        iban &&
+          node('cac:PaymentMeans', [
+            leaf('cbc:PaymentMeansCode', SEPA_CREDIT_TRANSFER),
+            leaf('cbc:PaymentID', invoice.number),
+            node('cac:PayeeFinancialAccount', [
+              leaf('cbc:ID', iban),
+              leaf('cbc:Name', seller.legalName),
+              seller.bic &&
+                node('cac:FinancialInstitutionBranch', [
+                  leaf('cbc:ID', seller.bic),
+                ]),
+            ]),
+          ]),
+        terms.length > 0 &&
+          node('cac:PaymentTerms', [leaf('cbc:Note', terms.join('\n'))]),
+        node('cac:TaxTotal', [
+          amount('cbc:TaxAmount', invoice.amountTVA),
+          ...invoice.vatBreakdown.map((vat) =>
+            node('cac:TaxSubtotal', [
+              amount('cbc:TaxableAmount', vat.baseHT),
+              amount('cbc:TaxAmount', vat.amountTVA),
+              taxCategoryNode('cac:TaxCategory', vat.rate, exemptionReason),
+            ]),
+          ),
+        ]),
+        node('cac:LegalMonetaryTotal', [
+          amount('cbc:LineExtensionAmount', invoice.amountHT),
+          amount('cbc:TaxExclusiveAmount', invoice.amountHT),
+          amount('cbc:TaxInclusiveAmount', invoice.amountTTC),
+          invoice.amountPaid > 0 &&
+            amount('cbc:PrepaidAmount', invoice.amountPaid),
+          amount('cbc:PayableAmount', invoice.amountTTC - invoice.amountPaid),
+        ]),
+        ...invoice.lines.map(invoiceLine),
+      ],
+      NAMESPACES,
+    ),
+  );
+}
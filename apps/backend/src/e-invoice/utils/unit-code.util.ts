@@ -0,0 +1,38 @@
+// UN/ECE Recommendation 20 codes for the free-text units users type on lines
+const UNIT_CODES: Record<string, string> = {
+  h: 'HUR',
+  heure: 'HUR',
+  heures: 'HUR',
+  hour: 'HUR',
+  hours: 'HUR',
+  j: 'DAY',
+  jour: 'DAY',
+  jours: 'DAY',
+  day: 'DAY',
+  days: 'DAY',
+  semaine: 'WEE',
+  semaines: 'WEE',
+  week: 'WEE',
+  weeks: 'WEE',
+  mois: 'MON',
+  month: 'MON',
+  months: 'MON',
+  an: 'ANN',
+  année: 'ANN',
+  year: 'ANN',
+  years: 'ANN',
+  kg: 'KGM',
+  km: 'KMT',
+  m: 'MTR',
+  m2: 'MTK',
+  'm²': 'MTK',
+  l: 'LTR',
+};
+
+// "Unit" (C62) for anything unknown, e.g. "forfait" or "pièce"
+export const DEFAULT_UNIT_CODE = 'C62';
+
+export function toUnitCode(unit?: string | null): string {
+  const key = unit?.trim().toLowerCase();
+  return (key && UNIT_CODES[key]) || DEFAULT_UNIT_CODE;
+}
@@ -0,0 +1,33 @@
+import { escapeXml, leaf, node, serializeXml } from './xml.util';
+
+describe('xml.util', () => {
+  it('escapes markup characters', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;',
+    );
+  });
+
+  it('drops empty leaves but keeps empty containers', () => {
+    const xml = serializeXml(
+      node('root', [
+        leaf('a', 'text', { id: '1' }),
+        leaf('b', null),
+        leaf('c', ''),
+        leaf('d', 0),
+        node('e', []),
+      ]),
+    );
+
+    expect(xml).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<root>',
+        '  <a id="1">text</a>',
+        '  <d>0</d>',
+        '  <e/>',
+        '</root>',
+        '',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,64 @@
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[] | string;
+}
+
+// Absent optional values become null and are dropped by the parent, so
+// builders can pass model fields straight through
+type XmlContent = string | number | null | undefined;
+type XmlChild = XmlElement | null | undefined | false | '';
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Leaf element, or null when there is nothing to write
+export function leaf(
+  name: string,
+  content: XmlContent,
+  attributes: Record<string, string> = {},
+): XmlElement | null {
+  if (content == null || content === '') return null;
+  return { name, attributes, children: String(content) };
+}
+
+// Container element, always written even when empty
+export function node(
+  name: string,
+  children: XmlChild[],
+  attributes: Record<string, string> = {},
+): XmlElement {
+  return {
+    name,
+    attributes,
+    children: children.filter((child): child is XmlElement => !!child),
+  };
+}
+
+export function serializeXml(root: XmlElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serialize(root, 0)}\n`;
+}
+
+function serialize(element: XmlElement, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const attributes = Object.entries(element.attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+  const open = `${indent}<${element.name}${attributes}`;
+
+  if (typeof element.children === 'string') {
+    return `${open}>${escapeXml(element.children)}</${element.name}>`;
+  }
+  if (element.children.length === 0) return `${open}/>`;
+
+  const children = element.children
+    .map((child) => serialize(child, depth + 1))
+    .join('\n');
+  return `${open}>\n${children}\n${indent}</${element.name}>`;
+}
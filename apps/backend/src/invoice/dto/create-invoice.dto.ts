@@ -1,4 +1,15 @@
-import { IsString, IsOptional, IsNumber } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaymentTerms } from '@prisma/client';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { LineItemDto } from './line-item.dto';
 
 export class CreateInvoiceDto {
   @IsString()
@@ -15,10 +26,17 @@ export class CreateInvoiceDto {
   @IsString()
   projectId?: string;
 
-  @IsNumber()
-  amountHT: number;
+  @IsOptional()
+  @IsEnum(PaymentTerms)
+  paymentTerms?: PaymentTerms; // defaults to the client's terms
 
   @IsOptional()
-  @IsNumber()
-  tva?: number;
+  @IsDateString()
+  dueDate?: string; // overrides the date computed from paymentTerms
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => LineItemDto)
+  lines: LineItemDto[];
 }
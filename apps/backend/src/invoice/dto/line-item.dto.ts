@@ -0,0 +1,37 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class LineItemDto {
+  @IsString()
+  description: string;
+
+  @IsNumber()
+  @IsPositive()
+  quantity: number;
+
+  @IsOptional()
+  @IsString()
+  unit?: string; // e.g. "day", "hour", "unit"
+
+  @IsNumber()
+  @Min(0)
+  unitPriceHT: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  vatRate?: number; // %, defaults to 20
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  discount?: number; // %, applied to quantity * unitPriceHT
+}
@@ -0,0 +1,5 @@
+import { OmitType } from '@nestjs/mapped-types';
+import { CreatePaymentDto } from '../../payment/dto/create-payment.dto';
+
+// The amount is always the outstanding balance
+export class MarkPaidDto extends OmitType(CreatePaymentDto, ['amount']) {}
@@ -0,0 +1,20 @@
+import { DocumentTemplate, Language } from '@prisma/client';
+import { IsEnum, IsOptional, Matches } from 'class-validator';
+import { CreateInvoiceDto } from './create-invoice.dto';
+
+// Same body as an invoice creation, plus overrides to try another look
+export class PreviewInvoiceDto extends CreateInvoiceDto {
+  @IsOptional()
+  @IsEnum(DocumentTemplate)
+  template?: DocumentTemplate;
+
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, {
+    message: 'accentColor must be a hex colour such as #1f2937',
+  })
+  accentColor?: string;
+
+  @IsOptional()
+  @IsEnum(Language)
+  language?: Language; // defaults to the client's language
+}
@@ -1,5 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { InvoiceController } from './invoice.controller';
+import { InvoiceService } from './invoice.service';
+import { PrismaService } from '../prisma/prisma.service';
 
 describe('InvoiceController', () => {
   let controller: InvoiceController;
@@ -7,6 +9,10 @@ describe('InvoiceController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [InvoiceController],
+      providers: [
+        { provide: InvoiceService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<InvoiceController>(InvoiceController);
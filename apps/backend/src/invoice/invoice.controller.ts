@@ -4,48 +4,124 @@ import {
   Delete,
   Get,
   Param,
+  ParseIntPipe,
   Patch,
   Post,
+  StreamableFile,
   UseGuards,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { GetUser } from 'src/auth/decorator/get-user.decorator';
 import { CreateInvoiceDto } from './dto/create-invoice.dto';
 import { UpdateInvoiceDto } from './dto/update-invoice.dto';
+import { CancelInvoiceDto } from './dto/cancel-invoice.dto';
+import { MarkPaidDto } from './dto/mark-paid.dto';
+import { PreviewInvoiceDto } from './dto/preview-invoice.dto';
 import { InvoiceService } from './invoice.service';
-import { UserPayload } from '../auth/types/auth.types';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
 
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('invoices')
 @Controller('invoices')
 export class InvoiceController {
   constructor(private readonly invoiceService: InvoiceService) {}
 
   @Post()
-  create(@Body() dto: CreateInvoiceDto, @GetUser() user: UserPayload) {
-    return this.invoiceService.create(user.sub, dto);
+  create(@Body() dto: CreateInvoiceDto, @GetUser() user: WorkspaceUser) {
+    return this.invoiceService.create(user.wid, dto);
+  }
+
+  // Renders the PDF of an invoice body without saving anything
+  @Post('preview')
+  async preview(
+    @Body() dto: PreviewInvoiceDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    const pdf = await this.invoiceService.preview(user.wid, dto);
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: 'inline; filename="preview.pdf"',
+    });
   }
 
   @Get()
-  findAll(@GetUser() user: UserPayload) {
-    return this.invoiceService.findAll(user.sub);
+  findAll(@GetUser() user: WorkspaceUser) {
+    return this.invoiceService.findAll(user.wid);
   }
 
   @Get(':id')
-  findOne(@Param('id') id: string, @GetUser() user: UserPayload) {
-    return this.invoiceService.findOne(user.sub, id);
+  findOne(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.invoiceService.findOne(user.wid, id);
+  }
+
+  @Get(':id/pdf')
+  async getPdf(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    const { fileName, file } = await this.invoiceService.getPdf(user.wid, id);
+    return new StreamableFile(file, {
+      type: 'application/pdf',
+      disposition: `inline; filename="${fileName}"`,
+    });
+  }
+
+  @Get(':id/pdf/versions/:version')
+  async getPdfVersion(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    const { fileName, file } = await this.invoiceService.getPdfVersion(
+      user.wid,
+      id,
+      version,
+    );
+    return new StreamableFile(file, {
+      type: 'application/pdf',
+      disposition: `inline; filename="${fileName}"`,
+    });
+  }
+
+  // Direct download link from the storage, e.g. an S3 presigned URL
+  @Get(':id/pdf/url')
+  getPdfUrl(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.invoiceService.getPdfUrl(user.wid, id);
   }
 
   @Patch(':id')
   update(
     @Param('id') id: string,
     @Body() dto: UpdateInvoiceDto,
-    @GetUser() user: UserPayload,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.invoiceService.update(user.wid, id, dto);
+  }
+
+  @Post(':id/send')
+  send(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.invoiceService.send(user.wid, user.sub, id);
+  }
+
+  @Post(':id/mark-paid')
+  markPaid(
+    @Param('id') id: string,
+    @Body() dto: MarkPaidDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.invoiceService.markPaid(user.wid, user.sub, id, dto);
+  }
+
+  @Post(':id/cancel')
+  cancel(
+    @Param('id') id: string,
+    @Body() dto: CancelInvoiceDto,
+    @GetUser() user: WorkspaceUser,
   ) {
-    return this.invoiceService.update(user.sub, id, dto);
+    return this.invoiceService.cancel(user.wid, user.sub, id, dto);
   }
 
   @Delete(':id')
-  remove(@Param('id') id: string, @GetUser() user: UserPayload) {
-    return this.invoiceService.remove(user.sub, id);
+  remove(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.invoiceService.remove(user.wid, id);
   }
 }
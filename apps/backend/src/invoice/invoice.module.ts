@@ -1,13 +1,16 @@
 import { Module } from '@nestjs/common';
 import { InvoiceController } from './invoice.controller';
 import { InvoiceService } from './invoice.service';
+import { InvoiceScheduler } from './invoice.scheduler';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { PdfModule } from 'src/pdf/pdf.module';
+import { NumberingModule } from 'src/numbering/numbering.module';
+import { BusinessProfileModule } from 'src/business-profile/business-profile.module';
 
 @Module({
-  imports: [PrismaModule, PdfModule],
+  imports: [PrismaModule, PdfModule, NumberingModule, BusinessProfileModule],
   controllers: [InvoiceController],
-  providers: [InvoiceService],
+  providers: [InvoiceService, InvoiceScheduler],
   exports: [InvoiceService],
 })
 export class InvoiceModule {}
@@ -0,0 +1,16 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InvoiceService } from './invoice.service';
+
+@Injectable()
+export class InvoiceScheduler {
+  private readonly logger = new Logger(InvoiceScheduler.name);
+
+  constructor(private readonly invoiceService: InvoiceService) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async flagOverdueInvoices() {
+    const count = await this.invoiceService.markOverdue();
+    if (count > 0) this.logger.log(`${count} invoice(s) marked overdue`);
+  }
+}
@@ -1,12 +1,70 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InvoiceService } from './invoice.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PdfService } from '../pdf/pdf.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
 
 describe('InvoiceService', () => {
   let service: InvoiceService;
+  const prisma = {
+    $transaction: jest.fn(),
+    client: { findFirst: jest.fn() },
+    project: { findFirst: jest.fn() },
+    invoice: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      delete: jest.fn(),
+    },
+    invoiceStatusEvent: { create: jest.fn() },
+    invoicePdfVersion: { findFirst: jest.fn(), create: jest.fn() },
+    payment: { create: jest.fn() },
+    workspace: { findUniqueOrThrow: jest.fn() },
+  };
+  const numberingService = { next: jest.fn() };
+  const pdfService = {
+    generate: jest.fn(),
+    open: jest.fn(),
+    delete: jest.fn(),
+    getSignedUrl: jest.fn(),
+  };
+  const storedDocument = (version: number) => ({
+    key: `invoices/inv-1/v${version}.pdf`,
+    sha256: `hash-${version}`,
+    size: 1024,
+  });
+  const businessProfileService = {
+    getDocumentContext: jest.fn(),
+    assertCanIssue: jest.fn(),
+  };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [InvoiceService],
+      providers: [
+        InvoiceService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PdfService, useValue: pdfService },
+        { provide: NumberingService, useValue: numberingService },
+        {
+          provide: BusinessProfileService,
+          useValue: businessProfileService,
+        },
+      ],
     }).compile();
 
     service = module.get<InvoiceService>(InvoiceService);
@@ -15,4 +73,419 @@ describe('InvoiceService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('computes totals server-side when creating an invoice', async () => {
+    prisma.invoice.create.mockImplementation(({ data }) => ({
+      id: 'inv-1',
+      ...data,
+      lines: data.lines.create,
+      payments: [],
+      creditNotes: [],
+    }));
+    prisma.client.findFirst.mockResolvedValue({ paymentTerms: 'NET_45' });
+    prisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+    pdfService.generate.mockResolvedValue(storedDocument(1));
+
+    const invoice = await service.create('workspace-1', {
+      title: 'Website',
+      clientId: 'client-1',
+      lines: [
+        { description: 'Dev', quantity: 2, unitPriceHT: 500 },
+        { description: 'Training', quantity: 1, unitPriceHT: 200, vatRate: 10 },
+      ],
+    });
+
+    const { data } = prisma.invoice.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      amountHT: 1200,
+      amountTVA: 220,
+      amountTTC: 1420,
+      status: 'DRAFT',
+      workspaceId: 'workspace-1',
+      paymentTerms: 'NET_45',
+    });
+    expect(data.lines.create[1]).toMatchObject({
+      position: 1,
+      vatRate: 10,
+      discount: 0,
+      totalHT: 200,
+    });
+    expect(invoice.vatBreakdown).toEqual([
+      { rate: 20, baseHT: 1000, amountTVA: 200 },
+      { rate: 10, baseHT: 200, amountTVA: 20 },
+    ]);
+    expect(invoice.balanceDue).toBe(1420);
+    expect(invoice.pdfKey).toBe('invoices/inv-1/v1.pdf');
+    expect(prisma.invoicePdfVersion.create).toHaveBeenCalledWith({
+      data: {
+        invoiceId: 'inv-1',
+        version: 1,
+        key: 'invoices/inv-1/v1.pdf',
+        sha256: 'hash-1',
+        size: 1024,
+        status: 'DRAFT',
+      },
+    });
+  });
+
+  describe('PDF versions', () => {
+    const draft = {
+      id: 'inv-1',
+      workspaceId: 'workspace-1',
+      status: 'DRAFT',
+      title: 'Website',
+      lines: [],
+      payments: [],
+      creditNotes: [],
+    };
+
+    it('renders a new version when a draft changes', async () => {
+      prisma.invoice.findFirst.mockResolvedValue(draft);
+      prisma.invoice.findUniqueOrThrow.mockResolvedValue({
+        ...draft,
+        title: 'Shop',
+      });
+      prisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+      prisma.invoicePdfVersion.findFirst.mockResolvedValue({ version: 2 });
+      pdfService.generate.mockResolvedValue(storedDocument(3));
+
+      const invoice = await service.update('workspace-1', 'inv-1', {
+        title: 'Shop',
+      });
+
+      expect(pdfService.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Shop' }),
+        3,
+      );
+      expect(prisma.invoice.updateMany).toHaveBeenCalledWith({
+        where: { id: 'inv-1', status: 'DRAFT' },
+        data: { pdfKey: 'invoices/inv-1/v3.pdf' },
+      });
+      expect(invoice.pdfKey).toBe('invoices/inv-1/v3.pdf');
+    });
+
+    it('keeps the issued document when a sent invoice is edited', async () => {
+      const sent = {
+        ...draft,
+        status: 'SENT',
+        pdfKey: 'invoices/inv-1/v4.pdf',
+      };
+      prisma.invoice.findFirst.mockResolvedValue(sent);
+      prisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+      prisma.invoice.findUniqueOrThrow.mockResolvedValue({
+        ...sent,
+        title: 'Shop',
+      });
+
+      const invoice = await service.update('workspace-1', 'inv-1', {
+        title: 'Shop',
+      });
+
+      expect(pdfService.generate).not.toHaveBeenCalled();
+      expect(invoice.pdfKey).toBe('invoices/inv-1/v4.pdf');
+    });
+
+    it('refuses an edit racing a status change', async () => {
+      prisma.invoice.findFirst.mockResolvedValue({ ...draft, status: 'SENT' });
+      prisma.invoice.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.update('workspace-1', 'inv-1', { title: 'Shop' }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(prisma.invoice.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'inv-1', status: 'SENT' } }),
+      );
+      expect(prisma.invoice.findUniqueOrThrow).not.toHaveBeenCalled();
+    });
+
+    it('does not point an issued invoice at a late draft rendering', async () => {
+      prisma.invoice.findFirst.mockResolvedValue(draft);
+      prisma.invoice.findUniqueOrThrow.mockResolvedValue(draft);
+      prisma.invoice.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+      pdfService.generate.mockResolvedValue(storedDocument(1));
+      pdfService.delete.mockResolvedValue(undefined);
+
+      await expect(
+        service.update('workspace-1', 'inv-1', { title: 'Shop' }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(pdfService.delete).toHaveBeenCalledWith('invoices/inv-1/v1.pdf');
+    });
+
+    it('streams a past version', async () => {
+      prisma.invoicePdfVersion.findFirst.mockResolvedValue({
+        key: 'invoices/inv-1/v2.pdf',
+        invoice: { number: 'FA-2026-0001' },
+      });
+      pdfService.open.mockResolvedValue('stream');
+
+      const pdf = await service.getPdfVersion('workspace-1', 'inv-1', 2);
+
+      expect(prisma.invoicePdfVersion.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            invoiceId: 'inv-1',
+            version: 2,
+            invoice: { workspaceId: 'workspace-1' },
+          },
+        }),
+      );
+      expect(pdf).toEqual({ fileName: 'FA-2026-0001-v2.pdf', file: 'stream' });
+    });
+
+    it('deletes the stored renderings with the draft', async () => {
+      prisma.invoice.findFirst.mockResolvedValue(draft);
+      prisma.invoice.delete.mockResolvedValue({
+        ...draft,
+        pdfVersions: [{ key: 'invoices/inv-1/v1.pdf' }],
+      });
+      pdfService.delete.mockResolvedValue(undefined);
+
+      await service.remove('workspace-1', 'inv-1');
+
+      expect(pdfService.delete).toHaveBeenCalledWith('invoices/inv-1/v1.pdf');
+    });
+  });
+
+  describe('getPdf', () => {
+    const stored = {
+      id: 'inv-1',
+      workspaceId: 'workspace-1',
+      number: 'FA/2026/0001',
+      title: 'Website',
+      lines: [],
+      payments: [],
+      creditNotes: [],
+    };
+
+    it('streams the stored file', async () => {
+      prisma.invoice.findFirst.mockResolvedValue({
+        ...stored,
+        pdfKey: 'invoices/inv-1/v1.pdf',
+      });
+      pdfService.open.mockResolvedValue('stream');
+
+      const pdf = await service.getPdf('workspace-1', 'inv-1');
+
+      expect(pdf).toEqual({ fileName: 'FA_2026_0001.pdf', file: 'stream' });
+      expect(pdfService.open).toHaveBeenCalledWith('invoices/inv-1/v1.pdf');
+      expect(pdfService.generate).not.toHaveBeenCalled();
+    });
+
+    it('generates the file first when none is stored', async () => {
+      prisma.invoice.findFirst.mockResolvedValue({ ...stored, pdfKey: null });
+      prisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+      pdfService.generate.mockResolvedValue(storedDocument(1));
+
+      await service.getPdf('workspace-1', 'inv-1');
+
+      expect(pdfService.generate).toHaveBeenCalled();
+      expect(pdfService.open).toHaveBeenCalledWith('invoices/inv-1/v1.pdf');
+    });
+
+    it('refuses signed URLs when the storage cannot sign', async () => {
+      prisma.invoice.findFirst.mockResolvedValue({
+        ...stored,
+        pdfKey: 'invoices/inv-1/v1.pdf',
+      });
+      pdfService.getSignedUrl.mockResolvedValue(null);
+
+      await expect(service.getPdfUrl('workspace-1', 'inv-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  it('records who cancelled an invoice and why', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({
+      id: 'inv-1',
+      status: 'SENT',
+      amountTTC: 0,
+      lines: [],
+      payments: [],
+      creditNotes: [],
+    });
+    prisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.cancel('workspace-1', 'user-1', 'inv-1', {
+      reason: 'Duplicate',
+    });
+
+    expect(prisma.invoice.updateMany).toHaveBeenCalledWith({
+      where: { id: 'inv-1', status: 'SENT' },
+      data: { status: 'CANCELLED' },
+    });
+    expect(prisma.invoiceStatusEvent.create).toHaveBeenCalledWith({
+      data: {
+        invoiceId: 'inv-1',
+        fromStatus: 'SENT',
+        toStatus: 'CANCELLED',
+        actorId: 'user-1',
+        note: 'Duplicate',
+      },
+    });
+  });
+
+  it('records the outstanding balance as a payment when marked paid', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({
+      id: 'inv-1',
+      status: 'OVERDUE',
+      amountTTC: 1200,
+      lines: [],
+      payments: [{ amount: 500 }],
+      creditNotes: [{ amountTTC: 100 }],
+    });
+    prisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.markPaid('workspace-1', 'user-1', 'inv-1', {
+      method: 'CHECK',
+    });
+
+    expect(prisma.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        invoiceId: 'inv-1',
+        amount: 600,
+        method: 'CHECK',
+      }),
+    });
+  });
+
+  it('rejects transitions the lifecycle does not allow', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({ id: 'inv-1', status: 'PAID' });
+
+    await expect(
+      service.cancel('workspace-1', 'user-1', 'inv-1', {}),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.invoice.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('locks financial fields once the invoice is sent', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({ id: 'inv-1', status: 'SENT' });
+
+    await expect(
+      service.update('workspace-1', 'inv-1', {
+        lines: [{ description: 'Dev', quantity: 1, unitPriceHT: 100 }],
+      }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(prisma.invoice.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses clients and projects of another workspace', async () => {
+    prisma.client.findFirst.mockResolvedValue({ paymentTerms: 'NET_30' });
+    prisma.project.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.create('workspace-1', {
+        title: 'Website',
+        clientId: 'client-1',
+        projectId: 'project-2',
+        lines: [{ description: 'Dev', quantity: 1, unitPriceHT: 100 }],
+      }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(prisma.project.findFirst).toHaveBeenCalledWith({
+      where: { id: 'project-2', workspaceId: 'workspace-1' },
+      select: { id: true },
+    });
+
+    prisma.invoice.findFirst.mockResolvedValue({
+      id: 'inv-1',
+      status: 'DRAFT',
+    });
+    prisma.client.findFirst.mockResolvedValue(null);
+    await expect(
+      service.update('workspace-1', 'inv-1', { clientId: 'client-2' }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(prisma.client.findFirst).toHaveBeenLastCalledWith({
+      where: { id: 'client-2', workspaceId: 'workspace-1' },
+      select: { id: true },
+    });
+
+    expect(prisma.invoice.create).not.toHaveBeenCalled();
+    expect(prisma.invoice.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('renders the issued PDF once the number is committed', async () => {
+    const draft = {
+      id: 'inv-1',
+      workspaceId: 'workspace-1',
+      status: 'DRAFT',
+      paymentTerms: 'NET_30',
+      lines: [],
+      payments: [],
+      creditNotes: [],
+    };
+    let inTransaction = false;
+    prisma.$transaction.mockImplementation(
+      async (fn: (tx: typeof prisma) => unknown) => {
+        inTransaction = true;
+        try {
+          return await fn(prisma);
+        } finally {
+          inTransaction = false;
+        }
+      },
+    );
+    prisma.invoice.findFirst.mockResolvedValue(draft);
+    prisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+    prisma.workspace.findUniqueOrThrow.mockResolvedValue({
+      invoiceNumberPattern: 'FA-{YYYY}-{seq:4}',
+    });
+    numberingService.next.mockResolvedValue('FA-2026-0001');
+    prisma.invoice.update.mockResolvedValue({
+      ...draft,
+      status: 'SENT',
+      number: 'FA-2026-0001',
+    });
+    let renderedInTransaction: boolean | undefined;
+    pdfService.generate.mockImplementation(() => {
+      renderedInTransaction = inTransaction;
+      return storedDocument(2);
+    });
+
+    const invoice = await service.send('workspace-1', 'user-1', 'inv-1');
+
+    expect(prisma.invoice.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { number: 'FA-2026-0001', pdfKey: null },
+      }),
+    );
+    expect(renderedInTransaction).toBe(false);
+    expect(invoice.pdfKey).toBe('invoices/inv-1/v2.pdf');
+  });
+
+  it('only issues drafts', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({ id: 'inv-1', status: 'PAID' });
+
+    await expect(
+      service.send('workspace-1', 'user-1', 'inv-1'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.invoice.updateMany).not.toHaveBeenCalled();
+    expect(prisma.invoice.update).not.toHaveBeenCalled();
+  });
+
+  it('flags sent invoices past their due date as overdue', async () => {
+    prisma.invoice.findMany.mockResolvedValue([
+      { id: 'inv-1', workspaceId: 'workspace-1' },
+    ]);
+    prisma.invoice.findFirst.mockResolvedValue({ id: 'inv-1', status: 'SENT' });
+    prisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.markOverdue()).resolves.toBe(1);
+    expect(prisma.invoiceStatusEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        toStatus: 'OVERDUE',
+        actorId: null,
+      }),
+    });
+  });
+
+  it('only deletes drafts', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({ id: 'inv-1', status: 'PAID' });
+
+    await expect(service.remove('workspace-1', 'inv-1')).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    expect(prisma.invoice.delete).not.toHaveBeenCalled();
+  });
 });
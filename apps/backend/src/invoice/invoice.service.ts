@@ -1,87 +1,587 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InvoiceStatus, Prisma } from '@prisma/client';
 import { CreateInvoiceDto } from './dto/create-invoice.dto';
 import { UpdateInvoiceDto } from './dto/update-invoice.dto';
-import { PrismaService } from 'src/prisma/prisma.service';
-import { PdfService } from 'src/pdf/pdf.service';
+import { CancelInvoiceDto } from './dto/cancel-invoice.dto';
+import { PrismaService } from '../prisma/prisma.service';
+import { PdfService } from '../pdf/pdf.service';
+import { DocumentContext } from '../pdf/types/pdf.types';
+import { toFileName } from '../pdf/utils/file-name.util';
+import { NumberingService } from '../numbering/numbering.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+import { MarkPaidDto } from './dto/mark-paid.dto';
+import { PreviewInvoiceDto } from './dto/preview-invoice.dto';
+import { InvoiceOrigin } from './types/invoice.types';
+import {
+  computeBalance,
+  computeTotals,
+  toLineRecords,
+} from './utils/totals.util';
+import {
+  assertTransition,
+  LOCKED_AFTER_ISSUE,
+} from './utils/invoice-status.util';
+import {
+  computeDueDate,
+  computeLatePenalties,
+  getLatePenaltyRate,
+} from './utils/payment-terms.util';
+
+const INVOICE_INCLUDE = {
+  client: true,
+  project: true,
+  lines: { orderBy: { position: 'asc' } },
+  payments: { orderBy: { paidAt: 'asc' } },
+  creditNotes: {
+    select: { id: true, number: true, amountTTC: true, issuedAt: true },
+    orderBy: { issuedAt: 'asc' },
+  },
+} as const;
+
+const PDF_VERSION_SELECT = {
+  version: true,
+  sha256: true,
+  size: true,
+  status: true,
+  createdAt: true,
+} as const;
+
+export type InvoiceWithRelations = Prisma.InvoiceGetPayload<{
+  include: typeof INVOICE_INCLUDE;
+}>;
 
 @Injectable()
 export class InvoiceService {
+  private readonly logger = new Logger(InvoiceService.name);
+
   constructor(
     private prisma: PrismaService,
     private pdfService: PdfService,
+    private numberingService: NumberingService,
+    private businessProfileService: BusinessProfileService,
   ) {}
 
-  async create(userId: string, dto: CreateInvoiceDto) {
-    const tva = dto.tva ?? 20;
-    const amountTTC = dto.amountHT * (1 + tva / 100);
+  async create(
+    workspaceId: string,
+    dto: CreateInvoiceDto,
+    origin: InvoiceOrigin = {},
+  ) {
+    const { lines, dueDate, ...data } = dto;
+    const { amountHT, amountTVA, amountTTC } = computeTotals(lines);
+
+    const client = await this.prisma.client.findFirst({
+      where: { id: dto.clientId, workspaceId },
+      select: { paymentTerms: true },
+    });
+    if (!client) throw new NotFoundException('Client not found');
+    if (dto.projectId) await this.assertProject(workspaceId, dto.projectId);
 
     const invoice = await this.prisma.invoice.create({
       data: {
-        ...dto,
+        ...data,
+        ...origin,
+        paymentTerms: dto.paymentTerms ?? client.paymentTerms,
+        dueDate: dueDate && new Date(dueDate),
+        amountHT,
+        amountTVA,
         amountTTC,
-        tva,
         status: 'DRAFT',
-        userId,
+        workspaceId,
+        lines: { create: toLineRecords(lines) },
       },
+      include: INVOICE_INCLUDE,
     });
 
-    // Générer le PDF et sauvegarder l'URL locale
-    const pdfPath = this.pdfService.generate({
-      id: invoice.id,
-      title: invoice.title,
-      amountHT: invoice.amountHT,
-      amountTTC: invoice.amountTTC,
-      tva: invoice.tva,
+    const pdfKey = await this.renderPdf(invoice);
+    return { ...this.withComputedFields(invoice), pdfKey };
+  }
+
+  async preview(workspaceId: string, dto: PreviewInvoiceDto) {
+    const { lines, template, accentColor, language } = dto;
+
+    const client = await this.prisma.client.findFirst({
+      where: { id: dto.clientId, workspaceId },
     });
+    if (!client) throw new NotFoundException('Client not found');
 
-    // Enregistrer le chemin du PDF
-    await this.prisma.invoice.update({
-      where: { id: invoice.id },
+    const { seller, branding } =
+      await this.businessProfileService.getDocumentContext(workspaceId);
+
+    return this.pdfService.render({
+      kind: 'invoice',
       data: {
-        pdfUrl: pdfPath,
+        id: 'preview',
+        title: dto.title,
+        paymentTerms: dto.paymentTerms ?? client.paymentTerms,
+        dueDate: dto.dueDate ? new Date(dto.dueDate) : null,
+        latePenaltyRate: getLatePenaltyRate(),
+        lines: toLineRecords(lines),
+        ...computeTotals(lines),
+        seller,
+        customer: client,
+        language,
+        branding: {
+          ...branding,
+          ...(template && { template }),
+          ...(accentColor && { accentColor }),
+        },
       },
     });
+  }
+
+  async findAll(workspaceId: string) {
+    const invoices = await this.prisma.invoice.findMany({
+      where: { workspaceId },
+      include: INVOICE_INCLUDE,
+    });
+
+    return invoices.map((invoice) => this.withComputedFields(invoice));
+  }
+
+  async findOne(workspaceId: string, id: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id, workspaceId },
+      include: {
+        ...INVOICE_INCLUDE,
+        statusEvents: { orderBy: { createdAt: 'asc' } },
+        emails: { orderBy: { sentAt: 'asc' } },
+        reminders: { orderBy: { sentAt: 'asc' } },
+        pdfVersions: {
+          select: PDF_VERSION_SELECT,
+          orderBy: { version: 'asc' },
+        },
+      },
+    });
+
+    return invoice && this.withComputedFields(invoice);
+  }
+
+  async update(workspaceId: string, id: string, dto: UpdateInvoiceDto) {
+    const { lines, dueDate, ...data } = dto;
+
+    const invoice = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.invoice.findFirst({
+        where: { id, workspaceId },
+      });
+      if (!existing) throw new NotFoundException('Invoice not found');
+
+      if (existing.status !== 'DRAFT') {
+        const locked = LOCKED_AFTER_ISSUE.filter(
+          (field) => dto[field] !== undefined,
+        );
+        if (locked.length > 0) {
+          throw new ForbiddenException(
+            `${locked.join(', ')} cannot be changed once the invoice is ${existing.status}`,
+          );
+        }
+      }
+      if (dto.clientId) await this.assertClient(workspaceId, dto.clientId);
+      if (dto.projectId) await this.assertProject(workspaceId, dto.projectId);
+
+      const totals = lines && computeTotals(lines);
+      // status guard: fails if the invoice was issued in the meantime
+      const updated = await tx.invoice.updateMany({
+        where: { id, status: existing.status },
+        data: {
+          ...data,
+          ...(totals && {
+            amountHT: totals.amountHT,
+            amountTVA: totals.amountTVA,
+            amountTTC: totals.amountTTC,
+          }),
+          ...(dueDate && { dueDate: new Date(dueDate) }),
+        },
+      });
+      if (updated.count === 0) {
+        throw new ConflictException('Invoice status changed, please retry');
+      }
+
+      // Lines are replaced as a whole so totals always match what is stored
+      if (lines) {
+        await tx.invoiceLine.deleteMany({ where: { invoiceId: id } });
+        await tx.invoiceLine.createMany({
+          data: toLineRecords(lines).map((line) => ({
+            ...line,
+            invoiceId: id,
+          })),
+        });
+      }
+
+      return tx.invoice.findUniqueOrThrow({
+        where: { id },
+        include: INVOICE_INCLUDE,
+      });
+    });
+
+    // Issued documents are frozen: what the client received stays as it was
+    if (invoice.status !== 'DRAFT') return this.withComputedFields(invoice);
+
+    const pdfKey = await this.renderPdf(invoice);
+    return { ...this.withComputedFields(invoice), pdfKey };
+  }
+
+  // Issues a draft: the legal number is taken from the workspace's sequence in
+  // the same transaction that flips the status, so it is gap-free and assigned
+  // once. The sequence row stays locked until the commit, so the PDF is
+  // rendered after it; if that fails, the next download renders it.
+  // `actorId` is the member issuing it, null when automatic.
+  async send(workspaceId: string, actorId: string | null, id: string) {
+    const context =
+      await this.businessProfileService.assertCanIssue(workspaceId);
+
+    const invoice = await this.prisma.$transaction(async (tx) => {
+      const draft = await tx.invoice.findFirst({
+        where: { id, workspaceId },
+      });
+      if (!draft) throw new NotFoundException('Invoice not found');
+      // Issued numbers never change: PAID -> SENT is only for removed payments
+      if (draft.status !== 'DRAFT') {
+        throw new BadRequestException(
+          `A ${draft.status} invoice has already been issued`,
+        );
+      }
 
+      const issuedAt = new Date();
+      await this.transition(tx, workspaceId, id, 'SENT', {
+        actorId,
+        data: {
+          issuedAt,
+          dueDate:
+            draft.dueDate ??
+            computeDueDate(issuedAt, draft.paymentTerms ?? 'NET_30'),
+          latePenaltyRate: getLatePenaltyRate(),
+        },
+      });
+
+      const { invoiceNumberPattern } = await tx.workspace.findUniqueOrThrow({
+        where: { id: workspaceId },
+        select: { invoiceNumberPattern: true },
+      });
+      const number = await this.numberingService.next(
+        tx,
+        workspaceId,
+        'INVOICE',
+        invoiceNumberPattern,
+      );
+
+      // The draft PDF had no number yet: it is never served again
+      return tx.invoice.update({
+        where: { id },
+        data: { number, pdfKey: null },
+        include: INVOICE_INCLUDE,
+      });
+    });
+
+    // This version is the one sent, and the last one: later edits cannot
+    // reach it
+    const pdfKey = await this.renderPdf(invoice, context);
+    return { ...this.withComputedFields(invoice), pdfKey };
+  }
+
+  // Stored PDF, generated first for invoices that have none yet
+  async getPdf(workspaceId: string, id: string) {
+    const { invoice, pdfKey } = await this.ensurePdf(workspaceId, id);
     return {
-      ...invoice,
-      pdfUrl: pdfPath,
+      fileName: toFileName(invoice.number ?? `draft-${invoice.id}`, 'pdf'),
+      file: await this.pdfService.open(pdfKey),
     };
   }
 
-  async findAll(userId: string) {
-    return await this.prisma.invoice.findMany({
-      where: { userId },
-      include: { client: true, project: true },
+  // A past rendering, byte for byte as it was stored
+  async getPdfVersion(workspaceId: string, id: string, version: number) {
+    const pdfVersion = await this.prisma.invoicePdfVersion.findFirst({
+      where: { invoiceId: id, version, invoice: { workspaceId } },
+      include: { invoice: { select: { number: true } } },
+    });
+    if (!pdfVersion) throw new NotFoundException('PDF version not found');
+
+    const name = pdfVersion.invoice.number ?? `draft-${id}`;
+    return {
+      fileName: toFileName(`${name}-v${version}`, 'pdf'),
+      file: await this.pdfService.open(pdfVersion.key),
+    };
+  }
+
+  // Short-lived direct link, when the storage can sign URLs
+  async getPdfUrl(workspaceId: string, id: string) {
+    const { pdfKey } = await this.ensurePdf(workspaceId, id);
+    const signed = await this.pdfService.getSignedUrl(pdfKey);
+    if (!signed) {
+      throw new BadRequestException(
+        'Signed URLs are not available with this storage, download the PDF instead',
+      );
+    }
+    return signed;
+  }
+
+  // Settles the invoice at once: whatever is still due is recorded as a
+  // payment so the ledger always explains the PAID status.
+  async markPaid(
+    workspaceId: string,
+    actorId: string,
+    id: string,
+    dto: MarkPaidDto,
+  ) {
+    await this.prisma.$transaction(async (tx) => {
+      const invoice = await tx.invoice.findFirst({
+        where: { id, workspaceId },
+        include: INVOICE_INCLUDE,
+      });
+      if (!invoice) throw new NotFoundException('Invoice not found');
+
+      await this.transition(tx, workspaceId, id, 'PAID', { actorId });
+
+      const { balanceDue } = computeBalance(invoice);
+      if (balanceDue > 0) {
+        await tx.payment.create({
+          data: {
+            invoiceId: id,
+            amount: balanceDue,
+            paidAt: dto.paidAt ? new Date(dto.paidAt) : new Date(),
+            method: dto.method,
+            reference: dto.reference,
+            note: dto.note,
+          },
+        });
+      }
+    });
+    return this.findOne(workspaceId, id);
+  }
+
+  async cancel(
+    workspaceId: string,
+    actorId: string,
+    id: string,
+    dto: CancelInvoiceDto,
+  ) {
+    await this.prisma.$transaction((tx) =>
+      this.transition(tx, workspaceId, id, 'CANCELLED', {
+        actorId,
+        note: dto.reason,
+      }),
+    );
+    return this.findOne(workspaceId, id);
+  }
+
+  // Run by InvoiceScheduler: sent invoices past their due date become OVERDUE
+  async markOverdue(now = new Date()) {
+    const late = await this.prisma.invoice.findMany({
+      where: { status: 'SENT', dueDate: { lt: now } },
+      select: { id: true, workspaceId: true },
     });
+
+    let count = 0;
+    for (const invoice of late) {
+      try {
+        await this.prisma.$transaction((tx) =>
+          this.transition(tx, invoice.workspaceId, invoice.id, 'OVERDUE', {
+            actorId: null,
+            note: 'Due date passed',
+          }),
+        );
+        count++;
+      } catch (error) {
+        // e.g. paid in the meantime: the next run will see the new status
+        this.logger.warn(`Could not mark invoice ${invoice.id} overdue`, error);
+      }
+    }
+
+    return count;
   }
 
-  async findOne(userId: string, id: string) {
-    return await this.prisma.invoice.findFirst({
-      where: { id, userId },
-      include: { client: true, project: true },
+  async remove(workspaceId: string, id: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id, workspaceId },
+    });
+
+    if (!invoice) throw new NotFoundException('Invoice not found');
+    if (invoice.status !== 'DRAFT') {
+      throw new ForbiddenException(
+        'Only draft invoices can be deleted, cancel it instead',
+      );
+    }
+
+    const { pdfVersions, ...deleted } = await this.prisma.invoice.delete({
+      where: { id, status: 'DRAFT' },
+      include: { pdfVersions: { select: { key: true } } },
+    });
+
+    // Draft renderings prove nothing once the draft is gone
+    for (const { key } of pdfVersions) {
+      await this.pdfService.delete(key).catch((error) => {
+        this.logger.warn(`Could not delete stored PDF ${key}`, error);
+      });
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Moves an invoice to `to` if the lifecycle allows it and records who did
+   * it. The update is guarded on the status read, so two concurrent
+   * transitions cannot both succeed.
+   */
+  async transition(
+    tx: Prisma.TransactionClient,
+    workspaceId: string,
+    id: string,
+    to: InvoiceStatus,
+    options: {
+      actorId: string | null;
+      note?: string;
+      data?: Prisma.InvoiceUpdateManyMutationInput;
+    },
+  ) {
+    const invoice = await tx.invoice.findFirst({ where: { id, workspaceId } });
+    if (!invoice) throw new NotFoundException('Invoice not found');
+
+    assertTransition(invoice.status, to);
+
+    const updated = await tx.invoice.updateMany({
+      where: { id, status: invoice.status },
+      data: { ...options.data, status: to },
+    });
+    if (updated.count === 0) {
+      throw new ConflictException('Invoice status changed, please retry');
+    }
+
+    await tx.invoiceStatusEvent.create({
+      data: {
+        invoiceId: id,
+        fromStatus: invoice.status,
+        toStatus: to,
+        actorId: options.actorId,
+        note: options.note,
+      },
     });
+
+    return invoice;
   }
 
-  async update(userId: string, id: string, dto: UpdateInvoiceDto) {
-    const updateData: Partial<UpdateInvoiceDto> & { amountTTC?: number } = {
-      ...dto,
+  private async ensurePdf(workspaceId: string, id: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id, workspaceId },
+      include: INVOICE_INCLUDE,
+    });
+    if (!invoice) throw new NotFoundException('Invoice not found');
+
+    return {
+      invoice,
+      pdfKey: invoice.pdfKey ?? (await this.renderPdf(invoice)),
     };
+  }
 
-    if (dto.amountHT !== undefined) {
-      const tva = dto.tva ?? 20;
-      updateData.amountTTC = dto.amountHT * (1 + tva / 100);
+  // Stores the PDF of the invoice as it is now as a new version, which
+  // becomes the current one. The file is written before the short transaction
+  // recording it, and removed again if that fails.
+  private async renderPdf(
+    invoice: InvoiceWithRelations,
+    context?: DocumentContext,
+  ): Promise<string> {
+    const last = await this.prisma.invoicePdfVersion.findFirst({
+      where: { invoiceId: invoice.id },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    const version = (last?.version ?? 0) + 1;
+
+    const document = await this.pdfService.generate(
+      {
+        id: invoice.id,
+        number: invoice.number,
+        issuedAt: invoice.issuedAt,
+        dueDate: invoice.dueDate,
+        paymentTerms: invoice.paymentTerms,
+        latePenaltyRate: invoice.latePenaltyRate,
+        ...(context ??
+          (await this.businessProfileService.getDocumentContext(
+            invoice.workspaceId,
+          ))),
+        customer: invoice.client,
+        title: invoice.title,
+        lines: invoice.lines,
+        vatBreakdown: computeTotals(invoice.lines).vatBreakdown,
+        amountHT: invoice.amountHT,
+        amountTVA: invoice.amountTVA,
+        amountTTC: invoice.amountTTC,
+      },
+      version,
+    );
+
+    // The unique version guards against two renderings racing each other,
+    // the status guard against a draft rendering landing after the issue
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.invoicePdfVersion.create({
+          data: {
+            invoiceId: invoice.id,
+            version,
+            key: document.key,
+            sha256: document.sha256,
+            size: document.size,
+            status: invoice.status,
+          },
+        });
+        const updated = await tx.invoice.updateMany({
+          where: { id: invoice.id, status: invoice.status },
+          data: { pdfKey: document.key },
+        });
+        if (updated.count === 0) {
+          throw new ConflictException('Invoice status changed, please retry');
+        }
+      });
+    } catch (error) {
+      await this.pdfService.delete(document.key).catch((cleanupError) => {
+        this.logger.warn(
+          `Could not delete stored PDF ${document.key}`,
+          cleanupError,
+        );
+      });
+      throw error;
     }
 
-    return await this.prisma.invoice.update({
-      where: { id, userId },
-      data: updateData,
-      include: { client: true, project: true },
+    return document.key;
+  }
+
+  // Derived amounts are never stored, so they cannot drift from the data
+  private withComputedFields<T extends InvoiceWithRelations>(invoice: T) {
+    const balance = computeBalance(invoice);
+
+    return {
+      ...invoice,
+      vatBreakdown: computeTotals(invoice.lines).vatBreakdown,
+      ...balance,
+      latePenalties:
+        invoice.status === 'OVERDUE' && invoice.dueDate
+          ? computeLatePenalties(
+              balance.balanceDue,
+              invoice.dueDate,
+              invoice.latePenaltyRate ?? getLatePenaltyRate(),
+            )
+          : null,
+    };
+  }
+
+  private async assertClient(workspaceId: string, clientId: string) {
+    const client = await this.prisma.client.findFirst({
+      where: { id: clientId, workspaceId },
+      select: { id: true },
     });
+    if (!client) throw new NotFoundException('Client not found');
   }
 
-  async remove(userId: string, id: string) {
-    return await this.prisma.invoice.delete({
-      where: { id, userId },
+  private async assertProject(workspaceId: string, projectId: string) {
+    const project = await this.prisma.project.findFirst({
+      where: { id: projectId, workspaceId },
+      select: { id: true },
     });
+    if (!project) throw new NotFoundException('Project not found');
   }
 }
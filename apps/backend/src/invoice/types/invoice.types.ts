@@ -0,0 +1,34 @@
+export interface LineItem {
+  description: string;
+  quantity: number;
+  unit?: string | null;
+  unitPriceHT: number;
+  vatRate?: number;
+  discount?: number;
+}
+
+export interface VatSubtotal {
+  rate: number; // %
+  baseHT: number;
+  amountTVA: number;
+}
+
+export interface DocumentTotals {
+  amountHT: number;
+  amountTVA: number;
+  amountTTC: number;
+  vatBreakdown: VatSubtotal[];
+}
+
+export interface InvoiceBalance {
+  amountPaid: number;
+  amountCredited: number;
+  balanceDue: number;
+}
+
+// Where an invoice comes from when it is not created by hand
+export interface InvoiceOrigin {
+  quoteId?: string;
+  recurringInvoiceId?: string;
+  recurringRunDate?: Date; // unique per schedule, so an occurrence is billed once
+}
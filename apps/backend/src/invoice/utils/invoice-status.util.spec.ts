@@ -0,0 +1,20 @@
+import { BadRequestException } from '@nestjs/common';
+import { assertTransition, canTransition } from './invoice-status.util';
+
+describe('invoice-status.util', () => {
+  it('follows the invoice lifecycle', () => {
+    expect(canTransition('DRAFT', 'SENT')).toBe(true);
+    expect(canTransition('SENT', 'PAID')).toBe(true);
+    expect(canTransition('OVERDUE', 'PAID')).toBe(true);
+    expect(canTransition('SENT', 'CANCELLED')).toBe(true);
+  });
+
+  it('rejects skipping or reversing steps', () => {
+    expect(canTransition('DRAFT', 'PAID')).toBe(false);
+    expect(canTransition('PAID', 'DRAFT')).toBe(false);
+    expect(canTransition('CANCELLED', 'SENT')).toBe(false);
+    expect(() => assertTransition('PAID', 'CANCELLED')).toThrow(
+      BadRequestException,
+    );
+  });
+});
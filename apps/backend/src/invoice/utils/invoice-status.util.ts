@@ -0,0 +1,40 @@
+import { BadRequestException } from '@nestjs/common';
+import { InvoiceStatus } from '@prisma/client';
+
+// Allowed moves of the invoice lifecycle; anything else is rejected
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  DRAFT: ['SENT', 'CANCELLED'],
+  SENT: ['PAID', 'OVERDUE', 'CANCELLED', 'CREDITED'],
+  OVERDUE: ['PAID', 'CANCELLED', 'CREDITED'],
+  PAID: ['SENT', 'OVERDUE', 'CREDITED'], // back when a payment is removed
+  CANCELLED: [],
+  CREDITED: [], // reached only through credit notes
+};
+
+// Invoices that count as revenue: issued and not cancelled. Credited ones
+// still count, their credit notes are deducted instead.
+export const ISSUED_STATUSES: InvoiceStatus[] = [
+  'SENT',
+  'OVERDUE',
+  'PAID',
+  'CREDITED',
+];
+
+export function canTransition(from: InvoiceStatus, to: InvoiceStatus) {
+  return INVOICE_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: InvoiceStatus, to: InvoiceStatus) {
+  if (!canTransition(from, to)) {
+    throw new BadRequestException(`Invoice cannot go from ${from} to ${to}`);
+  }
+}
+
+// Once issued, these fields are part of the legal document
+export const LOCKED_AFTER_ISSUE = [
+  'clientId',
+  'projectId',
+  'lines',
+  'paymentTerms',
+  'dueDate',
+] as const;
@@ -0,0 +1,72 @@
+import { Logger } from '@nestjs/common';
+import {
+  computeDueDate,
+  computeLatePenalties,
+  getLatePenaltyRate,
+  RECOVERY_INDEMNITY,
+} from './payment-terms.util';
+
+describe('payment-terms.util', () => {
+  const issueDate = new Date(2026, 0, 10, 9, 0);
+
+  it('adds net days', () => {
+    expect(computeDueDate(issueDate, 'NET_30')).toEqual(
+      new Date(2026, 1, 9, 9, 0),
+    );
+    expect(computeDueDate(issueDate, 'ON_RECEIPT')).toEqual(issueDate);
+  });
+
+  it('moves "fin de mois" terms to the end of the month', () => {
+    expect(computeDueDate(issueDate, 'END_OF_MONTH_30')).toEqual(
+      new Date(2026, 1, 28, 23, 59, 59, 999),
+    );
+    expect(computeDueDate(issueDate, 'END_OF_MONTH_45')).toEqual(
+      new Date(2026, 1, 28, 23, 59, 59, 999),
+    );
+  });
+
+  it('computes interest on the balance and the fixed indemnity', () => {
+    const dueDate = new Date(2026, 0, 1);
+    const now = new Date(2026, 2, 2); // 60 days later
+
+    expect(computeLatePenalties(1000, dueDate, 12, now)).toEqual({
+      daysLate: 60,
+      penalties: 19.73,
+      recoveryIndemnity: RECOVERY_INDEMNITY,
+    });
+  });
+
+  it('owes nothing before the due date or once paid', () => {
+    const dueDate = new Date(2026, 0, 1);
+
+    expect(
+      computeLatePenalties(1000, dueDate, 12, new Date(2025, 11, 20)),
+    ).toMatchObject({ penalties: 0, recoveryIndemnity: 0 });
+    expect(
+      computeLatePenalties(0, dueDate, 12, new Date(2026, 2, 2)),
+    ).toMatchObject({ penalties: 0, recoveryIndemnity: 0 });
+  });
+
+  it('falls back to the usual rate when LATE_PENALTY_RATE is not a positive rate', () => {
+    const rate = process.env.LATE_PENALTY_RATE;
+    const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    try {
+      process.env.LATE_PENALTY_RATE = '12.5';
+      expect(getLatePenaltyRate()).toBe(12.5);
+
+      delete process.env.LATE_PENALTY_RATE;
+      expect(getLatePenaltyRate()).toBe(10);
+      expect(warn).not.toHaveBeenCalled();
+
+      for (const value of ['10 %', '-5', '0', 'Infinity']) {
+        process.env.LATE_PENALTY_RATE = value;
+        expect(getLatePenaltyRate()).toBe(10);
+      }
+      expect(warn).toHaveBeenCalledTimes(4);
+    } finally {
+      warn.mockRestore();
+      if (rate === undefined) delete process.env.LATE_PENALTY_RATE;
+      else process.env.LATE_PENALTY_RATE = rate;
+    }
+  });
+});
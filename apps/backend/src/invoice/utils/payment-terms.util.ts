@@ -0,0 +1,80 @@
+import { Logger } from '@nestjs/common';
+import { PaymentTerms } from '@prisma/client';
+import { roundAmount } from './totals.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fixed indemnity owed by professional debtors for any late payment
+// (articles L441-10 and D441-5 of the Code de commerce)
+export const RECOVERY_INDEMNITY = 40;
+
+const DEFAULT_LATE_PENALTY_RATE = 10;
+
+const logger = new Logger('PaymentTerms');
+
+// Annual rate of late payment interest (LATE_PENALTY_RATE). French law sets a
+// floor of three times the legal interest rate; ECB rate + 10 points is usual.
+export function getLatePenaltyRate(): number {
+  const value = process.env.LATE_PENALTY_RATE;
+  if (!value) return DEFAULT_LATE_PENALTY_RATE;
+
+  const rate = Number(value);
+  if (!Number.isFinite(rate) || rate <= 0) {
+    logger.warn(
+      `LATE_PENALTY_RATE "${value}" is not a positive rate, using ${DEFAULT_LATE_PENALTY_RATE}`,
+    );
+    return DEFAULT_LATE_PENALTY_RATE;
+  }
+  return rate;
+}
+
+const NET_DAYS: Record<PaymentTerms, number> = {
+  ON_RECEIPT: 0,
+  NET_15: 15,
+  NET_30: 30,
+  NET_45: 45,
+  NET_60: 60,
+  END_OF_MONTH_30: 30,
+  END_OF_MONTH_45: 45,
+};
+
+// "X jours fin de mois": add X days, then move to the end of that month
+export function computeDueDate(issueDate: Date, terms: PaymentTerms): Date {
+  const dueDate = new Date(issueDate.getTime() + NET_DAYS[terms] * DAY_MS);
+
+  if (terms === 'END_OF_MONTH_30' || terms === 'END_OF_MONTH_45') {
+    return new Date(
+      dueDate.getFullYear(),
+      dueDate.getMonth() + 1,
+      0,
+      23,
+      59,
+      59,
+      999,
+    );
+  }
+
+  return dueDate;
+}
+
+export function computeLatePenalties(
+  balanceDue: number,
+  dueDate: Date,
+  annualRate: number,
+  now = new Date(),
+) {
+  const daysLate = Math.max(
+    0,
+    Math.floor((now.getTime() - dueDate.getTime()) / DAY_MS),
+  );
+
+  if (daysLate === 0 || balanceDue <= 0) {
+    return { daysLate, penalties: 0, recoveryIndemnity: 0 };
+  }
+
+  return {
+    daysLate,
+    penalties: roundAmount((balanceDue * annualRate * daysLate) / 100 / 365),
+    recoveryIndemnity: RECOVERY_INDEMNITY,
+  };
+}
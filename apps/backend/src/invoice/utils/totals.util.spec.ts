@@ -0,0 +1,45 @@
+import { computeLineTotalHT, computeTotals } from './totals.util';
+
+describe('totals.util', () => {
+  it('applies the line discount to quantity * unit price', () => {
+    expect(
+      computeLineTotalHT({
+        description: 'Design',
+        quantity: 3,
+        unitPriceHT: 450,
+        discount: 10,
+      }),
+    ).toBe(1215);
+  });
+
+  it('groups VAT by rate and computes invoice totals', () => {
+    const totals = computeTotals([
+      { description: 'Dev', quantity: 2, unitPriceHT: 500, vatRate: 20 },
+      { description: 'Training', quantity: 1, unitPriceHT: 300, vatRate: 10 },
+      { description: 'Books', quantity: 3, unitPriceHT: 19.99, vatRate: 5.5 },
+      { description: 'Hosting', quantity: 1, unitPriceHT: 100, vatRate: 20 },
+      { description: 'Export', quantity: 1, unitPriceHT: 80, vatRate: 0 },
+    ]);
+
+    expect(totals.vatBreakdown).toEqual([
+      { rate: 20, baseHT: 1100, amountTVA: 220 },
+      { rate: 10, baseHT: 300, amountTVA: 30 },
+      { rate: 5.5, baseHT: 59.97, amountTVA: 3.3 },
+      { rate: 0, baseHT: 80, amountTVA: 0 },
+    ]);
+    expect(totals.amountHT).toBe(1539.97);
+    expect(totals.amountTVA).toBe(253.3);
+    expect(totals.amountTTC).toBe(1793.27);
+  });
+
+  it('defaults to 20% VAT when no rate is given', () => {
+    const totals = computeTotals([
+      { description: 'Consulting', quantity: 1, unitPriceHT: 100 },
+    ]);
+
+    expect(totals.vatBreakdown).toEqual([
+      { rate: 20, baseHT: 100, amountTVA: 20 },
+    ]);
+    expect(totals.amountTTC).toBe(120);
+  });
+});
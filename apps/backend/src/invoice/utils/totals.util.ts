@@ -0,0 +1,84 @@
+import {
+  DocumentTotals,
+  InvoiceBalance,
+  LineItem,
+  VatSubtotal,
+} from '../types/invoice.types';
+
+export const DEFAULT_VAT_RATE = 20;
+
+export function roundAmount(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function computeLineTotalHT(line: LineItem): number {
+  const discount = line.discount ?? 0;
+  return roundAmount(line.quantity * line.unitPriceHT * (1 - discount / 100));
+}
+
+// VAT is computed once per rate on the summed base, as shown on French
+// invoices, rather than line by line (avoids cumulative rounding drift).
+export function computeTotals(lines: LineItem[]): DocumentTotals {
+  const bases = new Map<number, number>();
+
+  for (const line of lines) {
+    const rate = line.vatRate ?? DEFAULT_VAT_RATE;
+    bases.set(rate, (bases.get(rate) ?? 0) + computeLineTotalHT(line));
+  }
+
+  const vatBreakdown: VatSubtotal[] = [...bases.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([rate, base]) => ({
+      rate,
+      baseHT: roundAmount(base),
+      amountTVA: roundAmount((base * rate) / 100),
+    }));
+
+  const amountHT = roundAmount(
+    vatBreakdown.reduce((sum, vat) => sum + vat.baseHT, 0),
+  );
+  const amountTVA = roundAmount(
+    vatBreakdown.reduce((sum, vat) => sum + vat.amountTVA, 0),
+  );
+
+  return {
+    amountHT,
+    amountTVA,
+    amountTTC: roundAmount(amountHT + amountTVA),
+    vatBreakdown,
+  };
+}
+
+// Shapes DTO lines into rows ready for a nested Prisma `create`.
+export function toLineRecords(lines: LineItem[]) {
+  return lines.map((line, position) => ({
+    position,
+    description: line.description,
+    quantity: line.quantity,
+    unit: line.unit,
+    unitPriceHT: line.unitPriceHT,
+    vatRate: line.vatRate ?? DEFAULT_VAT_RATE,
+    discount: line.discount ?? 0,
+    totalHT: computeLineTotalHT(line),
+  }));
+}
+
+// What the client still owes once payments and credit notes are deducted
+export function computeBalance(invoice: {
+  amountTTC: number;
+  payments: { amount: number }[];
+  creditNotes: { amountTTC: number }[];
+}): InvoiceBalance {
+  const amountPaid = roundAmount(
+    invoice.payments.reduce((sum, payment) => sum + payment.amount, 0),
+  );
+  const amountCredited = roundAmount(
+    invoice.creditNotes.reduce((sum, note) => sum + note.amountTTC, 0),
+  );
+
+  return {
+    amountPaid,
+    amountCredited,
+    balanceDue: roundAmount(invoice.amountTTC - amountCredited - amountPaid),
+  };
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { MailService } from './mail.service';
+import { createMailTransport, MAIL_TRANSPORT } from './mail.transport';
+
+@Module({
+  providers: [
+    MailService,
+    { provide: MAIL_TRANSPORT, useFactory: createMailTransport },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
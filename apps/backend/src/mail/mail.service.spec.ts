@@ -0,0 +1,46 @@
+import { createTransport } from 'nodemailer';
+import { Readable } from 'stream';
+import { MailService } from './mail.service';
+
+describe('MailService', () => {
+  // Builds the MIME message without any server
+  const transport = createTransport({ streamTransport: true, buffer: true });
+  const service = new MailService(transport);
+
+  it('sends from the platform address under the sender name', async () => {
+    const sendMail = jest.spyOn(transport, 'sendMail');
+
+    await service.send({
+      senderName: 'Doe & Co',
+      replyTo: 'jane@example.com',
+      to: ['john@acme.test'],
+      cc: ['accounting@acme.test'],
+      bcc: ['archive@example.com'],
+      subject: 'Invoice FA-2026-0001',
+      text: 'Hello',
+      html: '<p>Hello</p>',
+      attachments: [
+        {
+          filename: 'FA-2026-0001.pdf',
+          content: Readable.from([Buffer.from('%PDF-')]),
+          contentType: 'application/pdf',
+        },
+      ],
+    });
+
+    const info = (await sendMail.mock.results[0].value) as {
+      envelope: { from: string; to: string[] };
+      message: Buffer;
+    };
+    const message = info.message.toString();
+
+    expect(info.envelope).toEqual({
+      from: 'no-reply@nimbuslance.local',
+      to: ['john@acme.test', 'accounting@acme.test', 'archive@example.com'],
+    });
+    expect(message).toContain('From: "Doe & Co" <no-reply@nimbuslance.local>');
+    expect(message).toContain('Reply-To: jane@example.com');
+    expect(message).toContain('Cc: accounting@acme.test');
+    expect(message).toContain('filename=FA-2026-0001.pdf');
+  });
+});
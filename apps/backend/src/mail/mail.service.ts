@@ -0,0 +1,40 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import { MAIL_TRANSPORT, MailTransport } from './mail.transport';
+
+// Address every email is sent from; the user's name is shown instead of it
+const MAIL_FROM = process.env.MAIL_FROM ?? 'no-reply@nimbuslance.local';
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer | Readable;
+  contentType: string;
+}
+
+export interface MailMessage {
+  senderName: string;
+  replyTo?: string | null;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+}
+
+@Injectable()
+export class MailService {
+  constructor(@Inject(MAIL_TRANSPORT) private transport: MailTransport) {}
+
+  // Resolves with the message id once the SMTP server accepted the email
+  async send(message: MailMessage): Promise<string> {
+    const { senderName, replyTo, ...mail } = message;
+    const info = await this.transport.sendMail({
+      ...mail,
+      from: { name: senderName, address: MAIL_FROM },
+      replyTo: replyTo ?? undefined,
+    });
+    return info.messageId;
+  }
+}
@@ -0,0 +1,19 @@
+import { createTransport, Transporter } from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export type MailTransport = Transporter<SMTPTransport.SentMessageInfo>;
+
+// SMTP server from the environment; the defaults match a local catcher such
+// as Mailpit (docker/docker-compose.yml)
+export function createMailTransport(): MailTransport {
+  return createTransport({
+    host: process.env.SMTP_HOST ?? 'localhost',
+    port: Number(process.env.SMTP_PORT ?? 1025),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+}
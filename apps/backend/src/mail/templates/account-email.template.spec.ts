@@ -0,0 +1,32 @@
+import {
+  renderLockoutEmail,
+  renderPasswordResetEmail,
+  renderVerificationEmail,
+} from './account-email.template';
+
+describe('account emails', () => {
+  it('carry the link and how long it is valid', () => {
+    const verification = renderVerificationEmail(
+      'http://app.test/verify-email?token=abc',
+    );
+    const reset = renderPasswordResetEmail(
+      'http://app.test/reset-password?token=def',
+      60,
+    );
+
+    expect(verification.text).toContain(
+      'http://app.test/verify-email?token=abc',
+    );
+    expect(reset.subject).toBe('Reset your password');
+    expect(reset.text).toContain('within 60 minutes');
+    expect(reset.html).toContain('http://app.test/reset-password?token=def');
+  });
+
+  it('tell the owner how long the lockout lasts and where it came from', () => {
+    const email = renderLockoutEmail(15, '203.0.113.7');
+
+    expect(email.subject).toBe('Your account was locked');
+    expect(email.text).toContain('from the IP address 203.0.113.7');
+    expect(email.text).toContain('locked for 15 minutes');
+  });
+});
@@ -0,0 +1,34 @@
+import { RenderedEmail, toEmail } from './email.util';
+
+// Emails about the NimbusLance account itself, in the language of the app
+export const ACCOUNT_SENDER_NAME = 'NimbusLance';
+
+export function renderVerificationEmail(link: string): RenderedEmail {
+  return toEmail('Confirm your email address', [
+    'Hello,',
+    `Welcome to NimbusLance! Please confirm your email address by opening this link:\n${link}`,
+    'If you did not create an account, you can ignore this email.',
+  ]);
+}
+
+export function renderPasswordResetEmail(
+  link: string,
+  validMinutes: number,
+): RenderedEmail {
+  return toEmail('Reset your password', [
+    'Hello,',
+    `A password reset was requested for your account. Choose a new password within ${validMinutes} minutes by opening this link:\n${link}`,
+    'If you did not request it, you can ignore this email: your password stays the same.',
+  ]);
+}
+
+export function renderLockoutEmail(
+  lockedMinutes: number,
+  ip?: string,
+): RenderedEmail {
+  return toEmail('Your account was locked', [
+    'Hello,',
+    `After several failed sign-in attempts${ip ? ` from the IP address ${ip}` : ''}, your account is locked for ${lockedMinutes} minutes.`,
+    'If these attempts were not yours, someone may be guessing your password: choose a new one with "Forgot password" and enable two-factor authentication.',
+  ]);
+}
@@ -0,0 +1,34 @@
+import { renderDocumentEmail } from './document-email.template';
+
+describe('renderDocumentEmail', () => {
+  const data = {
+    kind: 'invoice' as const,
+    number: 'FA-2026-0001',
+    customerName: 'John <Smith>',
+    senderName: 'Doe & Co',
+    amountTTC: 1200,
+    deadline: new Date('2026-11-18T10:00:00Z'),
+  };
+
+  it('writes the email in the language of the client', () => {
+    const fr = renderDocumentEmail(data, 'FR');
+    const en = renderDocumentEmail({ ...data, kind: 'quote' }, 'EN');
+
+    expect(fr.subject).toBe('Facture FA-2026-0001 - Doe & Co');
+    expect(fr.text).toContain('à régler avant le 18 novembre 2026');
+    expect(en.subject).toBe('Quote FA-2026-0001 - Doe & Co');
+    expect(en.text).toContain('valid until 18 November 2026');
+  });
+
+  it('adds the message and escapes the HTML body', () => {
+    const email = renderDocumentEmail(
+      { ...data, message: 'Thanks!\nSee you soon' },
+      'EN',
+    );
+
+    expect(email.text).toContain('\n\nThanks!\nSee you soon\n\n');
+    expect(email.html).toContain('<p>Hello John &lt;Smith&gt;,</p>');
+    expect(email.html).toContain('<p>Thanks!<br>See you soon</p>');
+    expect(email.html).toContain('<p>Kind regards,<br>Doe &amp; Co</p>');
+  });
+});
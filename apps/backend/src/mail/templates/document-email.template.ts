@@ -0,0 +1,82 @@
+import { Language } from '@prisma/client';
+import { createFormatter } from '../../pdf/utils/format.util';
+import { RenderedEmail, toEmail } from './email.util';
+
+export type EmailedDocumentKind = 'invoice' | 'quote';
+
+export interface DocumentEmailData {
+  kind: EmailedDocumentKind;
+  number: string;
+  customerName: string;
+  senderName: string;
+  amountTTC: number;
+  deadline?: Date | null; // due date of an invoice, end of validity of a quote
+  message?: string; // free text from the sender
+}
+
+interface DocumentEmailTexts {
+  subject: Record<
+    EmailedDocumentKind,
+    (number: string, sender: string) => string
+  >;
+  greeting: (name: string) => string;
+  body: Record<
+    EmailedDocumentKind,
+    (number: string, amount: string, deadline: string | null) => string
+  >;
+  closing: string;
+}
+
+const TEXTS: Record<Language, DocumentEmailTexts> = {
+  FR: {
+    subject: {
+      invoice: (number, sender) => `Facture ${number} - ${sender}`,
+      quote: (number, sender) => `Devis ${number} - ${sender}`,
+    },
+    greeting: (name) => `Bonjour ${name},`,
+    body: {
+      invoice: (number, amount, deadline) =>
+        `Veuillez trouver ci-joint la facture ${number} d'un montant de ${amount}` +
+        (deadline ? `, à régler avant le ${deadline}.` : '.'),
+      quote: (number, amount, deadline) =>
+        `Veuillez trouver ci-joint le devis ${number} d'un montant de ${amount}` +
+        (deadline ? `, valable jusqu'au ${deadline}.` : '.'),
+    },
+    closing: 'Cordialement,',
+  },
+  EN: {
+    subject: {
+      invoice: (number, sender) => `Invoice ${number} - ${sender}`,
+      quote: (number, sender) => `Quote ${number} - ${sender}`,
+    },
+    greeting: (name) => `Hello ${name},`,
+    body: {
+      invoice: (number, amount, deadline) =>
+        `Please find attached invoice ${number} for ${amount}` +
+        (deadline ? `, due by ${deadline}.` : '.'),
+      quote: (number, amount, deadline) =>
+        `Please find attached quote ${number} for ${amount}` +
+        (deadline ? `, valid until ${deadline}.` : '.'),
+    },
+    closing: 'Kind regards,',
+  },
+};
+
+export function renderDocumentEmail(
+  data: DocumentEmailData,
+  language: Language,
+): RenderedEmail {
+  const texts = TEXTS[language];
+  const format = createFormatter(language);
+
+  return toEmail(texts.subject[data.kind](data.number, data.senderName), [
+    texts.greeting(data.customerName),
+    texts.body[data.kind](
+      data.number,
+      format.amount(data.amountTTC),
+      data.deadline ? format.date(data.deadline) : null,
+    ),
+    data.message,
+    `${texts.closing}\n${data.senderName}`,
+  ]);
+}
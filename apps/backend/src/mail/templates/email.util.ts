@@ -0,0 +1,32 @@
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Plain text and HTML bodies carry the same paragraphs; empty ones are dropped
+export function toEmail(
+  subject: string,
+  paragraphs: (string | null | undefined)[],
+): RenderedEmail {
+  const kept = paragraphs.filter(
+    (paragraph): paragraph is string => !!paragraph,
+  );
+
+  return {
+    subject,
+    text: kept.join('\n\n'),
+    html: kept
+      .map(
+        (paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`,
+      )
+      .join('\n'),
+  };
+}
@@ -0,0 +1,42 @@
+import { renderReminderEmail } from './reminder-email.template';
+
+describe('renderReminderEmail', () => {
+  const data = {
+    tone: 'REMINDER' as const,
+    number: 'FA-2026-0001',
+    customerName: 'John Smith',
+    senderName: 'Doe & Co',
+    balanceDue: 1200,
+    dueDate: new Date('2026-10-01T10:00:00Z'),
+    daysLate: 7,
+  };
+
+  it('writes the email of the tone in the language of the client', () => {
+    const fr = renderReminderEmail(data, 'FR');
+    const en = renderReminderEmail(
+      { ...data, tone: 'FORMAL_NOTICE', daysLate: 30 },
+      'EN',
+    );
+
+    expect(fr.subject).toBe('Relance - Facture FA-2026-0001');
+    expect(fr.text).toContain('échue le 1 octobre 2026 reste impayée');
+    expect(en.subject).toBe('Formal notice to pay - Invoice FA-2026-0001');
+    expect(en.text).toContain('fixed recovery indemnity of');
+  });
+
+  it('fills the placeholders of custom texts', () => {
+    const email = renderReminderEmail(
+      {
+        ...data,
+        subject: 'Invoice {number}: {daysLate} days late',
+        body: '{client}, please pay {amount}. {unknown}',
+      },
+      'EN',
+    );
+
+    expect(email.subject).toBe('Invoice FA-2026-0001: 7 days late');
+    expect(email.text).toMatch(
+      /John Smith, please pay .*1,200\.00.* \{unknown\}/,
+    );
+  });
+});
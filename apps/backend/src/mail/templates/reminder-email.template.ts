@@ -0,0 +1,123 @@
+import { Language, ReminderTone } from '@prisma/client';
+import { createFormatter } from '../../pdf/utils/format.util';
+import { RECOVERY_INDEMNITY } from '../../invoice/utils/payment-terms.util';
+import { RenderedEmail, toEmail } from './email.util';
+
+export interface ReminderEmailData {
+  tone: ReminderTone;
+  number: string;
+  customerName: string;
+  senderName: string;
+  balanceDue: number;
+  dueDate: Date;
+  daysLate: number; // negative before the due date
+  // Custom texts of the step, which can use {number}, {amount}, {dueDate},
+  // {daysLate}, {client} and {sender}
+  subject?: string | null;
+  body?: string | null;
+}
+
+interface ReminderValues {
+  number: string;
+  amount: string;
+  dueDate: string;
+  daysLate: string;
+  indemnity: string;
+}
+
+interface ReminderTexts {
+  subject: Record<ReminderTone, (values: ReminderValues) => string>;
+  body: Record<ReminderTone, (values: ReminderValues) => string>;
+  greeting: (name: string) => string;
+  closing: string;
+}
+
+const TEXTS: Record<Language, ReminderTexts> = {
+  FR: {
+    subject: {
+      COURTESY: (v) => `Échéance prochaine de la facture ${v.number}`,
+      REMINDER: (v) => `Relance - Facture ${v.number}`,
+      FIRM: (v) => `Seconde relance - Facture ${v.number} impayée`,
+      FORMAL_NOTICE: (v) => `Mise en demeure de payer - Facture ${v.number}`,
+    },
+    body: {
+      COURTESY: (v) =>
+        `Pour rappel, la facture ${v.number} d'un montant de ${v.amount} arrive à échéance le ${v.dueDate}.`,
+      REMINDER: (v) =>
+        `Sauf erreur de notre part, la facture ${v.number} échue le ${v.dueDate} reste impayée. ` +
+        `Merci de procéder au règlement de ${v.amount} dans les meilleurs délais.`,
+      FIRM: (v) =>
+        `Malgré notre précédente relance, la facture ${v.number} reste impayée ${v.daysLate} jours après son échéance du ${v.dueDate}. ` +
+        `Nous vous demandons de régler ${v.amount} sous 8 jours.`,
+      FORMAL_NOTICE: (v) =>
+        `Par la présente, nous vous mettons en demeure de régler sous 8 jours la somme de ${v.amount} ` +
+        `due au titre de la facture ${v.number}, échue le ${v.dueDate}. ` +
+        `Des pénalités de retard ainsi que l'indemnité forfaitaire pour frais de recouvrement de ${v.indemnity} sont exigibles. ` +
+        `À défaut de règlement, nous engagerons une procédure de recouvrement.`,
+    },
+    greeting: (name) => `Bonjour ${name},`,
+    closing: 'Cordialement,',
+  },
+  EN: {
+    subject: {
+      COURTESY: (v) => `Invoice ${v.number} is due soon`,
+      REMINDER: (v) => `Reminder - Invoice ${v.number}`,
+      FIRM: (v) => `Second reminder - Invoice ${v.number} is unpaid`,
+      FORMAL_NOTICE: (v) => `Formal notice to pay - Invoice ${v.number}`,
+    },
+    body: {
+      COURTESY: (v) =>
+        `As a reminder, invoice ${v.number} for ${v.amount} is due on ${v.dueDate}.`,
+      REMINDER: (v) =>
+        `Unless we are mistaken, invoice ${v.number}, due on ${v.dueDate}, is still unpaid. ` +
+        `Please pay ${v.amount} at your earliest convenience.`,
+      FIRM: (v) =>
+        `Despite our previous reminder, invoice ${v.number} is still unpaid ${v.daysLate} days after its due date of ${v.dueDate}. ` +
+        `Please pay ${v.amount} within 8 days.`,
+      FORMAL_NOTICE: (v) =>
+        `We hereby give you formal notice to pay within 8 days the sum of ${v.amount} ` +
+        `due for invoice ${v.number}, which fell due on ${v.dueDate}. ` +
+        `Late payment penalties and the fixed recovery indemnity of ${v.indemnity} are payable. ` +
+        `Failing payment, we will start recovery proceedings.`,
+    },
+    greeting: (name) => `Hello ${name},`,
+    closing: 'Kind regards,',
+  },
+};
+
+const fill = (template: string, values: Record<string, string>) =>
+  template.replace(
+    /\{(\w+)\}/g,
+    (match, name: string) => values[name] ?? match,
+  );
+
+export function renderReminderEmail(
+  data: ReminderEmailData,
+  language: Language,
+): RenderedEmail {
+  const texts = TEXTS[language];
+  const format = createFormatter(language);
+  const values: ReminderValues = {
+    number: data.number,
+    amount: format.amount(data.balanceDue),
+    dueDate: format.date(data.dueDate),
+    daysLate: String(Math.max(data.daysLate, 0)),
+    indemnity: format.amount(RECOVERY_INDEMNITY),
+  };
+  const placeholders = {
+    ...values,
+    client: data.customerName,
+    sender: data.senderName,
+  };
+
+  return toEmail(
+    data.subject
+      ? fill(data.subject, placeholders)
+      : texts.subject[data.tone](values),
+    [
+      texts.greeting(data.customerName),
+      data.body ? fill(data.body, placeholders) : texts.body[data.tone](values),
+      `${texts.closing}\n${data.senderName}`,
+    ],
+  );
+}
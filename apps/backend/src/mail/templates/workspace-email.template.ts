@@ -0,0 +1,14 @@
+import { RenderedEmail, toEmail } from './email.util';
+
+export function renderInvitationEmail(
+  workspaceName: string,
+  inviterEmail: string,
+  link: string,
+  validDays: number,
+): RenderedEmail {
+  return toEmail(`Join ${workspaceName} on NimbusLance`, [
+    'Hello,',
+    `${inviterEmail} invites you to the workspace ${workspaceName}. Accept the invitation within ${validDays} days by opening this link, after signing in or up with this email address:\n${link}`,
+    'If you were not expecting it, you can ignore this email.',
+  ]);
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { NumberingService } from './numbering.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [NumberingService],
+  exports: [NumberingService],
+})
+export class NumberingModule {}
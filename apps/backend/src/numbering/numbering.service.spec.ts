@@ -0,0 +1,36 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { NumberingService } from './numbering.service';
+
+describe('NumberingService', () => {
+  let service: NumberingService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [NumberingService],
+    }).compile();
+
+    service = module.get<NumberingService>(NumberingService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('formats the counter returned by the locked upsert', async () => {
+    const tx = {
+      $queryRaw: jest.fn().mockResolvedValue([{ lastValue: 42 }]),
+    } as unknown as Prisma.TransactionClient;
+
+    const number = await service.next(
+      tx,
+      'workspace-1',
+      'INVOICE',
+      'FA-{YYYY}-{seq:4}',
+      new Date(2026, 0, 2),
+    );
+
+    expect(number).toBe('FA-2026-0042');
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, SequenceType } from '@prisma/client';
+import {
+  formatDocumentNumber,
+  getSequencePeriod,
+} from './utils/number-pattern.util';
+
+@Injectable()
+export class NumberingService {
+  /**
+   * Reserves the next number of a workspace's sequence.
+   *
+   * Must run inside the transaction that stores the number: the upsert keeps
+   * the counter row locked until commit, so concurrent requests are
+   * serialised, and a rollback releases the number, leaving no gap.
+   */
+  async next(
+    tx: Prisma.TransactionClient,
+    workspaceId: string,
+    type: SequenceType,
+    pattern: string,
+    date = new Date(),
+  ): Promise<string> {
+    const period = getSequencePeriod(pattern, date);
+
+    const [{ lastValue }] = await tx.$queryRaw<{ lastValue: number }[]>`
+      INSERT INTO "DocumentSequence" ("id", "workspaceId", "type", "period", "lastValue", "updatedAt")
+      VALUES (gen_random_uuid()::text, ${workspaceId}, ${type}::"SequenceType", ${period}, 1, NOW())
+      ON CONFLICT ("workspaceId", "type", "period")
+      DO UPDATE SET "lastValue" = "DocumentSequence"."lastValue" + 1, "updatedAt" = NOW()
+      RETURNING "lastValue"
+    `;
+
+    return formatDocumentNumber(pattern, lastValue, date);
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  formatDocumentNumber,
+  getSequencePeriod,
+  isValidNumberPattern,
+} from './number-pattern.util';
+
+describe('number-pattern.util', () => {
+  const date = new Date(2026, 2, 15);
+
+  it('formats the default pattern', () => {
+    expect(formatDocumentNumber('FA-{YYYY}-{seq:4}', 7, date)).toBe(
+      'FA-2026-0007',
+    );
+  });
+
+  it('supports short years, months and unpadded sequences', () => {
+    expect(formatDocumentNumber('{YY}{MM}/{seq}', 123, date)).toBe('2603/123');
+  });
+
+  it('derives the counter period from the date tokens', () => {
+    expect(getSequencePeriod('FA-{YYYY}-{seq:4}', date)).toBe('2026');
+    expect(getSequencePeriod('FA-{YY}{MM}-{seq:3}', date)).toBe('2026-03');
+    expect(getSequencePeriod('INV-{seq:6}', date)).toBe('');
+  });
+
+  it('requires a sequence token', () => {
+    expect(isValidNumberPattern('FA-{YYYY}')).toBe(false);
+    expect(isValidNumberPattern('FA-{seq:5}')).toBe(true);
+  });
+});
@@ -0,0 +1,33 @@
+const SEQ_TOKEN = /\{seq(?::(\d+))?\}/;
+
+export function isValidNumberPattern(pattern: string): boolean {
+  return SEQ_TOKEN.test(pattern);
+}
+
+// Counters restart whenever the period changes, so the period is made of
+// the date tokens actually used by the pattern.
+export function getSequencePeriod(pattern: string, date: Date): string {
+  const year = date.getFullYear().toString();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+
+  if (pattern.includes('{MM}')) return `${year}-${month}`;
+  if (pattern.includes('{YYYY}') || pattern.includes('{YY}')) return year;
+  return '';
+}
+
+export function formatDocumentNumber(
+  pattern: string,
+  sequence: number,
+  date: Date,
+): string {
+  const year = date.getFullYear().toString();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+
+  return pattern
+    .replace('{YYYY}', year)
+    .replace('{YY}', year.slice(-2))
+    .replace('{MM}', month)
+    .replace(SEQ_TOKEN, (_, width?: string) =>
+      sequence.toString().padStart(Number(width ?? 1), '0'),
+    );
+}
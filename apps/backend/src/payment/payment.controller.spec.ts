@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentController } from './payment.controller';
+import { PaymentService } from './payment.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PaymentController', () => {
+  let controller: PaymentController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PaymentController],
+      providers: [
+        { provide: PaymentService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<PaymentController>(PaymentController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
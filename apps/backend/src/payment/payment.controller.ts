@@ -0,0 +1,49 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
+import { CreatePaymentDto } from './dto/create-payment.dto';
+import { PaymentService } from './payment.service';
+
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('payments')
+@Controller('invoices/:invoiceId/payments')
+export class PaymentController {
+  constructor(private readonly paymentService: PaymentService) {}
+
+  @Post()
+  create(
+    @Param('invoiceId') invoiceId: string,
+    @Body() dto: CreatePaymentDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.paymentService.create(user.wid, user.sub, invoiceId, dto);
+  }
+
+  @Get()
+  findAll(
+    @Param('invoiceId') invoiceId: string,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.paymentService.findAll(user.wid, invoiceId);
+  }
+
+  @Delete(':id')
+  remove(
+    @Param('invoiceId') invoiceId: string,
+    @Param('id') id: string,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.paymentService.remove(user.wid, user.sub, invoiceId, id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PaymentController } from './payment.controller';
+import { PaymentService } from './payment.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { InvoiceModule } from '../invoice/invoice.module';
+
+@Module({
+  imports: [PrismaModule, InvoiceModule],
+  controllers: [PaymentController],
+  providers: [PaymentService],
+  exports: [PaymentService],
+})
+export class PaymentModule {}
@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PaymentService } from './payment.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { InvoiceService } from '../invoice/invoice.service';
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  const prisma = {
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn(),
+    invoice: { findFirst: jest.fn() },
+    payment: { create: jest.fn(), delete: jest.fn() },
+  };
+  const invoiceService = { transition: jest.fn() };
+
+  const invoice = {
+    id: 'inv-1',
+    status: 'SENT',
+    amountTTC: 1000,
+    payments: [{ id: 'pay-1', amount: 400 }],
+    creditNotes: [],
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: InvoiceService, useValue: invoiceService },
+      ],
+    }).compile();
+
+    service = module.get<PaymentService>(PaymentService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('keeps the invoice open after a partial payment', async () => {
+    prisma.invoice.findFirst.mockResolvedValue(invoice);
+
+    await service.create('workspace-1', 'user-1', 'inv-1', { amount: 100 });
+
+    expect(prisma.payment.create).toHaveBeenCalled();
+    expect(invoiceService.transition).not.toHaveBeenCalled();
+  });
+
+  it('marks the invoice PAID when the balance reaches zero', async () => {
+    prisma.invoice.findFirst.mockResolvedValue(invoice);
+
+    await service.create('workspace-1', 'user-1', 'inv-1', { amount: 600 });
+
+    expect(invoiceService.transition).toHaveBeenCalledWith(
+      prisma,
+      'workspace-1',
+      'inv-1',
+      'PAID',
+      { actorId: 'user-1', note: 'Balance settled' },
+    );
+  });
+
+  it('rejects payments above the balance due', async () => {
+    prisma.invoice.findFirst.mockResolvedValue(invoice);
+
+    await expect(
+      service.create('workspace-1', 'user-1', 'inv-1', { amount: 600.01 }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('reopens a PAID invoice when a payment is removed', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({ ...invoice, status: 'PAID' });
+
+    await service.remove('workspace-1', 'user-1', 'inv-1', 'pay-1');
+
+    expect(prisma.payment.delete).toHaveBeenCalledWith({
+      where: { id: 'pay-1' },
+    });
+    expect(invoiceService.transition).toHaveBeenCalledWith(
+      prisma,
+      'workspace-1',
+      'inv-1',
+      'SENT',
+      { actorId: 'user-1', note: 'Payment removed' },
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { computeBalance, roundAmount } from '../invoice/utils/totals.util';
+import { CreatePaymentDto } from './dto/create-payment.dto';
+
+@Injectable()
+export class PaymentService {
+  constructor(
+    private prisma: PrismaService,
+    private invoiceService: InvoiceService,
+  ) {}
+
+  // Records an instalment; the invoice becomes PAID when nothing is left due
+  async create(
+    workspaceId: string,
+    actorId: string,
+    invoiceId: string,
+    dto: CreatePaymentDto,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const invoice = await this.lockInvoice(tx, workspaceId, invoiceId);
+
+      if (invoice.status !== 'SENT' && invoice.status !== 'OVERDUE') {
+        throw new BadRequestException(
+          `Payments cannot be recorded on a ${invoice.status} invoice`,
+        );
+      }
+
+      const { balanceDue } = computeBalance(invoice);
+      if (dto.amount > balanceDue) {
+        throw new BadRequestException(
+          `Amount exceeds the balance due (${balanceDue})`,
+        );
+      }
+
+      const payment = await tx.payment.create({
+        data: {
+          ...dto,
+          paidAt: dto.paidAt ? new Date(dto.paidAt) : new Date(),
+          invoiceId,
+        },
+      });
+
+      if (roundAmount(balanceDue - dto.amount) <= 0) {
+        await this.invoiceService.transition(
+          tx,
+          workspaceId,
+          invoiceId,
+          'PAID',
+          { actorId, note: 'Balance settled' },
+        );
+      }
+
+      return payment;
+    });
+  }
+
+  async findAll(workspaceId: string, invoiceId: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id: invoiceId, workspaceId },
+      select: { id: true },
+    });
+    if (!invoice) throw new NotFoundException('Invoice not found');
+
+    return this.prisma.payment.findMany({
+      where: { invoiceId },
+      orderBy: { paidAt: 'asc' },
+    });
+  }
+
+  // Removing a payment of a PAID invoice reopens it (OVERDUE if past due)
+  async remove(
+    workspaceId: string,
+    actorId: string,
+    invoiceId: string,
+    id: string,
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const invoice = await this.lockInvoice(tx, workspaceId, invoiceId);
+
+      const payment = invoice.payments.find((p) => p.id === id);
+      if (!payment) throw new NotFoundException('Payment not found');
+
+      await tx.payment.delete({ where: { id } });
+
+      if (invoice.status === 'PAID') {
+        const reopened =
+          invoice.dueDate && invoice.dueDate < new Date() ? 'OVERDUE' : 'SENT';
+        await this.invoiceService.transition(
+          tx,
+          workspaceId,
+          invoiceId,
+          reopened,
+          { actorId, note: 'Payment removed' },
+        );
+      }
+
+      return payment;
+    });
+  }
+
+  // Row lock so concurrent payments cannot both pass the balance check
+  private async lockInvoice(
+    tx: Prisma.TransactionClient,
+    workspaceId: string,
+    invoiceId: string,
+  ) {
+    await tx.$executeRaw`SELECT 1 FROM "Invoice" WHERE "id" = ${invoiceId} FOR UPDATE`;
+
+    const invoice = await tx.invoice.findFirst({
+      where: { id: invoiceId, workspaceId },
+      include: {
+        payments: true,
+        creditNotes: { select: { amountTTC: true } },
+      },
+    });
+    if (!invoice) throw new NotFoundException('Invoice not found');
+
+    return invoice;
+  }
+}
@@ -0,0 +1,119 @@
+import { Language, PaymentTerms } from '@prisma/client';
+import { DocumentKind } from '../types/pdf.types';
+
+export interface DocumentLabels {
+  headings: Record<DocumentKind, string>;
+  number: string;
+  subject: string;
+  date: string;
+  issuedAt: string;
+  dueDate: string;
+  paymentTerms: string;
+  paymentTermsValues: Record<PaymentTerms, string>;
+  validUntil: string;
+  originalInvoice: string;
+  reason: string;
+  columns: {
+    description: string;
+    quantity: string;
+    unitPrice: string;
+    vatRate: string;
+    discount: string;
+    total: string;
+  };
+  vatSubtotal: (rate: string, base: string, amount: string) => string;
+  totalHT: string;
+  totalVAT: string;
+  totalTTC: string;
+  bankDetails: string;
+  bank: string;
+  customerSiren: string;
+  customerVatNumber: string;
+  sellerVatNumber: string;
+  latePayment: (rate: string, indemnity: string) => string;
+}
+
+export const LABELS: Record<Language, DocumentLabels> = {
+  FR: {
+    headings: { invoice: 'Facture', quote: 'Devis', creditNote: 'Avoir' },
+    number: 'N°',
+    subject: 'Objet',
+    date: 'Date',
+    issuedAt: "Date d'émission",
+    dueDate: 'Échéance',
+    paymentTerms: 'Conditions de paiement',
+    paymentTermsValues: {
+      ON_RECEIPT: 'À réception',
+      NET_15: '15 jours',
+      NET_30: '30 jours',
+      NET_45: '45 jours',
+      NET_60: '60 jours',
+      END_OF_MONTH_30: '30 jours fin de mois',
+      END_OF_MONTH_45: '45 jours fin de mois',
+    },
+    validUntil: "Valable jusqu'au",
+    originalInvoice: "Facture d'origine",
+    reason: 'Motif',
+    columns: {
+      description: 'Description',
+      quantity: 'Qté',
+      unitPrice: 'PU HT',
+      vatRate: 'TVA',
+      discount: 'Remise',
+      total: 'Total HT',
+    },
+    vatSubtotal: (rate, base, amount) => `TVA ${rate} sur ${base} : ${amount}`,
+    totalHT: 'Montant HT',
+    totalVAT: 'TVA',
+    totalTTC: 'Montant TTC',
+    bankDetails: 'Coordonnées bancaires',
+    bank: 'Banque',
+    customerSiren: 'SIREN',
+    customerVatNumber: 'N° TVA',
+    sellerVatNumber: 'N° TVA intracommunautaire',
+    latePayment: (rate, indemnity) =>
+      `En cas de retard de paiement, des pénalités au taux annuel de ${rate} ` +
+      `seront exigibles, ainsi qu'une indemnité forfaitaire pour frais de recouvrement de ${indemnity}.`,
+  },
+  EN: {
+    headings: { invoice: 'Invoice', quote: 'Quote', creditNote: 'Credit note' },
+    number: 'No.',
+    subject: 'Subject',
+    date: 'Date',
+    issuedAt: 'Issue date',
+    dueDate: 'Due date',
+    paymentTerms: 'Payment terms',
+    paymentTermsValues: {
+      ON_RECEIPT: 'Due on receipt',
+      NET_15: 'Net 15 days',
+      NET_30: 'Net 30 days',
+      NET_45: 'Net 45 days',
+      NET_60: 'Net 60 days',
+      END_OF_MONTH_30: '30 days end of month',
+      END_OF_MONTH_45: '45 days end of month',
+    },
+    validUntil: 'Valid until',
+    originalInvoice: 'Original invoice',
+    reason: 'Reason',
+    columns: {
+      description: 'Description',
+      quantity: 'Qty',
+      unitPrice: 'Unit price',
+      vatRate: 'VAT',
+      discount: 'Discount',
+      total: 'Total excl. VAT',
+    },
+    vatSubtotal: (rate, base, amount) => `VAT ${rate} on ${base}: ${amount}`,
+    totalHT: 'Total excl. VAT',
+    totalVAT: 'VAT',
+    totalTTC: 'Total incl. VAT',
+    bankDetails: 'Bank details',
+    bank: 'Bank',
+    customerSiren: 'Company ID',
+    customerVatNumber: 'VAT No.',
+    sellerVatNumber: 'EU VAT No.',
+    latePayment: (rate, indemnity) =>
+      `Late payments bear interest at an annual rate of ${rate}, plus a fixed ` +
+      `recovery indemnity of ${indemnity}.`,
+  },
+};
@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { PdfService } from './pdf.service';
 import { PrismaModule } from 'src/prisma/prisma.module';
+import { StorageModule } from 'src/storage/storage.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, StorageModule],
   providers: [PdfService],
   exports: [PdfService],
 })
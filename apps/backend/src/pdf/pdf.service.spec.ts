@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import { PdfService } from './pdf.service';
+import { InvoiceData } from './types/pdf.types';
+
+describe('PdfService', () => {
+  const storage = {
+    put: jest.fn(),
+    get: jest.fn(),
+    delete: jest.fn(),
+    getSignedUrl: jest.fn(),
+  };
+  const service = new PdfService(storage);
+
+  const invoice: InvoiceData = {
+    id: 'inv-1',
+    number: 'FA-2026-0001',
+    issuedAt: new Date(2026, 9, 19),
+    dueDate: new Date(2026, 10, 18),
+    paymentTerms: 'NET_30',
+    latePenaltyRate: 10,
+    title: 'Website',
+    lines: [
+      {
+        description: 'Development',
+        quantity: 2,
+        unit: 'day',
+        unitPriceHT: 500,
+        vatRate: 20,
+        discount: 0,
+        totalHT: 1000,
+      },
+      {
+        description: 'Hosting',
+        quantity: 1,
+        unitPriceHT: 100,
+        vatRate: 20,
+        discount: 10,
+        totalHT: 90,
+      },
+    ],
+    vatBreakdown: [{ rate: 20, baseHT: 1090, amountTVA: 218 }],
+    amountHT: 1090,
+    amountTVA: 218,
+    amountTTC: 1308,
+  };
+
+  it.each(['CLASSIC', 'MODERN', 'MINIMAL'] as const)(
+    'renders the %s template in memory',
+    async (template) => {
+      const pdf = await service.render({
+        kind: 'invoice',
+        data: {
+          ...invoice,
+          branding: { template, accentColor: '#2563eb', footer: 'Merci !' },
+        },
+      });
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    },
+  );
+
+  it.each(['FR', 'EN'] as const)(
+    'renders quotes and credit notes in %s',
+    async (language) => {
+      const quote = await service.render({
+        kind: 'quote',
+        data: { ...invoice, language, validUntil: new Date(2026, 10, 19) },
+      });
+      const creditNote = await service.render({
+        kind: 'creditNote',
+        data: { ...invoice, language, invoiceNumber: 'FA-2026-0001' },
+      });
+
+      expect(quote.length).toBeGreaterThan(0);
+      expect(creditNote.length).toBeGreaterThan(0);
+    },
+  );
+
+  it('stores each invoice version under its own key with its hash', async () => {
+    const document = await service.generate(invoice, 2);
+
+    const [key, body, contentType] = storage.put.mock.calls[0] as [
+      string,
+      Buffer,
+      string,
+    ];
+    expect(key).toBe('invoices/inv-1/v2.pdf');
+    expect(body.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(contentType).toBe('application/pdf');
+    expect(document).toEqual({
+      key,
+      sha256: createHash('sha256').update(body).digest('hex'),
+      size: body.length,
+    });
+  });
+
+  it('renders a PDF/A-3 with the Factur-X XML attached', async () => {
+    const xml =
+      '<?xml version="1.0" encoding="UTF-8"?><rsm:CrossIndustryInvoice/>';
+
+    const pdf = (
+      await service.renderFacturX(invoice, xml, 'EN 16931')
+    ).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.7')).toBe(true);
+    expect(pdf).toContain('/AFRelationship /Alternative');
+    expect(pdf).toContain('factur-x.xml');
+    expect(pdf).toContain('<pdfaid:part>3</pdfaid:part>');
+    expect(pdf).toContain(
+      '<fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>',
+    );
+    // Every font is embedded, none of the 14 standard ones is referenced
+    expect(pdf).not.toMatch(/\/BaseFont \/(Helvetica|Times)/);
+  });
+});
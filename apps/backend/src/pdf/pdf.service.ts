@@ -1,35 +1,562 @@
 import { Injectable } from '@nestjs/common';
-import * as fs from 'fs';
+import { createHash } from 'crypto';
 import * as path from 'path';
 import * as PDFDocument from 'pdfkit';
+import { BusinessProfile, Client } from '@prisma/client';
+import { Readable } from 'stream';
+import { StorageProvider } from '../storage/storage.provider';
+import { RECOVERY_INDEMNITY } from '../invoice/utils/payment-terms.util';
+import {
+  CreditNoteData,
+  DocumentRequest,
+  InvoiceData,
+  QuoteData,
+  StoredDocument,
+} from './types/pdf.types';
+import { DocumentLabels, LABELS } from './i18n/labels';
+import {
+  DEFAULT_BRANDING,
+  TEMPLATES,
+  TemplateStyle,
+} from './templates/templates';
+import {
+  createFormatter,
+  DocumentFormatter,
+  LOCALES,
+} from './utils/format.util';
+import { FACTUR_X_FILENAME, facturXMetadata } from './utils/factur-x.util';
 
-interface InvoiceData {
-  id: string;
-  title: string;
-  amountHT: number;
-  amountTTC: number;
-  tva: number;
+// x offset and width of each column of the line table
+const COLUMNS = {
+  description: { x: 50, width: 190 },
+  quantity: { x: 245, width: 45 },
+  unitPrice: { x: 295, width: 70 },
+  vatRate: { x: 370, width: 45 },
+  discount: { x: 420, width: 45 },
+  total: { x: 470, width: 80 },
+};
+
+const LEFT = COLUMNS.description.x;
+const CONTENT_WIDTH = COLUMNS.total.x + COLUMNS.total.width - LEFT;
+const STRIPE_COLOR = '#f3f4f6';
+
+// PDF/A forbids the non-embedded standard fonts: the names used by the
+// templates are mapped to DejaVu faces of the same family instead
+const FONT_DIR = path.join(
+  path.dirname(require.resolve('dejavu-fonts-ttf/package.json')),
+  'ttf',
+);
+const EMBEDDED_FONTS: Record<string, string> = {
+  Helvetica: 'DejaVuSans.ttf',
+  'Helvetica-Bold': 'DejaVuSans-Bold.ttf',
+  'Times-Roman': 'DejaVuSerif.ttf',
+  'Times-Bold': 'DejaVuSerif-Bold.ttf',
+};
+
+// State shared by the drawing steps of one document
+interface RenderContext {
+  doc: PDFKit.PDFDocument;
+  style: TemplateStyle;
+  accent: string;
+  labels: DocumentLabels;
+  format: DocumentFormatter;
 }
 
+// Validity of the download links handed out for stored documents
+const SIGNED_URL_TTL = Number(process.env.STORAGE_SIGNED_URL_TTL ?? 300);
+
 @Injectable()
 export class PdfService {
-  generate(invoice: InvoiceData): string {
-    const fileName = `invoice-${invoice.id}.pdf`;
-    const filePath = path.resolve(__dirname, '../../invoices', fileName);
+  constructor(private storage: StorageProvider) {}
+
+  // The generate* methods render, store, and resolve once the file is fully
+  // written. Invoice versions get their own key so none is ever overwritten.
+  generate(invoice: InvoiceData, version: number): Promise<StoredDocument> {
+    return this.store(`invoices/${invoice.id}/v${version}.pdf`, {
+      kind: 'invoice',
+      data: invoice,
+    });
+  }
+
+  async generateQuote(quote: QuoteData): Promise<string> {
+    const { key } = await this.store(`quotes/${quote.id}.pdf`, {
+      kind: 'quote',
+      data: quote,
+    });
+    return key;
+  }
+
+  async generateCreditNote(creditNote: CreditNoteData): Promise<string> {
+    const { key } = await this.store(`credit-notes/${creditNote.id}.pdf`, {
+      kind: 'creditNote',
+      data: creditNote,
+    });
+    return key;
+  }
+
+  open(key: string): Promise<Readable> {
+    return this.storage.get(key);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.storage.delete(key);
+  }
+
+  async getSignedUrl(key: string) {
+    const url = await this.storage.getSignedUrl(key, SIGNED_URL_TTL);
+    return (
+      url && {
+        url,
+        expiresAt: new Date(Date.now() + SIGNED_URL_TTL * 1000),
+      }
+    );
+  }
+
+  // Renders in memory, e.g. for previews that must not be stored
+  render(request: DocumentRequest): Promise<Buffer> {
+    return this.toBuffer(new PDFDocument({ margin: LEFT }), request);
+  }
 
-    const doc = new PDFDocument();
-    doc.pipe(fs.createWriteStream(filePath));
+  // Factur-X: a PDF/A-3 invoice carrying its CII XML as an attachment
+  renderFacturX(
+    invoice: InvoiceData,
+    xml: string,
+    conformanceLevel: string,
+  ): Promise<Buffer> {
+    const language = invoice.language ?? invoice.customer?.language ?? 'FR';
+    const doc = new PDFDocument({
+      margin: LEFT,
+      pdfVersion: '1.7',
+      subset: 'PDF/A-3b',
+      font: path.join(FONT_DIR, EMBEDDED_FONTS.Helvetica),
+      lang: LOCALES[language],
+      displayTitle: true,
+      info: {
+        Title: `${LABELS[language].headings.invoice} ${invoice.number ?? ''}`,
+        ...(invoice.seller && { Author: invoice.seller.legalName }),
+      },
+    });
 
-    doc.fontSize(20).text('🧾 Invoice', { align: 'center' });
+    for (const [name, file] of Object.entries(EMBEDDED_FONTS)) {
+      doc.registerFont(name, path.join(FONT_DIR, file));
+    }
+
+    const now = new Date();
+    // `relationship` (the /AFRelationship of PDF/A-3) is missing from the types
+    const attachment = {
+      name: FACTUR_X_FILENAME,
+      type: 'text/xml',
+      description: 'Factur-X invoice',
+      relationship: 'Alternative',
+      creationDate: now,
+      modifiedDate: now,
+    };
+    doc.file(Buffer.from(xml, 'utf-8'), attachment);
+    doc.appendXML(facturXMetadata(conformanceLevel));
+
+    return this.toBuffer(doc, { kind: 'invoice', data: invoice });
+  }
+
+  private toBuffer(
+    doc: PDFKit.PDFDocument,
+    request: DocumentRequest,
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      this.draw(doc, request);
+      doc.end();
+    });
+  }
+
+  private async store(
+    key: string,
+    request: DocumentRequest,
+  ): Promise<StoredDocument> {
+    const pdf = await this.render(request);
+    await this.storage.put(key, pdf, 'application/pdf');
+    return {
+      key,
+      sha256: createHash('sha256').update(pdf).digest('hex'),
+      size: pdf.length,
+    };
+  }
+
+  private draw(doc: PDFKit.PDFDocument, request: DocumentRequest) {
+    const { data } = request;
+    const branding = data.branding ?? DEFAULT_BRANDING;
+    const language = data.language ?? data.customer?.language ?? 'FR';
+    const ctx: RenderContext = {
+      doc,
+      style: TEMPLATES[branding.template],
+      accent: branding.accentColor,
+      labels: LABELS[language],
+      format: createFormatter(language),
+    };
+
+    this.drawHeader(ctx, ctx.labels.headings[request.kind], data);
+    this.drawParties(ctx, data.seller, data.customer);
+    this.drawDetails(ctx, request);
+    this.drawLines(ctx, data.lines);
+    this.drawTotals(ctx, data);
+
+    if (request.kind === 'invoice') {
+      this.drawBankDetails(ctx, data.seller);
+      this.drawLatePaymentMention(ctx, data);
+    }
+    this.drawFooter(ctx, data.seller, branding.footer);
+  }
+
+  private drawHeader(ctx: RenderContext, heading: string, data: InvoiceData) {
+    const { doc, style, accent } = ctx;
+    const logo = data.seller?.logo && Buffer.from(data.seller.logo);
+    const number = data.number && `${ctx.labels.number} ${data.number}`;
+    const top = doc.y;
+
+    switch (style.header) {
+      case 'banner': {
+        const height = 70;
+        doc.rect(0, 0, doc.page.width, height).fill(accent);
+        if (logo) doc.image(logo, LEFT, 10, { fit: [100, 50] });
+        doc
+          .fillColor('#ffffff')
+          .font(style.boldFont)
+          .fontSize(style.headingSize)
+          .text(heading, LEFT, 18, { width: CONTENT_WIDTH, align: 'right' });
+        if (number) {
+          doc
+            .font(style.font)
+            .fontSize(style.bodySize)
+            .text(number, { width: CONTENT_WIDTH, align: 'right' });
+        }
+        doc.fillColor('#000000');
+        doc.y = Math.max(top, height + 20);
+        break;
+      }
+      case 'split': {
+        if (logo) doc.image(logo, LEFT, top, { fit: [120, 50] });
+        doc
+          .fillColor(accent)
+          .font(style.boldFont)
+          .fontSize(style.headingSize)
+          .text(heading.toUpperCase(), LEFT, top, {
+            width: CONTENT_WIDTH,
+            align: 'right',
+          });
+        doc.fillColor('#000000');
+        if (number) {
+          doc
+            .font(style.font)
+            .fontSize(style.bodySize)
+            .text(number, { width: CONTENT_WIDTH, align: 'right' });
+        }
+        doc.y = Math.max(doc.y, top + (logo ? 55 : 0));
+        break;
+      }
+      default: {
+        if (logo) {
+          doc.image(logo, LEFT, top, { fit: [120, 50] });
+          doc.y = top + 55;
+        }
+        doc
+          .fillColor(accent)
+          .font(style.boldFont)
+          .fontSize(style.headingSize)
+          .text(heading, LEFT, doc.y, {
+            width: CONTENT_WIDTH,
+            align: 'center',
+          });
+        doc.fillColor('#000000');
+        if (number) {
+          doc
+            .font(style.font)
+            .fontSize(style.bodySize + 2)
+            .text(number, { width: CONTENT_WIDTH, align: 'center' });
+        }
+      }
+    }
+
+    doc.x = LEFT;
     doc.moveDown();
-    doc.fontSize(14).text(`Title: ${invoice.title}`);
-    doc.text(`Montant HT: €${invoice.amountHT}`);
-    doc.text(`TVA: ${invoice.tva}%`);
-    doc.text(`Montant TTC: €${invoice.amountTTC}`);
-    doc.text(`Date: ${new Date().toLocaleDateString()}`);
+  }
+
+  // Seller on the left, customer on the right
+  private drawParties(
+    ctx: RenderContext,
+    seller?: BusinessProfile | null,
+    customer?: Client | null,
+  ) {
+    const { doc, style, labels } = ctx;
+    const top = doc.y;
+    let bottom = top;
+
+    const block = (
+      x: number,
+      width: number,
+      title: string,
+      lines: unknown[],
+    ) => {
+      doc.fontSize(style.bodySize).font(style.boldFont);
+      doc.text(title, x, top, { width });
+      doc.font(style.font);
+      for (const line of lines) {
+        if (typeof line === 'string' && line) doc.text(line, { width });
+      }
+      bottom = Math.max(bottom, doc.y);
+    };
+
+    if (seller) {
+      block(LEFT, 220, seller.tradeName ?? seller.legalName, [
+        seller.tradeName && seller.legalName,
+        seller.addressLine1,
+        seller.addressLine2,
+        `${seller.postalCode} ${seller.city}`,
+        seller.country !== 'FR' && seller.country,
+        seller.email,
+        seller.phone,
+      ]);
+    }
+
+    if (customer) {
+      block(COLUMNS.vatRate.x, 180, customer.company ?? customer.name, [
+        customer.company && customer.name,
+        customer.billingAddressLine1,
+        customer.billingAddressLine2,
+        [customer.billingPostalCode, customer.billingCity]
+          .filter(Boolean)
+          .join(' '),
+        customer.billingCountry !== 'FR' && customer.billingCountry,
+        customer.siren && `${labels.customerSiren}: ${customer.siren}`,
+        customer.vatNumber &&
+          `${labels.customerVatNumber}: ${customer.vatNumber}`,
+      ]);
+    }
+
+    doc.x = LEFT;
+    doc.y = bottom;
+    doc.moveDown();
+  }
+
+  private drawDetails(ctx: RenderContext, request: DocumentRequest) {
+    const { doc, style, labels, format } = ctx;
+    const { data } = request;
+    const details: string[] = [];
+
+    switch (request.kind) {
+      case 'invoice':
+        details.push(
+          data.issuedAt
+            ? `${labels.issuedAt}: ${format.date(data.issuedAt)}`
+            : `${labels.date}: ${format.date(new Date())}`,
+        );
+        if (data.dueDate) {
+          details.push(`${labels.dueDate}: ${format.date(data.dueDate)}`);
+        }
+        if (data.paymentTerms) {
+          details.push(
+            `${labels.paymentTerms}: ${labels.paymentTermsValues[data.paymentTerms]}`,
+          );
+        }
+        break;
+      case 'quote':
+        details.push(
+          `${labels.date}: ${format.date(new Date())}`,
+          `${labels.validUntil}: ${format.date(request.data.validUntil)}`,
+        );
+        break;
+      case 'creditNote':
+        details.push(
+          `${labels.date}: ${format.date(new Date())}`,
+          `${labels.originalInvoice}: ${request.data.invoiceNumber ?? '-'}`,
+        );
+        if (request.data.reason) {
+          details.push(`${labels.reason}: ${request.data.reason}`);
+        }
+    }
+
+    doc
+      .font(style.boldFont)
+      .fontSize(style.bodySize + 2)
+      .text(`${labels.subject}: ${data.title}`, LEFT, doc.y);
+    doc.font(style.font).fontSize(style.bodySize);
+    for (const detail of details) doc.text(detail);
+    doc.moveDown();
+  }
+
+  private drawLines(ctx: RenderContext, lines: InvoiceData['lines']) {
+    const { doc, style, labels, format } = ctx;
+
+    doc.fontSize(style.bodySize).font(style.boldFont);
+    const headerTop = doc.y;
+    if (style.tableHeader === 'filled') {
+      doc.rect(LEFT - 4, headerTop - 4, CONTENT_WIDTH + 8, 20).fill(ctx.accent);
+      doc.fillColor('#ffffff');
+    }
+    this.drawRow(doc, labels.columns);
+    doc.fillColor('#000000');
+    if (style.tableHeader === 'underline') {
+      doc
+        .moveTo(LEFT, doc.y - 2)
+        .lineTo(LEFT + CONTENT_WIDTH, doc.y - 2)
+        .strokeColor(ctx.accent)
+        .stroke();
+    }
+    doc.font(style.font);
+
+    lines.forEach((line, index) => {
+      const quantity = format.quantity(line.quantity);
+      const cells = {
+        description: line.description,
+        quantity: line.unit ? `${quantity} ${line.unit}` : quantity,
+        unitPrice: format.amount(line.unitPriceHT),
+        vatRate: format.percent(line.vatRate ?? 0),
+        discount: line.discount ? format.percent(line.discount) : '-',
+        total: format.amount(line.totalHT),
+      };
+
+      if (style.stripedRows && index % 2 === 1) {
+        const height = doc.heightOfString(cells.description, {
+          width: COLUMNS.description.width,
+        });
+        doc
+          .rect(LEFT - 4, doc.y - 2, CONTENT_WIDTH + 8, height + 4)
+          .fill(STRIPE_COLOR);
+        doc.fillColor('#000000');
+      }
+      this.drawRow(doc, cells);
+    });
+    doc.moveDown();
+  }
+
+  private drawTotals(ctx: RenderContext, data: InvoiceData) {
+    const { doc, style, labels, format } = ctx;
+    const x = COLUMNS.unitPrice.x;
+    const options = {
+      width: COLUMNS.total.x + COLUMNS.total.width - x,
+      align: 'right' as const,
+    };
+
+    doc.fontSize(style.bodySize).font(style.font);
+    for (const vat of data.vatBreakdown) {
+      doc.text(
+        labels.vatSubtotal(
+          format.percent(vat.rate),
+          format.amount(vat.baseHT),
+          format.amount(vat.amountTVA),
+        ),
+        x,
+        doc.y,
+        options,
+      );
+    }
+    doc.moveDown();
+    doc.text(
+      `${labels.totalHT}: ${format.amount(data.amountHT)}`,
+      x,
+      doc.y,
+      options,
+    );
+    doc.text(
+      `${labels.totalVAT}: ${format.amount(data.amountTVA)}`,
+      x,
+      doc.y,
+      options,
+    );
+    doc
+      .font(style.boldFont)
+      .fillColor(ctx.accent)
+      .text(
+        `${labels.totalTTC}: ${format.amount(data.amountTTC)}`,
+        x,
+        doc.y,
+        options,
+      )
+      .fillColor('#000000');
+  }
+
+  private drawBankDetails(ctx: RenderContext, seller?: BusinessProfile | null) {
+    if (!seller?.iban) return;
+    const { doc, style, labels } = ctx;
+
+    doc.moveDown(2);
+    doc.fontSize(style.bodySize - 1).font(style.boldFont);
+    doc.text(labels.bankDetails, LEFT, doc.y);
+    doc.font(style.font);
+    if (seller.bankName) doc.text(`${labels.bank}: ${seller.bankName}`);
+    doc.text(`IBAN: ${seller.iban.replace(/(.{4})/g, '$1 ').trim()}`);
+    if (seller.bic) doc.text(`BIC: ${seller.bic}`);
+  }
+
+  // Mandatory on invoices between professionals (article L441-9 C. com.)
+  private drawLatePaymentMention(ctx: RenderContext, invoice: InvoiceData) {
+    if (invoice.latePenaltyRate == null) return;
+    const { doc, style, labels, format } = ctx;
+
+    doc.moveDown(2);
+    doc
+      .fontSize(style.smallSize)
+      .font(style.font)
+      .text(
+        labels.latePayment(
+          format.percent(invoice.latePenaltyRate),
+          format.amount(RECOVERY_INDEMNITY),
+        ),
+        LEFT,
+        doc.y,
+        { width: CONTENT_WIDTH },
+      );
+  }
+
+  // Seller's legal identity and VAT regime, then the user's own footer
+  private drawFooter(
+    ctx: RenderContext,
+    seller?: BusinessProfile | null,
+    footer?: string | null,
+  ) {
+    if (!seller && !footer) return;
+    const { doc, style, labels } = ctx;
+    const options = { width: CONTENT_WIDTH, align: 'center' as const };
+
+    doc.moveDown(2);
+    doc.fontSize(style.smallSize).font(style.font);
+
+    if (seller) {
+      const identity = [
+        seller.legalForm
+          ? `${seller.legalName} (${seller.legalForm})`
+          : seller.legalName,
+        seller.siren && `SIREN ${seller.siren}`,
+        seller.siret && `SIRET ${seller.siret}`,
+        seller.registration,
+        seller.vatNumber && `${labels.sellerVatNumber} ${seller.vatNumber}`,
+      ].filter(Boolean);
+
+      if (seller.vatMention) doc.text(seller.vatMention, LEFT, doc.y, options);
+      doc.text(identity.join(' - '), LEFT, doc.y, options);
+    }
+    if (footer) doc.text(footer, LEFT, doc.y, options);
+  }
+
+  private drawRow(
+    doc: PDFKit.PDFDocument,
+    cells: Record<keyof typeof COLUMNS, string>,
+  ) {
+    const y = doc.y;
+    let bottom = y;
 
-    doc.end();
+    for (const [key, column] of Object.entries(COLUMNS)) {
+      doc.text(cells[key as keyof typeof COLUMNS], column.x, y, {
+        width: column.width,
+        align: key === 'description' ? 'left' : 'right',
+      });
+      bottom = Math.max(bottom, doc.y);
+    }
 
-    return filePath;
+    doc.x = LEFT;
+    doc.y = bottom + 4;
   }
 }
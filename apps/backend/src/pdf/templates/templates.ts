@@ -0,0 +1,54 @@
+import { DocumentTemplate } from '@prisma/client';
+import { DocumentBranding } from '../types/pdf.types';
+
+export interface TemplateStyle {
+  font: string;
+  boldFont: string;
+  headingSize: number;
+  bodySize: number;
+  smallSize: number;
+  // centered: logo then centered heading; banner: heading on an accent
+  // coloured band; split: logo on the left, heading on the right
+  header: 'centered' | 'banner' | 'split';
+  tableHeader: 'filled' | 'underline';
+  stripedRows: boolean;
+}
+
+export const TEMPLATES: Record<DocumentTemplate, TemplateStyle> = {
+  CLASSIC: {
+    font: 'Helvetica',
+    boldFont: 'Helvetica-Bold',
+    headingSize: 20,
+    bodySize: 10,
+    smallSize: 8,
+    header: 'centered',
+    tableHeader: 'underline',
+    stripedRows: false,
+  },
+  MODERN: {
+    font: 'Helvetica',
+    boldFont: 'Helvetica-Bold',
+    headingSize: 22,
+    bodySize: 10,
+    smallSize: 8,
+    header: 'banner',
+    tableHeader: 'filled',
+    stripedRows: true,
+  },
+  MINIMAL: {
+    font: 'Times-Roman',
+    boldFont: 'Times-Bold',
+    headingSize: 16,
+    bodySize: 10,
+    smallSize: 8,
+    header: 'split',
+    tableHeader: 'underline',
+    stripedRows: false,
+  },
+};
+
+export const DEFAULT_BRANDING: DocumentBranding = {
+  template: 'CLASSIC',
+  accentColor: '#1f2937',
+  footer: null,
+};
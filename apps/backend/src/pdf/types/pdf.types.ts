@@ -0,0 +1,63 @@
+import {
+  BusinessProfile,
+  Client,
+  DocumentTemplate,
+  Language,
+  PaymentTerms,
+} from '@prisma/client';
+import { LineItem, VatSubtotal } from '../../invoice/types/invoice.types';
+
+// User-selected look of the documents
+export interface DocumentBranding {
+  template: DocumentTemplate;
+  accentColor: string; // hex
+  footer?: string | null;
+}
+
+// Everything about the seller a document needs, loaded once per rendering
+export interface DocumentContext {
+  seller: BusinessProfile | null;
+  branding: DocumentBranding;
+}
+
+export interface InvoiceData {
+  id: string;
+  number?: string | null;
+  issuedAt?: Date | null;
+  dueDate?: Date | null;
+  paymentTerms?: PaymentTerms | null;
+  latePenaltyRate?: number | null;
+  title: string;
+  lines: (LineItem & { totalHT: number })[];
+  vatBreakdown: VatSubtotal[];
+  amountHT: number;
+  amountTVA: number;
+  amountTTC: number;
+  seller?: BusinessProfile | null;
+  customer?: Client | null;
+  branding?: DocumentBranding;
+  language?: Language; // defaults to the customer's language
+}
+
+export interface QuoteData extends InvoiceData {
+  validUntil: Date;
+}
+
+export interface CreditNoteData extends InvoiceData {
+  invoiceNumber: string | null;
+  reason?: string | null;
+}
+
+export type DocumentRequest =
+  | { kind: 'invoice'; data: InvoiceData }
+  | { kind: 'quote'; data: QuoteData }
+  | { kind: 'creditNote'; data: CreditNoteData };
+
+export type DocumentKind = DocumentRequest['kind'];
+
+// A rendered document as written to the storage
+export interface StoredDocument {
+  key: string;
+  sha256: string; // hex
+  size: number; // bytes
+}
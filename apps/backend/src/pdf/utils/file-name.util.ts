@@ -0,0 +1,3 @@
+// Invoice numbers may contain characters that are unsafe in a file name
+export const toFileName = (number: string, extension: string) =>
+  `${number.replace(/[^\w.-]/g, '_')}.${extension}`;
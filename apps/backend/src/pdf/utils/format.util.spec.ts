@@ -0,0 +1,23 @@
+import { createFormatter } from './format.util';
+
+describe('createFormatter', () => {
+  it('formats French amounts, rates and dates', () => {
+    const format = createFormatter('FR');
+
+    expect(format.amount(1234.5)).toBe('1\u00a0234,50\u00a0€');
+    expect(format.percent(5.5)).toBe('5,5\u00a0%');
+    expect(format.date(new Date(2026, 9, 19))).toBe('19 octobre 2026');
+  });
+
+  it('formats English amounts, rates and dates', () => {
+    const format = createFormatter('EN');
+
+    expect(format.amount(1234.5)).toBe('€1,234.50');
+    expect(format.percent(20)).toBe('20%');
+    expect(format.date(new Date(2026, 9, 19))).toBe('19 October 2026');
+  });
+
+  it('never emits characters the standard PDF fonts cannot draw', () => {
+    expect(createFormatter('FR').amount(1000000)).not.toMatch(/\u202f/);
+  });
+});
@@ -0,0 +1,38 @@
+import { Language } from '@prisma/client';
+
+export const LOCALES: Record<Language, string> = {
+  FR: 'fr-FR',
+  EN: 'en-GB',
+};
+
+export interface DocumentFormatter {
+  amount: (value: number) => string;
+  quantity: (value: number) => string;
+  percent: (value: number) => string;
+  date: (value: Date) => string;
+}
+
+// The standard PDF fonts have no narrow no-break space (used by fr-FR as
+// thousands separator), the regular no-break space renders the same
+const forPdf = (text: string) => text.replace(/\u202f/g, '\u00a0');
+
+export function createFormatter(
+  language: Language,
+  currency = 'EUR',
+): DocumentFormatter {
+  const locale = LOCALES[language];
+  const amount = new Intl.NumberFormat(locale, { style: 'currency', currency });
+  const quantity = new Intl.NumberFormat(locale, { maximumFractionDigits: 3 });
+  const percent = new Intl.NumberFormat(locale, {
+    style: 'percent',
+    maximumFractionDigits: 2,
+  });
+  const date = new Intl.DateTimeFormat(locale, { dateStyle: 'long' });
+
+  return {
+    amount: (value) => forPdf(amount.format(value)),
+    quantity: (value) => forPdf(quantity.format(value)),
+    percent: (value) => forPdf(percent.format(value / 100)),
+    date: (value) => forPdf(date.format(value)),
+  };
+}
@@ -1,5 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ProjectController } from './project.controller';
+import { ProjectService } from './project.service';
+import { PrismaService } from '../prisma/prisma.service';
 
 describe('ProjectController', () => {
   let controller: ProjectController;
@@ -7,6 +9,10 @@ describe('ProjectController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ProjectController],
+      providers: [
+        { provide: ProjectService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<ProjectController>(ProjectController);
@@ -13,39 +13,42 @@ import { ProjectService } from './project.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { GetUser } from 'src/auth/decorator/get-user.decorator';
 import { UpdateProjectDto } from './dto/update-project.dto';
-import { UserPayload } from '../auth/types/auth.types';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
 
 @Controller('projects')
-@UseGuards(AuthGuard('jwt'))
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('projects')
 export class ProjectController {
   constructor(private readonly projectService: ProjectService) {}
 
   @Post()
-  create(@Body() dto: CreateProjectDto, @GetUser() user: UserPayload) {
-    return this.projectService.create(user.sub, dto);
+  create(@Body() dto: CreateProjectDto, @GetUser() user: WorkspaceUser) {
+    return this.projectService.create(user.wid, dto);
   }
 
   @Get()
-  findAll(@GetUser() user: UserPayload) {
-    return this.projectService.findAll(user.sub);
+  findAll(@GetUser() user: WorkspaceUser) {
+    return this.projectService.findAll(user.wid);
   }
 
   @Get(':id')
-  findOne(@Param('id') id: string, @GetUser() user: UserPayload) {
-    return this.projectService.findOne(user.sub, id);
+  findOne(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.projectService.findOne(user.wid, id);
   }
 
   @Patch(':id')
   update(
     @Param('id') id: string,
     @Body() dto: UpdateProjectDto,
-    @GetUser() user: UserPayload,
+    @GetUser() user: WorkspaceUser,
   ) {
-    return this.projectService.update(user.sub, id, dto);
+    return this.projectService.update(user.wid, id, dto);
   }
 
   @Delete(':id')
-  remove(@Param('id') id: string, @GetUser() user: UserPayload) {
-    return this.projectService.remove(user.sub, id);
+  remove(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.projectService.remove(user.wid, id);
   }
 }
@@ -1,12 +1,20 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
 import { ProjectService } from './project.service';
+import { PrismaService } from '../prisma/prisma.service';
 
 describe('ProjectService', () => {
   let service: ProjectService;
+  const prisma = {
+    client: { findFirst: jest.fn() },
+    project: { create: jest.fn(), findFirst: jest.fn(), updateMany: jest.fn() },
+  };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ProjectService],
+      providers: [ProjectService, { provide: PrismaService, useValue: prisma }],
     }).compile();
 
     service = module.get<ProjectService>(ProjectService);
@@ -15,4 +23,37 @@ describe('ProjectService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('scopes reads and writes to the workspace', async () => {
+    await service.findOne('workspace-1', 'project-1');
+    await service.update('workspace-1', 'project-1', {});
+
+    expect(prisma.project.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'project-1', workspaceId: 'workspace-1' },
+      }),
+    );
+    expect(prisma.project.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'project-1', workspaceId: 'workspace-1' },
+      }),
+    );
+  });
+
+  it('refuses clients of another workspace', async () => {
+    prisma.client.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.create('workspace-1', { title: 'Website', clientId: 'client-2' }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    await expect(
+      service.update('workspace-1', 'project-1', { clientId: 'client-2' }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(prisma.client.findFirst).toHaveBeenCalledWith({
+      where: { id: 'client-2', workspaceId: 'workspace-1' },
+      select: { id: true },
+    });
+    expect(prisma.project.create).not.toHaveBeenCalled();
+    expect(prisma.project.updateMany).not.toHaveBeenCalled();
+  });
 });
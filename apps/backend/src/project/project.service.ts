@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
@@ -7,40 +7,52 @@ import { UpdateProjectDto } from './dto/update-project.dto';
 export class ProjectService {
   constructor(private prisma: PrismaService) {}
 
-  create(userId: string, dto: CreateProjectDto) {
+  async create(workspaceId: string, dto: CreateProjectDto) {
+    await this.assertClient(workspaceId, dto.clientId);
+
     return this.prisma.project.create({
       data: {
         ...dto,
-        userId,
+        workspaceId,
       },
     });
   }
 
-  findAll(userId: string) {
+  findAll(workspaceId: string) {
     return this.prisma.project.findMany({
-      where: { userId },
+      where: { workspaceId },
       include: { client: true },
       orderBy: { createdAt: 'desc' },
     });
   }
 
-  findOne(userId: string, id: string) {
+  findOne(workspaceId: string, id: string) {
     return this.prisma.project.findFirst({
-      where: { id, userId },
+      where: { id, workspaceId },
       include: { client: true },
     });
   }
 
-  update(userId: string, id: string, dto: UpdateProjectDto) {
+  async update(workspaceId: string, id: string, dto: UpdateProjectDto) {
+    if (dto.clientId) await this.assertClient(workspaceId, dto.clientId);
+
     return this.prisma.project.updateMany({
-      where: { id, userId },
+      where: { id, workspaceId },
       data: dto,
     });
   }
 
-  remove(userId: string, id: string) {
+  remove(workspaceId: string, id: string) {
     return this.prisma.project.deleteMany({
-      where: { id, userId },
+      where: { id, workspaceId },
+    });
+  }
+
+  private async assertClient(workspaceId: string, clientId: string) {
+    const client = await this.prisma.client.findFirst({
+      where: { id: clientId, workspaceId },
+      select: { id: true },
     });
+    if (!client) throw new NotFoundException('Client not found');
   }
 }
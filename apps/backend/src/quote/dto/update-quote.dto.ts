@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateQuoteDto } from './create-quote.dto';
+
+export class UpdateQuoteDto extends PartialType(CreateQuoteDto) {}
@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { QuoteController } from './quote.controller';
+import { QuoteService } from './quote.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('QuoteController', () => {
+  let controller: QuoteController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [QuoteController],
+      providers: [
+        { provide: QuoteService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<QuoteController>(QuoteController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
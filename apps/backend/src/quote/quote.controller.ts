@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
+import { CreateQuoteDto } from './dto/create-quote.dto';
+import { UpdateQuoteDto } from './dto/update-quote.dto';
+import { QuoteService } from './quote.service';
+
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('quotes')
+@Controller('quotes')
+export class QuoteController {
+  constructor(private readonly quoteService: QuoteService) {}
+
+  @Post()
+  create(@Body() dto: CreateQuoteDto, @GetUser() user: WorkspaceUser) {
+    return this.quoteService.create(user.wid, dto);
+  }
+
+  @Get()
+  findAll(@GetUser() user: WorkspaceUser) {
+    return this.quoteService.findAll(user.wid);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.quoteService.findOne(user.wid, id);
+  }
+
+  @Get(':id/pdf')
+  async getPdf(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    const { fileName, file } = await this.quoteService.getPdf(user.wid, id);
+    return new StreamableFile(file, {
+      type: 'application/pdf',
+      disposition: `inline; filename="${fileName}"`,
+    });
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateQuoteDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.quoteService.update(user.wid, id, dto);
+  }
+
+  @Post(':id/send')
+  send(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.quoteService.send(user.wid, id);
+  }
+
+  @Post(':id/accept')
+  accept(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.quoteService.accept(user.wid, id);
+  }
+
+  @Post(':id/reject')
+  reject(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.quoteService.reject(user.wid, id);
+  }
+
+  @Post(':id/convert')
+  convert(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.quoteService.convertToInvoice(user.wid, id);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.quoteService.remove(user.wid, id);
+  }
+}
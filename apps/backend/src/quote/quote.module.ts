@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { QuoteController } from './quote.controller';
+import { QuoteService } from './quote.service';
+import { QuoteScheduler } from './quote.scheduler';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PdfModule } from '../pdf/pdf.module';
+import { NumberingModule } from '../numbering/numbering.module';
+import { InvoiceModule } from '../invoice/invoice.module';
+import { BusinessProfileModule } from '../business-profile/business-profile.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    PdfModule,
+    NumberingModule,
+    InvoiceModule,
+    BusinessProfileModule,
+  ],
+  controllers: [QuoteController],
+  providers: [QuoteService, QuoteScheduler],
+  exports: [QuoteService],
+})
+export class QuoteModule {}
@@ -0,0 +1,16 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { QuoteService } from './quote.service';
+
+@Injectable()
+export class QuoteScheduler {
+  private readonly logger = new Logger(QuoteScheduler.name);
+
+  constructor(private readonly quoteService: QuoteService) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async expireOutdatedQuotes() {
+    const count = await this.quoteService.expireOutdated();
+    if (count > 0) this.logger.log(`${count} quote(s) marked expired`);
+  }
+}
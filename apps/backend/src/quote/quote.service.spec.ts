@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { QuoteService } from './quote.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PdfService } from '../pdf/pdf.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+
+describe('QuoteService', () => {
+  let service: QuoteService;
+  const prisma = {
+    $transaction: jest.fn(),
+    quote: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    client: { findFirst: jest.fn() },
+    project: { findFirst: jest.fn() },
+  };
+  const invoiceService = { create: jest.fn() };
+  const businessProfileService = { assertCanIssue: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuoteService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PdfService, useValue: {} },
+        { provide: NumberingService, useValue: {} },
+        { provide: InvoiceService, useValue: invoiceService },
+        {
+          provide: BusinessProfileService,
+          useValue: businessProfileService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<QuoteService>(QuoteService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('converts an accepted quote into a draft invoice linked to it', async () => {
+    prisma.quote.findFirst.mockResolvedValue({
+      id: 'quote-1',
+      status: 'ACCEPTED',
+      title: 'Website',
+      description: null,
+      clientId: 'client-1',
+      projectId: 'project-1',
+      invoice: null,
+      lines: [
+        {
+          description: 'Dev',
+          quantity: 2,
+          unit: 'day',
+          unitPriceHT: 500,
+          vatRate: 20,
+          discount: 0,
+        },
+      ],
+    });
+    invoiceService.create.mockResolvedValue({ id: 'invoice-1' });
+
+    await service.convertToInvoice('workspace-1', 'quote-1');
+
+    expect(invoiceService.create).toHaveBeenCalledWith(
+      'workspace-1',
+      {
+        title: 'Website',
+        description: undefined,
+        clientId: 'client-1',
+        projectId: 'project-1',
+        lines: [
+          {
+            description: 'Dev',
+            quantity: 2,
+            unit: 'day',
+            unitPriceHT: 500,
+            vatRate: 20,
+            discount: 0,
+          },
+        ],
+      },
+      { quoteId: 'quote-1' },
+    );
+  });
+
+  it('lists quotes without writing to them', async () => {
+    prisma.quote.findMany.mockResolvedValue([]);
+
+    await service.findAll('workspace-1');
+
+    expect(prisma.quote.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('expires an outdated quote instead of accepting it', async () => {
+    prisma.quote.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(
+      service.accept('workspace-1', 'quote-1'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.quote.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.quote.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'quote-1',
+        workspaceId: 'workspace-1',
+        status: 'SENT',
+        validUntil: { lt: expect.any(Date) },
+      },
+      data: { status: 'EXPIRED' },
+    });
+  });
+
+  it('does not send a quote before the business profile is complete', async () => {
+    businessProfileService.assertCanIssue.mockRejectedValue(
+      new BadRequestException('Complete your business profile'),
+    );
+
+    await expect(service.send('workspace-1', 'quote-1')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses to convert a quote that is not accepted', async () => {
+    prisma.quote.findFirst.mockResolvedValue({
+      id: 'quote-1',
+      status: 'SENT',
+      invoice: null,
+      lines: [],
+    });
+
+    await expect(
+      service.convertToInvoice('workspace-1', 'quote-1'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(invoiceService.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses clients and projects of another workspace', async () => {
+    const lines = [{ description: 'Dev', quantity: 1, unitPriceHT: 500 }];
+    prisma.client.findFirst.mockResolvedValueOnce(null);
+
+    await expect(
+      service.create('workspace-1', {
+        title: 'Website',
+        clientId: 'c-2',
+        lines,
+      }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(prisma.client.findFirst).toHaveBeenCalledWith({
+      where: { id: 'c-2', workspaceId: 'workspace-1' },
+      select: { id: true },
+    });
+
+    prisma.quote.findFirst.mockResolvedValue({
+      id: 'quote-1',
+      status: 'DRAFT',
+    });
+    prisma.project.findFirst.mockResolvedValue(null);
+    await expect(
+      service.update('workspace-1', 'quote-1', { projectId: 'p-2' }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+
+    expect(prisma.quote.create).not.toHaveBeenCalled();
+    expect(prisma.quote.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,347 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, QuoteStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PdfService } from '../pdf/pdf.service';
+import { DocumentContext } from '../pdf/types/pdf.types';
+import { toFileName } from '../pdf/utils/file-name.util';
+import { NumberingService } from '../numbering/numbering.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+import { computeTotals, toLineRecords } from '../invoice/utils/totals.util';
+import { CreateQuoteDto } from './dto/create-quote.dto';
+import { UpdateQuoteDto } from './dto/update-quote.dto';
+
+const DEFAULT_VALIDITY_DAYS = 30;
+
+const QUOTE_INCLUDE = {
+  client: true,
+  project: true,
+  lines: { orderBy: { position: 'asc' } },
+  invoice: { select: { id: true, number: true, status: true } },
+} as const;
+
+export type QuoteWithRelations = Prisma.QuoteGetPayload<{
+  include: typeof QUOTE_INCLUDE;
+}>;
+
+@Injectable()
+export class QuoteService {
+  constructor(
+    private prisma: PrismaService,
+    private pdfService: PdfService,
+    private numberingService: NumberingService,
+    private invoiceService: InvoiceService,
+    private businessProfileService: BusinessProfileService,
+  ) {}
+
+  async create(workspaceId: string, dto: CreateQuoteDto) {
+    const { lines, validUntil, ...data } = dto;
+    const totals = computeTotals(lines);
+    await this.assertClient(workspaceId, dto.clientId);
+    if (dto.projectId) await this.assertProject(workspaceId, dto.projectId);
+
+    const quote = await this.prisma.quote.create({
+      data: {
+        ...data,
+        amountHT: totals.amountHT,
+        amountTVA: totals.amountTVA,
+        amountTTC: totals.amountTTC,
+        validUntil: validUntil
+          ? new Date(validUntil)
+          : new Date(Date.now() + DEFAULT_VALIDITY_DAYS * 24 * 60 * 60 * 1000),
+        status: 'DRAFT',
+        workspaceId,
+        lines: { create: toLineRecords(lines) },
+      },
+      include: QUOTE_INCLUDE,
+    });
+
+    return this.renderPdf(quote);
+  }
+
+  async findAll(workspaceId: string) {
+    const quotes = await this.prisma.quote.findMany({
+      where: { workspaceId },
+      include: QUOTE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return quotes.map((quote) => this.withVatBreakdown(quote));
+  }
+
+  async findOne(workspaceId: string, id: string) {
+    const quote = await this.prisma.quote.findFirst({
+      where: { id, workspaceId },
+      include: { ...QUOTE_INCLUDE, emails: { orderBy: { sentAt: 'asc' } } },
+    });
+
+    return quote && this.withVatBreakdown(quote);
+  }
+
+  async update(workspaceId: string, id: string, dto: UpdateQuoteDto) {
+    const { lines, validUntil, ...data } = dto;
+
+    const quote = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.quote.findFirst({ where: { id, workspaceId } });
+      if (!existing) throw new NotFoundException('Quote not found');
+      if (existing.status !== 'DRAFT') {
+        throw new BadRequestException('Only draft quotes can be edited');
+      }
+      if (dto.clientId) await this.assertClient(workspaceId, dto.clientId);
+      if (dto.projectId) await this.assertProject(workspaceId, dto.projectId);
+
+      if (lines) {
+        await tx.quoteLine.deleteMany({ where: { quoteId: id } });
+      }
+      const totals = lines && computeTotals(lines);
+
+      return tx.quote.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(totals && {
+            amountHT: totals.amountHT,
+            amountTVA: totals.amountTVA,
+            amountTTC: totals.amountTTC,
+          }),
+          ...(validUntil && { validUntil: new Date(validUntil) }),
+          ...(lines && { lines: { create: toLineRecords(lines) } }),
+        },
+        include: QUOTE_INCLUDE,
+      });
+    });
+
+    return this.renderPdf(quote);
+  }
+
+  // The number is taken in the transaction that flips the status, which holds
+  // the sequence row locked until the commit: the PDF is rendered after it.
+  // If that fails, the next download renders it.
+  async send(workspaceId: string, id: string) {
+    const context =
+      await this.businessProfileService.assertCanIssue(workspaceId);
+
+    const quote = await this.prisma.$transaction(async (tx) => {
+      await this.transition(tx, workspaceId, id, ['DRAFT'], {
+        status: 'SENT',
+        sentAt: new Date(),
+      });
+
+      const { quoteNumberPattern } = await tx.workspace.findUniqueOrThrow({
+        where: { id: workspaceId },
+        select: { quoteNumberPattern: true },
+      });
+      const number = await this.numberingService.next(
+        tx,
+        workspaceId,
+        'QUOTE',
+        quoteNumberPattern,
+      );
+
+      // The draft PDF had no number yet: it is never served again
+      return tx.quote.update({
+        where: { id },
+        data: { number, pdfKey: null },
+        include: QUOTE_INCLUDE,
+      });
+    });
+
+    return this.renderPdf(quote, context);
+  }
+
+  async accept(workspaceId: string, id: string) {
+    // The hourly sweep may not have reached it yet
+    const expired = await this.prisma.quote.updateMany({
+      where: {
+        id,
+        workspaceId,
+        status: 'SENT',
+        validUntil: { lt: new Date() },
+      },
+      data: { status: 'EXPIRED' },
+    });
+    if (expired.count > 0) {
+      throw new BadRequestException('Quote has expired');
+    }
+
+    await this.transition(this.prisma, workspaceId, id, ['SENT'], {
+      status: 'ACCEPTED',
+      decidedAt: new Date(),
+    });
+    return this.findOne(workspaceId, id);
+  }
+
+  async reject(workspaceId: string, id: string) {
+    await this.transition(this.prisma, workspaceId, id, ['SENT'], {
+      status: 'REJECTED',
+      decidedAt: new Date(),
+    });
+    return this.findOne(workspaceId, id);
+  }
+
+  // Sent quotes past their validity date, in every workspace
+  async expireOutdated(now = new Date()) {
+    const { count } = await this.prisma.quote.updateMany({
+      where: { status: 'SENT', validUntil: { lt: now } },
+      data: { status: 'EXPIRED' },
+    });
+    return count;
+  }
+
+  // Creates a draft invoice from an accepted quote; the invoice keeps a
+  // reference to the quote (Invoice.quoteId is unique, so only once).
+  async convertToInvoice(workspaceId: string, id: string) {
+    const quote = await this.prisma.quote.findFirst({
+      where: { id, workspaceId },
+      include: QUOTE_INCLUDE,
+    });
+
+    if (!quote) throw new NotFoundException('Quote not found');
+    if (quote.status !== 'ACCEPTED') {
+      throw new BadRequestException('Only accepted quotes can be invoiced');
+    }
+    if (quote.invoice) {
+      throw new BadRequestException('Quote has already been invoiced');
+    }
+
+    try {
+      return await this.invoiceService.create(
+        workspaceId,
+        {
+          title: quote.title,
+          description: quote.description ?? undefined,
+          clientId: quote.clientId,
+          projectId: quote.projectId ?? undefined,
+          lines: quote.lines.map((line) => ({
+            description: line.description,
+            quantity: line.quantity,
+            unit: line.unit ?? undefined,
+            unitPriceHT: line.unitPriceHT,
+            vatRate: line.vatRate,
+            discount: line.discount,
+          })),
+        },
+        { quoteId: quote.id },
+      );
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new BadRequestException('Quote has already been invoiced');
+      }
+      throw error;
+    }
+  }
+
+  // Stored PDF, generated first for quotes that have none yet
+  async getPdf(workspaceId: string, id: string) {
+    const quote = await this.prisma.quote.findFirst({
+      where: { id, workspaceId },
+      include: QUOTE_INCLUDE,
+    });
+    if (!quote) throw new NotFoundException('Quote not found');
+
+    const pdfKey = quote.pdfKey ?? (await this.renderPdf(quote)).pdfKey;
+    return {
+      fileName: toFileName(quote.number ?? `draft-${quote.id}`, 'pdf'),
+      file: await this.pdfService.open(pdfKey),
+    };
+  }
+
+  async remove(workspaceId: string, id: string) {
+    const quote = await this.prisma.quote.findFirst({
+      where: { id, workspaceId },
+      include: { invoice: { select: { id: true } } },
+    });
+
+    if (!quote) throw new NotFoundException('Quote not found');
+    if (quote.invoice) {
+      throw new BadRequestException('Invoiced quotes cannot be deleted');
+    }
+
+    return await this.prisma.quote.delete({ where: { id } });
+  }
+
+  // Sent quotes past their validity date can no longer be accepted
+  private async transition(
+    client: Prisma.TransactionClient,
+    workspaceId: string,
+    id: string,
+    from: QuoteStatus[],
+    data: Prisma.QuoteUpdateManyMutationInput,
+  ) {
+    const updated = await client.quote.updateMany({
+      where: { id, workspaceId, status: { in: from } },
+      data,
+    });
+
+    if (updated.count === 0) {
+      const existing = await client.quote.findFirst({
+        where: { id, workspaceId },
+      });
+      if (!existing) throw new NotFoundException('Quote not found');
+      throw new BadRequestException(
+        `Quote is ${existing.status}, expected ${from.join(' or ')}`,
+      );
+    }
+  }
+
+  private async renderPdf(
+    quote: QuoteWithRelations,
+    context?: DocumentContext,
+  ) {
+    const { vatBreakdown } = computeTotals(quote.lines);
+
+    const pdfKey = await this.pdfService.generateQuote({
+      id: quote.id,
+      number: quote.number,
+      ...(context ??
+        (await this.businessProfileService.getDocumentContext(
+          quote.workspaceId,
+        ))),
+      customer: quote.client,
+      title: quote.title,
+      validUntil: quote.validUntil,
+      lines: quote.lines,
+      vatBreakdown,
+      amountHT: quote.amountHT,
+      amountTVA: quote.amountTVA,
+      amountTTC: quote.amountTTC,
+    });
+
+    await this.prisma.quote.update({
+      where: { id: quote.id },
+      data: { pdfKey },
+    });
+
+    return { ...quote, vatBreakdown, pdfKey };
+  }
+
+  private withVatBreakdown<T extends QuoteWithRelations>(quote: T) {
+    return {
+      ...quote,
+      vatBreakdown: computeTotals(quote.lines).vatBreakdown,
+    };
+  }
+
+  private async assertClient(workspaceId: string, clientId: string) {
+    const client = await this.prisma.client.findFirst({
+      where: { id: clientId, workspaceId },
+      select: { id: true },
+    });
+    if (!client) throw new NotFoundException('Client not found');
+  }
+
+  private async assertProject(workspaceId: string, projectId: string) {
+    const project = await this.prisma.project.findFirst({
+      where: { id: projectId, workspaceId },
+      select: { id: true },
+    });
+    if (!project) throw new NotFoundException('Project not found');
+  }
+}
@@ -0,0 +1,53 @@
+import { Type } from 'class-transformer';
+import { PaymentTerms, RecurringFrequency } from '@prisma/client';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { LineItemDto } from '../../invoice/dto/line-item.dto';
+
+export class CreateRecurringInvoiceDto {
+  @IsString()
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsString()
+  clientId: string;
+
+  @IsOptional()
+  @IsString()
+  projectId?: string;
+
+  @IsEnum(RecurringFrequency)
+  frequency: RecurringFrequency;
+
+  @IsDateString()
+  startDate: string; // first invoice date, later ones follow the frequency
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string; // no invoice is generated after this date
+
+  @IsOptional()
+  @IsEnum(PaymentTerms)
+  paymentTerms?: PaymentTerms; // defaults to the client's terms
+
+  @IsOptional()
+  @IsBoolean()
+  autoSend?: boolean; // issue generated invoices instead of leaving drafts
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => LineItemDto)
+  lines: LineItemDto[];
+}
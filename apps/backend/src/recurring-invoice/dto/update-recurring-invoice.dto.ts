@@ -0,0 +1,11 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { CreateRecurringInvoiceDto } from './create-recurring-invoice.dto';
+
+export class UpdateRecurringInvoiceDto extends PartialType(
+  CreateRecurringInvoiceDto,
+) {
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean; // pauses or resumes the schedule
+}
@@ -0,0 +1,26 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RecurringInvoiceController } from './recurring-invoice.controller';
+import { RecurringInvoiceService } from './recurring-invoice.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('RecurringInvoiceController', () => {
+  let controller: RecurringInvoiceController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [RecurringInvoiceController],
+      providers: [
+        { provide: RecurringInvoiceService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<RecurringInvoiceController>(
+      RecurringInvoiceController,
+    );
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
+import { CreateRecurringInvoiceDto } from './dto/create-recurring-invoice.dto';
+import { UpdateRecurringInvoiceDto } from './dto/update-recurring-invoice.dto';
+import { RecurringInvoiceService } from './recurring-invoice.service';
+
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('recurring-invoices')
+@Controller('recurring-invoices')
+export class RecurringInvoiceController {
+  constructor(
+    private readonly recurringInvoiceService: RecurringInvoiceService,
+  ) {}
+
+  @Post()
+  create(
+    @Body() dto: CreateRecurringInvoiceDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.recurringInvoiceService.create(user.wid, dto);
+  }
+
+  @Get()
+  findAll(@GetUser() user: WorkspaceUser) {
+    return this.recurringInvoiceService.findAll(user.wid);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.recurringInvoiceService.findOne(user.wid, id);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateRecurringInvoiceDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.recurringInvoiceService.update(user.wid, id, dto);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.recurringInvoiceService.remove(user.wid, id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { RecurringInvoiceController } from './recurring-invoice.controller';
+import { RecurringInvoiceService } from './recurring-invoice.service';
+import { RecurringInvoiceScheduler } from './recurring-invoice.scheduler';
+import { PrismaModule } from '../prisma/prisma.module';
+import { InvoiceModule } from '../invoice/invoice.module';
+
+@Module({
+  imports: [PrismaModule, InvoiceModule],
+  controllers: [RecurringInvoiceController],
+  providers: [RecurringInvoiceService, RecurringInvoiceScheduler],
+})
+export class RecurringInvoiceModule {}
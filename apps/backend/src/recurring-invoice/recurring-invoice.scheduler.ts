@@ -0,0 +1,18 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { RecurringInvoiceService } from './recurring-invoice.service';
+
+@Injectable()
+export class RecurringInvoiceScheduler {
+  private readonly logger = new Logger(RecurringInvoiceScheduler.name);
+
+  constructor(
+    private readonly recurringInvoiceService: RecurringInvoiceService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async generateDueInvoices() {
+    const count = await this.recurringInvoiceService.runDue();
+    if (count > 0) this.logger.log(`${count} recurring invoice(s) generated`);
+  }
+}
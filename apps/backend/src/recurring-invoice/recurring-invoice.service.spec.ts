@@ -0,0 +1,175 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { RecurringInvoiceService } from './recurring-invoice.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { InvoiceService } from '../invoice/invoice.service';
+
+describe('RecurringInvoiceService', () => {
+  let service: RecurringInvoiceService;
+  const prisma = {
+    client: { findFirst: jest.fn() },
+    project: { findFirst: jest.fn() },
+    recurringInvoice: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    invoice: { findUniqueOrThrow: jest.fn() },
+  };
+  const invoiceService = { create: jest.fn(), send: jest.fn() };
+
+  const schedule = {
+    id: 'rec-1',
+    workspaceId: 'workspace-1',
+    title: 'Retainer',
+    description: null,
+    clientId: 'client-1',
+    projectId: null,
+    paymentTerms: null,
+    frequency: 'MONTHLY',
+    startDate: new Date(2026, 0, 1),
+    endDate: null,
+    nextRunDate: new Date(2026, 0, 1),
+    autoSend: false,
+    lines: [
+      {
+        description: 'Maintenance',
+        quantity: 1,
+        unit: null,
+        unitPriceHT: 800,
+        vatRate: 20,
+        discount: 0,
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.recurringInvoice.updateMany.mockResolvedValue({ count: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecurringInvoiceService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: InvoiceService, useValue: invoiceService },
+      ],
+    }).compile();
+
+    service = module.get<RecurringInvoiceService>(RecurringInvoiceService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('creates an invoice for the due occurrence and schedules the next one', async () => {
+    prisma.recurringInvoice.findMany.mockResolvedValue([schedule]);
+    invoiceService.create.mockResolvedValue({ id: 'inv-1', status: 'DRAFT' });
+
+    const count = await service.runDue(new Date(2026, 0, 10));
+
+    expect(count).toBe(1);
+    expect(invoiceService.create).toHaveBeenCalledWith(
+      'workspace-1',
+      expect.objectContaining({ title: 'Retainer', clientId: 'client-1' }),
+      { recurringInvoiceId: 'rec-1', recurringRunDate: new Date(2026, 0, 1) },
+    );
+    expect(prisma.recurringInvoice.updateMany).toHaveBeenCalledWith({
+      where: { id: 'rec-1', nextRunDate: new Date(2026, 0, 1) },
+      data: expect.objectContaining({
+        nextRunDate: new Date(2026, 1, 1),
+        active: true,
+      }),
+    });
+    expect(invoiceService.send).not.toHaveBeenCalled();
+  });
+
+  it('catches up on every occurrence missed while down', async () => {
+    prisma.recurringInvoice.findMany.mockResolvedValue([schedule]);
+    invoiceService.create.mockResolvedValue({ id: 'inv-1', status: 'DRAFT' });
+
+    const count = await service.runDue(new Date(2026, 2, 15));
+
+    expect(count).toBe(3);
+  });
+
+  it('does not duplicate an occurrence already invoiced before a restart', async () => {
+    prisma.recurringInvoice.findMany.mockResolvedValue([
+      { ...schedule, autoSend: true },
+    ]);
+    invoiceService.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+        code: 'P2002',
+        clientVersion: 'test',
+      }),
+    );
+    prisma.invoice.findUniqueOrThrow.mockResolvedValue({
+      id: 'inv-1',
+      status: 'DRAFT',
+    });
+
+    const count = await service.runDue(new Date(2026, 0, 10));
+
+    expect(count).toBe(0);
+    // the interrupted run had not sent it yet
+    expect(invoiceService.send).toHaveBeenCalledWith(
+      'workspace-1',
+      null,
+      'inv-1',
+    );
+    expect(prisma.recurringInvoice.updateMany).toHaveBeenCalled();
+  });
+
+  it('sends generated invoices when autoSend is set', async () => {
+    prisma.recurringInvoice.findMany.mockResolvedValue([
+      { ...schedule, autoSend: true },
+    ]);
+    invoiceService.create.mockResolvedValue({ id: 'inv-1', status: 'DRAFT' });
+
+    await service.runDue(new Date(2026, 0, 10));
+
+    expect(invoiceService.send).toHaveBeenCalledWith(
+      'workspace-1',
+      null,
+      'inv-1',
+    );
+  });
+
+  it('deactivates the schedule once past its end date', async () => {
+    prisma.recurringInvoice.findMany.mockResolvedValue([
+      { ...schedule, endDate: new Date(2026, 0, 15) },
+    ]);
+    invoiceService.create.mockResolvedValue({ id: 'inv-1', status: 'DRAFT' });
+
+    await service.runDue(new Date(2026, 2, 15));
+
+    expect(invoiceService.create).toHaveBeenCalledTimes(1);
+    expect(prisma.recurringInvoice.updateMany).toHaveBeenCalledWith({
+      where: expect.anything(),
+      data: expect.objectContaining({ active: false }),
+    });
+  });
+
+  it('refuses projects of another workspace', async () => {
+    prisma.client.findFirst.mockResolvedValue({ id: 'client-1' });
+    prisma.project.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.create('workspace-1', {
+        title: 'Retainer',
+        clientId: 'client-1',
+        projectId: 'project-2',
+        frequency: 'MONTHLY',
+        startDate: '2026-01-01',
+        lines: [{ description: 'Support', quantity: 1, unitPriceHT: 300 }],
+      }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(prisma.project.findFirst).toHaveBeenCalledWith({
+      where: { id: 'project-2', workspaceId: 'workspace-1' },
+      select: { id: true },
+    });
+    expect(prisma.recurringInvoice.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,299 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, RecurringFrequency } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { toLineRecords } from '../invoice/utils/totals.util';
+import { CreateRecurringInvoiceDto } from './dto/create-recurring-invoice.dto';
+import { UpdateRecurringInvoiceDto } from './dto/update-recurring-invoice.dto';
+import { getNextOccurrence } from './utils/recurrence.util';
+
+const RECURRING_INVOICE_INCLUDE = {
+  client: true,
+  project: true,
+  lines: { orderBy: { position: 'asc' } },
+} as const;
+
+type RecurringInvoiceWithRelations = Prisma.RecurringInvoiceGetPayload<{
+  include: typeof RECURRING_INVOICE_INCLUDE;
+}>;
+
+@Injectable()
+export class RecurringInvoiceService {
+  private readonly logger = new Logger(RecurringInvoiceService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private invoiceService: InvoiceService,
+  ) {}
+
+  async create(workspaceId: string, dto: CreateRecurringInvoiceDto) {
+    const { lines, startDate, endDate, ...data } = dto;
+    await this.assertClient(workspaceId, dto.clientId);
+    if (dto.projectId) await this.assertProject(workspaceId, dto.projectId);
+
+    const start = new Date(startDate);
+    const end = endDate ? new Date(endDate) : null;
+    if (end && end < start) {
+      throw new BadRequestException('endDate must be after startDate');
+    }
+
+    return this.prisma.recurringInvoice.create({
+      data: {
+        ...data,
+        startDate: start,
+        endDate: end,
+        nextRunDate: this.firstRunDate(start, dto.frequency),
+        workspaceId,
+        lines: { create: toLineRecords(lines) },
+      },
+      include: RECURRING_INVOICE_INCLUDE,
+    });
+  }
+
+  findAll(workspaceId: string) {
+    return this.prisma.recurringInvoice.findMany({
+      where: { workspaceId },
+      include: RECURRING_INVOICE_INCLUDE,
+      orderBy: { nextRunDate: 'asc' },
+    });
+  }
+
+  findOne(workspaceId: string, id: string) {
+    return this.prisma.recurringInvoice.findFirst({
+      where: { id, workspaceId },
+      include: {
+        ...RECURRING_INVOICE_INCLUDE,
+        invoices: {
+          select: {
+            id: true,
+            number: true,
+            status: true,
+            recurringRunDate: true,
+          },
+          orderBy: { recurringRunDate: 'desc' },
+        },
+      },
+    });
+  }
+
+  async update(
+    workspaceId: string,
+    id: string,
+    dto: UpdateRecurringInvoiceDto,
+  ) {
+    const { lines, startDate, endDate, ...data } = dto;
+
+    return this.prisma.$transaction(async (tx) => {
+      const existing = await tx.recurringInvoice.findFirst({
+        where: { id, workspaceId },
+      });
+      if (!existing) throw new NotFoundException('Recurring invoice not found');
+      if (dto.clientId) await this.assertClient(workspaceId, dto.clientId);
+      if (dto.projectId) await this.assertProject(workspaceId, dto.projectId);
+
+      const start = startDate ? new Date(startDate) : existing.startDate;
+      const end = endDate ? new Date(endDate) : existing.endDate;
+      if (end && end < start) {
+        throw new BadRequestException('endDate must be after startDate');
+      }
+
+      // A new rhythm only applies to occurrences that have not run yet
+      const frequency = dto.frequency ?? existing.frequency;
+      const rescheduled =
+        startDate !== undefined || dto.frequency !== undefined;
+
+      if (lines) {
+        await tx.recurringInvoiceLine.deleteMany({
+          where: { recurringInvoiceId: id },
+        });
+      }
+
+      return tx.recurringInvoice.update({
+        where: { id },
+        data: {
+          ...data,
+          startDate: start,
+          endDate: end,
+          ...(rescheduled && {
+            nextRunDate: this.firstRunDate(start, frequency),
+          }),
+          ...(lines && { lines: { create: toLineRecords(lines) } }),
+        },
+        include: RECURRING_INVOICE_INCLUDE,
+      });
+    });
+  }
+
+  // Invoices already generated stay, they just lose the link to the schedule
+  async remove(workspaceId: string, id: string) {
+    const existing = await this.prisma.recurringInvoice.findFirst({
+      where: { id, workspaceId },
+    });
+    if (!existing) throw new NotFoundException('Recurring invoice not found');
+
+    return await this.prisma.recurringInvoice.delete({ where: { id } });
+  }
+
+  /**
+   * Run by RecurringInvoiceScheduler: generates one invoice per occurrence
+   * due up to `now`, catching up on runs missed while the app was down.
+   * Returns the number of invoices created.
+   */
+  async runDue(now = new Date()) {
+    const due = await this.prisma.recurringInvoice.findMany({
+      where: { active: true, nextRunDate: { lte: now } },
+      include: RECURRING_INVOICE_INCLUDE,
+    });
+
+    let count = 0;
+    for (const schedule of due) {
+      try {
+        count += await this.runSchedule(schedule, now);
+      } catch (error) {
+        // the occurrence stays due and is retried on the next run
+        this.logger.warn(
+          `Could not generate invoice for schedule ${schedule.id}`,
+          error,
+        );
+      }
+    }
+
+    return count;
+  }
+
+  private async runSchedule(
+    schedule: RecurringInvoiceWithRelations,
+    now: Date,
+  ) {
+    const { startDate, endDate, frequency } = schedule;
+    let runDate = schedule.nextRunDate;
+    let count = 0;
+
+    while (runDate <= now) {
+      if (endDate && runDate > endDate) {
+        await this.prisma.recurringInvoice.update({
+          where: { id: schedule.id },
+          data: { active: false },
+        });
+        break;
+      }
+
+      if (await this.generate(schedule, runDate)) count++;
+
+      const next = getNextOccurrence(startDate, frequency, runDate);
+      // guarded on the run date read, so a concurrent run cannot skip ahead
+      const advanced = await this.prisma.recurringInvoice.updateMany({
+        where: { id: schedule.id, nextRunDate: runDate },
+        data: {
+          nextRunDate: next,
+          lastRunAt: now,
+          active: !endDate || next <= endDate,
+        },
+      });
+      if (advanced.count === 0 || (endDate && next > endDate)) break;
+
+      runDate = next;
+    }
+
+    return count;
+  }
+
+  // The (schedule, run date) pair is unique on Invoice: if the process died
+  // after creating the invoice but before moving nextRunDate, the retry hits
+  // the constraint and picks up the invoice created the first time.
+  private async generate(
+    schedule: RecurringInvoiceWithRelations,
+    runDate: Date,
+  ) {
+    let invoice: { id: string; status: string };
+    let created = true;
+
+    try {
+      invoice = await this.invoiceService.create(
+        schedule.workspaceId,
+        {
+          title: schedule.title,
+          description: schedule.description ?? undefined,
+          clientId: schedule.clientId,
+          projectId: schedule.projectId ?? undefined,
+          paymentTerms: schedule.paymentTerms ?? undefined,
+          lines: schedule.lines.map((line) => ({
+            description: line.description,
+            quantity: line.quantity,
+            unit: line.unit ?? undefined,
+            unitPriceHT: line.unitPriceHT,
+            vatRate: line.vatRate,
+            discount: line.discount,
+          })),
+        },
+        { recurringInvoiceId: schedule.id, recurringRunDate: runDate },
+      );
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== 'P2002'
+      ) {
+        throw error;
+      }
+
+      invoice = await this.prisma.invoice.findUniqueOrThrow({
+        where: {
+          recurringInvoiceId_recurringRunDate: {
+            recurringInvoiceId: schedule.id,
+            recurringRunDate: runDate,
+          },
+        },
+        select: { id: true, status: true },
+      });
+      created = false;
+    }
+
+    if (schedule.autoSend && invoice.status === 'DRAFT') {
+      try {
+        await this.invoiceService.send(schedule.workspaceId, null, invoice.id);
+      } catch (error) {
+        // e.g. incomplete business profile: the draft is kept for the user
+        this.logger.warn(
+          `Could not send recurring invoice ${invoice.id}`,
+          error,
+        );
+      }
+    }
+
+    return created;
+  }
+
+  // Occurrences before today are not billed retroactively
+  private firstRunDate(startDate: Date, frequency: RecurringFrequency) {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    if (startDate >= today) return startDate;
+    return getNextOccurrence(
+      startDate,
+      frequency,
+      new Date(today.getTime() - 1),
+    );
+  }
+
+  private async assertClient(workspaceId: string, clientId: string) {
+    const client = await this.prisma.client.findFirst({
+      where: { id: clientId, workspaceId },
+      select: { id: true },
+    });
+    if (!client) throw new NotFoundException('Client not found');
+  }
+
+  private async assertProject(workspaceId: string, projectId: string) {
+    const project = await this.prisma.project.findFirst({
+      where: { id: projectId, workspaceId },
+      select: { id: true },
+    });
+    if (!project) throw new NotFoundException('Project not found');
+  }
+}
@@ -0,0 +1,30 @@
+import { getNextOccurrence, getOccurrence } from './recurrence.util';
+
+describe('recurrence utils', () => {
+  it('adds weeks for weekly schedules', () => {
+    const start = new Date(2026, 0, 5);
+    expect(getOccurrence(start, 'WEEKLY', 2)).toEqual(new Date(2026, 0, 19));
+  });
+
+  it('clamps to the end of short months without drifting', () => {
+    const start = new Date(2026, 0, 31);
+    expect(getOccurrence(start, 'MONTHLY', 1)).toEqual(new Date(2026, 1, 28));
+    expect(getOccurrence(start, 'MONTHLY', 2)).toEqual(new Date(2026, 2, 31));
+  });
+
+  it('handles quarterly and yearly schedules', () => {
+    const start = new Date(2024, 1, 29);
+    expect(getOccurrence(start, 'QUARTERLY', 1)).toEqual(new Date(2024, 4, 29));
+    expect(getOccurrence(start, 'YEARLY', 1)).toEqual(new Date(2025, 1, 28));
+  });
+
+  it('returns the first occurrence after a date', () => {
+    const start = new Date(2026, 0, 15);
+    expect(getNextOccurrence(start, 'MONTHLY', new Date(2026, 0, 15))).toEqual(
+      new Date(2026, 1, 15),
+    );
+    expect(getNextOccurrence(start, 'MONTHLY', new Date(2026, 0, 1))).toEqual(
+      start,
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { RecurringFrequency } from '@prisma/client';
+
+const MONTHS: Record<Exclude<RecurringFrequency, 'WEEKLY'>, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12,
+};
+
+/**
+ * Date of the `index`-th occurrence of a schedule (0 is startDate). Always
+ * computed from the start so a short month does not shift later runs: a
+ * schedule starting on the 31st runs on Feb 28th, then on Mar 31st.
+ */
+export function getOccurrence(
+  startDate: Date,
+  frequency: RecurringFrequency,
+  index: number,
+): Date {
+  const date = new Date(startDate);
+
+  if (frequency === 'WEEKLY') {
+    date.setDate(date.getDate() + 7 * index);
+    return date;
+  }
+
+  const month = startDate.getMonth() + MONTHS[frequency] * index;
+  const lastDay = new Date(startDate.getFullYear(), month + 1, 0).getDate();
+  date.setDate(1);
+  date.setMonth(month);
+  date.setDate(Math.min(startDate.getDate(), lastDay));
+  return date;
+}
+
+// First occurrence strictly after `after`
+export function getNextOccurrence(
+  startDate: Date,
+  frequency: RecurringFrequency,
+  after: Date,
+): Date {
+  let index = 0;
+  let date = startDate;
+  while (date <= after) {
+    date = getOccurrence(startDate, frequency, ++index);
+  }
+  return date;
+}
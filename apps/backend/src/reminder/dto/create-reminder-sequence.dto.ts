@@ -0,0 +1,29 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ReminderStepDto } from './reminder-step.dto';
+
+export class CreateReminderSequenceDto {
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean; // applies to clients without a sequence of their own
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => ReminderStepDto)
+  steps: ReminderStepDto[];
+}
@@ -0,0 +1,32 @@
+import { ReminderTone } from '@prisma/client';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class ReminderStepDto {
+  @IsInt()
+  @Min(-30)
+  @Max(365)
+  offsetDays: number; // from the due date, negative before it
+
+  @IsEnum(ReminderTone)
+  tone: ReminderTone;
+
+  // Custom texts replacing the template of the tone; {number}, {amount},
+  // {dueDate}, {daysLate}, {client} and {sender} are filled in
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  subject?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  body?: string;
+}
@@ -0,0 +1,11 @@
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+
+export class UpdateClientRemindersDto {
+  @IsOptional()
+  @IsBoolean()
+  paused?: boolean; // for all the invoices of the client
+
+  @IsOptional()
+  @IsString()
+  sequenceId?: string | null; // null goes back to the default sequence
+}
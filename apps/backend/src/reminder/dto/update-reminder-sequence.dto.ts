@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateReminderSequenceDto } from './create-reminder-sequence.dto';
+
+export class UpdateReminderSequenceDto extends PartialType(
+  CreateReminderSequenceDto,
+) {}
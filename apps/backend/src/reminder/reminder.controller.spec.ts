@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReminderController } from './reminder.controller';
+import { ReminderService } from './reminder.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('ReminderController', () => {
+  let controller: ReminderController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ReminderController],
+      providers: [
+        { provide: ReminderService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<ReminderController>(ReminderController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
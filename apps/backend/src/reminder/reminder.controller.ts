@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { ApiScope } from '../api-key/decorator/api-scope.decorator';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
+import { ReminderService } from './reminder.service';
+import { CreateReminderSequenceDto } from './dto/create-reminder-sequence.dto';
+import { UpdateReminderSequenceDto } from './dto/update-reminder-sequence.dto';
+import { UpdateInvoiceRemindersDto } from './dto/update-invoice-reminders.dto';
+import { UpdateClientRemindersDto } from './dto/update-client-reminders.dto';
+
+@UseGuards(AuthGuard(['jwt', 'api-key']), WorkspaceGuard)
+@ApiScope('reminders')
+@Controller()
+export class ReminderController {
+  constructor(private readonly reminderService: ReminderService) {}
+
+  @Post('reminder-sequences')
+  create(
+    @Body() dto: CreateReminderSequenceDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.reminderService.create(user.wid, dto);
+  }
+
+  @Get('reminder-sequences')
+  findAll(@GetUser() user: WorkspaceUser) {
+    return this.reminderService.findAll(user.wid);
+  }
+
+  @Patch('reminder-sequences/:id')
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateReminderSequenceDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.reminderService.update(user.wid, id, dto);
+  }
+
+  @Delete('reminder-sequences/:id')
+  remove(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.reminderService.remove(user.wid, id);
+  }
+
+  // Pauses or resumes the reminders of one invoice
+  @Patch('invoices/:id/reminders')
+  updateInvoice(
+    @Param('id') id: string,
+    @Body() dto: UpdateInvoiceRemindersDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.reminderService.updateInvoice(user.wid, id, dto.paused);
+  }
+
+  // Pauses the reminders of a client or gives it its own sequence
+  @Patch('clients/:id/reminders')
+  updateClient(
+    @Param('id') id: string,
+    @Body() dto: UpdateClientRemindersDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.reminderService.updateClient(user.wid, id, dto);
+  }
+}
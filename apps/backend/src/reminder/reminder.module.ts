@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ReminderController } from './reminder.controller';
+import { ReminderService } from './reminder.service';
+import { ReminderScheduler } from './reminder.scheduler';
+import { PrismaModule } from '../prisma/prisma.module';
+import { MailModule } from '../mail/mail.module';
+import { InvoiceModule } from '../invoice/invoice.module';
+import { BusinessProfileModule } from '../business-profile/business-profile.module';
+
+@Module({
+  imports: [PrismaModule, MailModule, InvoiceModule, BusinessProfileModule],
+  controllers: [ReminderController],
+  providers: [ReminderService, ReminderScheduler],
+})
+export class ReminderModule {}
@@ -0,0 +1,17 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ReminderService } from './reminder.service';
+
+@Injectable()
+export class ReminderScheduler {
+  private readonly logger = new Logger(ReminderScheduler.name);
+
+  constructor(private readonly reminderService: ReminderService) {}
+
+  // Once a day, during business hours on the client's side
+  @Cron(CronExpression.EVERY_DAY_AT_9AM)
+  async sendDueReminders() {
+    const count = await this.reminderService.sendDue();
+    if (count > 0) this.logger.log(`${count} payment reminder(s) sent`);
+  }
+}
@@ -0,0 +1,200 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ReminderService } from './reminder.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+
+describe('ReminderService', () => {
+  let service: ReminderService;
+  const prisma = {
+    $transaction: jest.fn(),
+    invoice: { findMany: jest.fn(), updateMany: jest.fn() },
+    client: { updateMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+    reminderSequence: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    paymentReminder: { create: jest.fn(), update: jest.fn() },
+  };
+  const mailService = { send: jest.fn() };
+  const invoiceService = { findOne: jest.fn(), getPdf: jest.fn() };
+  const businessProfileService = { getMailSender: jest.fn() };
+
+  const now = new Date('2026-10-19T09:00:00Z');
+  const invoice = {
+    id: 'inv-1',
+    workspaceId: 'workspace-1',
+    number: 'FA-2026-0001',
+    amountTTC: 1200,
+    dueDate: new Date('2026-10-10T09:00:00Z'),
+    client: {
+      name: 'John Smith',
+      email: 'john@acme.test',
+      language: 'EN',
+      reminderSequence: null,
+    },
+    payments: [{ amount: 200 }],
+    creditNotes: [],
+    reminders: [{ offsetDays: -3 }],
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+    prisma.paymentReminder.create.mockResolvedValue({ id: 'reminder-1' });
+    businessProfileService.getMailSender.mockResolvedValue({
+      name: 'Doe & Co',
+      replyTo: 'billing@doe.test',
+    });
+    invoiceService.getPdf.mockResolvedValue({
+      fileName: 'FA-2026-0001.pdf',
+      file: 'stream',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReminderService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MailService, useValue: mailService },
+        { provide: InvoiceService, useValue: invoiceService },
+        {
+          provide: BusinessProfileService,
+          useValue: businessProfileService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReminderService>(ReminderService);
+  });
+
+  describe('sendDue', () => {
+    it('sends the step that has come and records it', async () => {
+      prisma.invoice.findMany.mockResolvedValue([invoice]);
+      mailService.send.mockResolvedValue('<message-1@smtp>');
+
+      expect(await service.sendDue(now)).toBe(1);
+
+      expect(prisma.invoice.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            remindersPaused: false,
+            client: { remindersPaused: false, email: { not: null } },
+          }),
+        }),
+      );
+      expect(prisma.paymentReminder.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            invoiceId: 'inv-1',
+            offsetDays: 7,
+            tone: 'REMINDER',
+            to: ['john@acme.test'],
+            subject: 'Reminder - Invoice FA-2026-0001',
+          },
+        }),
+      );
+      const [{ text }] = mailService.send.mock.calls[0] as [{ text: string }];
+      expect(text).toContain('€1,000.00');
+      expect(prisma.paymentReminder.update).toHaveBeenCalledWith({
+        where: { id: 'reminder-1' },
+        data: { status: 'SENT', messageId: '<message-1@smtp>' },
+      });
+    });
+
+    it('uses the default sequence of the user', async () => {
+      prisma.invoice.findMany.mockResolvedValue([invoice]);
+      prisma.reminderSequence.findFirst.mockResolvedValue({
+        steps: [{ offsetDays: 5, tone: 'FIRM', subject: null, body: null }],
+      });
+
+      await service.sendDue(now);
+
+      expect(prisma.paymentReminder.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ offsetDays: 5, tone: 'FIRM' }),
+        }),
+      );
+    });
+
+    it('skips sent steps and settled invoices', async () => {
+      prisma.invoice.findMany.mockResolvedValue([
+        { ...invoice, reminders: [{ offsetDays: 7 }] },
+        { ...invoice, id: 'inv-2', payments: [{ amount: 1200 }] },
+      ]);
+
+      expect(await service.sendDue(now)).toBe(0);
+      expect(prisma.paymentReminder.create).not.toHaveBeenCalled();
+    });
+
+    it('skips a step claimed by a concurrent run', async () => {
+      prisma.invoice.findMany.mockResolvedValue([invoice]);
+      prisma.paymentReminder.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      expect(await service.sendDue(now)).toBe(0);
+      expect(mailService.send).not.toHaveBeenCalled();
+    });
+
+    it('records failed deliveries and goes on', async () => {
+      prisma.invoice.findMany.mockResolvedValue([
+        invoice,
+        { ...invoice, id: 'inv-2' },
+      ]);
+      mailService.send
+        .mockRejectedValueOnce(new Error('Connection refused'))
+        .mockResolvedValueOnce('<message-2@smtp>');
+
+      expect(await service.sendDue(now)).toBe(1);
+      expect(prisma.paymentReminder.update).toHaveBeenCalledWith({
+        where: { id: 'reminder-1' },
+        data: { status: 'FAILED', error: 'Connection refused' },
+      });
+    });
+  });
+
+  it('refuses sequences with twice the same offset', () => {
+    expect(() =>
+      service.create('workspace-1', {
+        name: 'Strict',
+        steps: [
+          { offsetDays: 7, tone: 'REMINDER' },
+          { offsetDays: 7, tone: 'FIRM' },
+        ],
+      }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('moves the default to a new default sequence', async () => {
+    prisma.reminderSequence.create.mockResolvedValue({ id: 'seq-1' });
+
+    await service.create('workspace-1', {
+      name: 'Strict',
+      isDefault: true,
+      steps: [{ offsetDays: 7, tone: 'REMINDER' }],
+    });
+
+    expect(prisma.reminderSequence.updateMany).toHaveBeenCalledWith({
+      where: { workspaceId: 'workspace-1', isDefault: true },
+      data: { isDefault: false },
+    });
+  });
+
+  it('only assigns sequences of the user to a client', async () => {
+    prisma.reminderSequence.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.updateClient('workspace-1', 'client-1', { sequenceId: 'seq-2' }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(prisma.client.updateMany).not.toHaveBeenCalled();
+  });
+});
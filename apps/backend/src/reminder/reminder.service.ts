@@ -0,0 +1,303 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InvoiceStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { InvoiceService } from '../invoice/invoice.service';
+import { BusinessProfileService } from '../business-profile/business-profile.service';
+import { computeBalance } from '../invoice/utils/totals.util';
+import { renderReminderEmail } from '../mail/templates/reminder-email.template';
+import { CreateReminderSequenceDto } from './dto/create-reminder-sequence.dto';
+import { UpdateReminderSequenceDto } from './dto/update-reminder-sequence.dto';
+import { UpdateClientRemindersDto } from './dto/update-client-reminders.dto';
+import { ReminderStepDto } from './dto/reminder-step.dto';
+import {
+  daysFromDueDate,
+  DEFAULT_REMINDER_STEPS,
+  pickDueStep,
+  ReminderStepData,
+} from './utils/reminder-schedule.util';
+
+const SEQUENCE_INCLUDE = {
+  steps: { orderBy: { offsetDays: 'asc' } },
+} as const;
+
+const REMINDED_STATUSES: InvoiceStatus[] = ['SENT', 'OVERDUE'];
+
+const REMINDED_INVOICE_INCLUDE = {
+  client: { include: { reminderSequence: { include: SEQUENCE_INCLUDE } } },
+  payments: { select: { amount: true } },
+  creditNotes: { select: { amountTTC: true } },
+  reminders: { select: { offsetDays: true } },
+} as const;
+
+type RemindedInvoice = Prisma.InvoiceGetPayload<{
+  include: typeof REMINDED_INVOICE_INCLUDE;
+}>;
+
+function assertDistinctOffsets(steps: ReminderStepDto[]) {
+  const offsets = new Set(steps.map((step) => step.offsetDays));
+  if (offsets.size !== steps.length) {
+    throw new BadRequestException('Two steps cannot have the same offsetDays');
+  }
+}
+
+@Injectable()
+export class ReminderService {
+  private readonly logger = new Logger(ReminderService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailService: MailService,
+    private invoiceService: InvoiceService,
+    private businessProfileService: BusinessProfileService,
+  ) {}
+
+  create(workspaceId: string, dto: CreateReminderSequenceDto) {
+    const { steps, ...data } = dto;
+    assertDistinctOffsets(steps);
+
+    return this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) await this.clearDefault(tx, workspaceId);
+
+      return tx.reminderSequence.create({
+        data: { ...data, workspaceId, steps: { create: steps } },
+        include: SEQUENCE_INCLUDE,
+      });
+    });
+  }
+
+  findAll(workspaceId: string) {
+    return this.prisma.reminderSequence.findMany({
+      where: { workspaceId },
+      include: SEQUENCE_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  update(workspaceId: string, id: string, dto: UpdateReminderSequenceDto) {
+    const { steps, ...data } = dto;
+    if (steps) assertDistinctOffsets(steps);
+
+    return this.prisma.$transaction(async (tx) => {
+      await this.findSequence(tx, workspaceId, id);
+      if (dto.isDefault) await this.clearDefault(tx, workspaceId);
+
+      // Steps are replaced as a whole, the history keeps the offsets it used
+      if (steps) {
+        await tx.reminderStep.deleteMany({ where: { sequenceId: id } });
+      }
+
+      return tx.reminderSequence.update({
+        where: { id },
+        data: { ...data, ...(steps && { steps: { create: steps } }) },
+        include: SEQUENCE_INCLUDE,
+      });
+    });
+  }
+
+  async remove(workspaceId: string, id: string) {
+    await this.findSequence(this.prisma, workspaceId, id);
+    return this.prisma.reminderSequence.delete({ where: { id } });
+  }
+
+  async updateInvoice(workspaceId: string, id: string, paused: boolean) {
+    const updated = await this.prisma.invoice.updateMany({
+      where: { id, workspaceId },
+      data: { remindersPaused: paused },
+    });
+    if (updated.count === 0) throw new NotFoundException('Invoice not found');
+
+    return this.invoiceService.findOne(workspaceId, id);
+  }
+
+  async updateClient(
+    workspaceId: string,
+    id: string,
+    dto: UpdateClientRemindersDto,
+  ) {
+    if (dto.sequenceId) {
+      await this.findSequence(this.prisma, workspaceId, dto.sequenceId);
+    }
+
+    const updated = await this.prisma.client.updateMany({
+      where: { id, workspaceId },
+      data: {
+        remindersPaused: dto.paused,
+        reminderSequenceId: dto.sequenceId,
+      },
+    });
+    if (updated.count === 0) throw new NotFoundException('Client not found');
+
+    return this.prisma.client.findUniqueOrThrow({
+      where: { id },
+      select: {
+        id: true,
+        remindersPaused: true,
+        reminderSequence: { include: SEQUENCE_INCLUDE },
+      },
+    });
+  }
+
+  // Run by ReminderScheduler: sends the step that has come for every unpaid
+  // invoice whose reminders are not paused
+  async sendDue(now = new Date()) {
+    const invoices = await this.prisma.invoice.findMany({
+      where: {
+        status: { in: REMINDED_STATUSES },
+        dueDate: { not: null },
+        remindersPaused: false,
+        client: { remindersPaused: false, email: { not: null } },
+      },
+      include: REMINDED_INVOICE_INCLUDE,
+    });
+
+    const defaultSteps = new Map<string, ReminderStepData[]>();
+    let count = 0;
+    for (const invoice of invoices) {
+      try {
+        let steps: ReminderStepData[] | undefined =
+          invoice.client.reminderSequence?.steps;
+        if (!steps) {
+          if (!defaultSteps.has(invoice.workspaceId)) {
+            defaultSteps.set(
+              invoice.workspaceId,
+              await this.getDefaultSteps(invoice.workspaceId),
+            );
+          }
+          steps = defaultSteps.get(invoice.workspaceId);
+        }
+
+        if (await this.remind(invoice, steps ?? [], now)) count++;
+      } catch (error) {
+        // recorded as FAILED in the history, the next step is tried later
+        this.logger.warn(`Could not remind invoice ${invoice.id}`, error);
+      }
+    }
+
+    return count;
+  }
+
+  private async remind(
+    invoice: RemindedInvoice,
+    steps: ReminderStepData[],
+    now: Date,
+  ) {
+    const { dueDate, client } = invoice;
+    if (!dueDate || !client.email) return false;
+
+    const step = pickDueStep(
+      steps,
+      dueDate,
+      invoice.reminders.map((reminder) => reminder.offsetDays),
+      now,
+    );
+    const { balanceDue } = computeBalance(invoice);
+    if (!step || balanceDue <= 0) return false;
+
+    const sender = await this.businessProfileService.getMailSender(
+      invoice.workspaceId,
+    );
+    const { subject, text, html } = renderReminderEmail(
+      {
+        tone: step.tone,
+        number: invoice.number ?? '',
+        customerName: client.name,
+        senderName: sender.name,
+        balanceDue,
+        dueDate,
+        daysLate: daysFromDueDate(dueDate, now),
+        subject: step.subject,
+        body: step.body,
+      },
+      client.language,
+    );
+    const to = [client.email];
+
+    // Claims the step first: a concurrent run fails on (invoice, offset)
+    let reminder: { id: string };
+    try {
+      reminder = await this.prisma.paymentReminder.create({
+        data: {
+          invoiceId: invoice.id,
+          offsetDays: step.offsetDays,
+          tone: step.tone,
+          to,
+          subject,
+        },
+        select: { id: true },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      const { fileName, file } = await this.invoiceService.getPdf(
+        invoice.workspaceId,
+        invoice.id,
+      );
+      const messageId = await this.mailService.send({
+        senderName: sender.name,
+        replyTo: sender.replyTo,
+        to,
+        subject,
+        text,
+        html,
+        attachments: [
+          { filename: fileName, content: file, contentType: 'application/pdf' },
+        ],
+      });
+      await this.prisma.paymentReminder.update({
+        where: { id: reminder.id },
+        data: { status: 'SENT', messageId },
+      });
+      return true;
+    } catch (error) {
+      await this.prisma.paymentReminder.update({
+        where: { id: reminder.id },
+        data: {
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      throw error;
+    }
+  }
+
+  private async getDefaultSteps(workspaceId: string) {
+    const sequence = await this.prisma.reminderSequence.findFirst({
+      where: { workspaceId, isDefault: true },
+      include: SEQUENCE_INCLUDE,
+    });
+    return sequence?.steps ?? DEFAULT_REMINDER_STEPS;
+  }
+
+  private clearDefault(tx: Prisma.TransactionClient, workspaceId: string) {
+    return tx.reminderSequence.updateMany({
+      where: { workspaceId, isDefault: true },
+      data: { isDefault: false },
+    });
+  }
+
+  private async findSequence(
+    client: Prisma.TransactionClient,
+    workspaceId: string,
+    id: string,
+  ) {
+    const sequence = await client.reminderSequence.findFirst({
+      where: { id, workspaceId },
+    });
+    if (!sequence) throw new NotFoundException('Reminder sequence not found');
+    return sequence;
+  }
+}
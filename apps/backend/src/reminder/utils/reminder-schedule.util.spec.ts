@@ -0,0 +1,33 @@
+import { DEFAULT_REMINDER_STEPS, pickDueStep } from './reminder-schedule.util';
+
+describe('pickDueStep', () => {
+  const dueDate = new Date('2026-10-01T09:00:00Z');
+  const at = (days: number) =>
+    new Date(dueDate.getTime() + days * 24 * 60 * 60 * 1000);
+
+  it('waits until the first step has come', () => {
+    expect(pickDueStep(DEFAULT_REMINDER_STEPS, dueDate, [], at(-4))).toBe(null);
+    expect(pickDueStep(DEFAULT_REMINDER_STEPS, dueDate, [], at(-3))).toEqual({
+      offsetDays: -3,
+      tone: 'COURTESY',
+    });
+  });
+
+  it('sends each step once', () => {
+    expect(pickDueStep(DEFAULT_REMINDER_STEPS, dueDate, [-3], at(2))).toBe(
+      null,
+    );
+    expect(
+      pickDueStep(DEFAULT_REMINDER_STEPS, dueDate, [-3], at(8))?.offsetDays,
+    ).toBe(7);
+  });
+
+  it('skips the steps that were missed', () => {
+    expect(
+      pickDueStep(DEFAULT_REMINDER_STEPS, dueDate, [], at(20))?.offsetDays,
+    ).toBe(15);
+    expect(pickDueStep(DEFAULT_REMINDER_STEPS, dueDate, [30], at(31))).toBe(
+      null,
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { ReminderTone } from '@prisma/client';
+
+export interface ReminderStepData {
+  offsetDays: number;
+  tone: ReminderTone;
+  subject?: string | null;
+  body?: string | null;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Used by users who have not set up a default sequence of their own
+export const DEFAULT_REMINDER_STEPS: ReminderStepData[] = [
+  { offsetDays: -3, tone: 'COURTESY' },
+  { offsetDays: 7, tone: 'REMINDER' },
+  { offsetDays: 15, tone: 'FIRM' },
+  { offsetDays: 30, tone: 'FORMAL_NOTICE' },
+];
+
+// Whole days from the due date to now, negative before it
+export function daysFromDueDate(dueDate: Date, now: Date): number {
+  return Math.floor((now.getTime() - dueDate.getTime()) / DAY);
+}
+
+/**
+ * The step to send now, if any: the latest step whose date has come, unless
+ * it or a later one was already sent. Steps missed in between (e.g. the
+ * invoice was issued after them) are skipped rather than sent in a burst.
+ */
+export function pickDueStep<T extends ReminderStepData>(
+  steps: T[],
+  dueDate: Date,
+  sentOffsets: number[],
+  now: Date,
+): T | null {
+  const elapsed = daysFromDueDate(dueDate, now);
+  const due = steps
+    .filter((step) => step.offsetDays <= elapsed)
+    .sort((a, b) => a.offsetDays - b.offsetDays)
+    .at(-1);
+
+  if (!due || sentOffsets.some((offset) => offset >= due.offsetDays)) {
+    return null;
+  }
+  return due;
+}
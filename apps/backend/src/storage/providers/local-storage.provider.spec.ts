@@ -0,0 +1,51 @@
+import { NotFoundException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageProvider } from './local-storage.provider';
+
+async function read(stream: Readable) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString();
+}
+
+describe('LocalStorageProvider', () => {
+  let root: string;
+  let storage: LocalStorageProvider;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+    storage = new LocalStorageProvider(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('stores, reads back and deletes a file', async () => {
+    await storage.put('invoices/inv-1.pdf', Buffer.from('%PDF-'));
+
+    expect(await read(await storage.get('invoices/inv-1.pdf'))).toBe('%PDF-');
+    expect(fs.readdirSync(path.join(root, 'invoices'))).toEqual(['inv-1.pdf']);
+
+    await storage.delete('invoices/inv-1.pdf');
+    await expect(storage.get('invoices/inv-1.pdf')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('refuses keys outside its root', async () => {
+    await expect(storage.put('../escape.pdf', Buffer.from(''))).rejects.toThrow(
+      'Invalid storage key',
+    );
+    await expect(storage.get('/etc/passwd')).rejects.toThrow(
+      'Invalid storage key',
+    );
+  });
+
+  it('cannot sign URLs', async () => {
+    expect(await storage.getSignedUrl()).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { NotFoundException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { StorageProvider } from '../storage.provider';
+
+// Files under a root directory; share it between replicas with a volume
+export class LocalStorageProvider extends StorageProvider {
+  private readonly root: string;
+
+  constructor(root: string) {
+    super();
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Buffer) {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Readers never see a partially written file
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmpPath, body);
+    await fs.promises.rename(tmpPath, filePath);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch {
+      throw new NotFoundException('File not found');
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  getSignedUrl() {
+    return Promise.resolve(null);
+  }
+
+  private resolve(key: string) {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
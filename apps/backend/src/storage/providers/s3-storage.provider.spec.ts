@@ -0,0 +1,131 @@
+import { NotFoundException } from '@nestjs/common';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { S3StorageProvider } from './s3-storage.provider';
+
+async function read(stream: Readable) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString();
+}
+
+// Stand-in for MinIO: path-style objects of a single bucket kept in memory
+function createS3Server(bucket: string) {
+  const objects = new Map<string, { body: Buffer; contentType: string }>();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+    const prefix = `/${bucket}/`;
+    if (!url.pathname.startsWith(prefix)) {
+      res.writeHead(404).end();
+      return;
+    }
+    const key = decodeURIComponent(url.pathname.slice(prefix.length));
+
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const object = objects.get(key);
+      switch (req.method) {
+        case 'PUT':
+          objects.set(key, {
+            body: Buffer.concat(chunks),
+            contentType: req.headers['content-type'] ?? '',
+          });
+          res.writeHead(200, { ETag: '"etag"' }).end();
+          return;
+        case 'GET':
+          if (!object) {
+            res
+              .writeHead(404, { 'Content-Type': 'application/xml' })
+              .end(
+                '<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>',
+              );
+            return;
+          }
+          res
+            .writeHead(200, {
+              'Content-Type': object.contentType,
+              'Content-Length': object.body.length,
+            })
+            .end(object.body);
+          return;
+        case 'DELETE':
+          objects.delete(key);
+          res.writeHead(204).end();
+          return;
+        default:
+          res.writeHead(405).end();
+      }
+    });
+  });
+
+  return { server, objects };
+}
+
+describe('S3StorageProvider', () => {
+  const { server, objects } = createS3Server('documents');
+  let storage: S3StorageProvider;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    storage = new S3StorageProvider({
+      bucket: 'documents',
+      region: 'us-east-1',
+      endpoint,
+      forcePathStyle: true,
+      accessKeyId: 'minio',
+      secretAccessKey: 'minio-secret',
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('stores, reads back and deletes an object', async () => {
+    await storage.put(
+      'invoices/inv-1.pdf',
+      Buffer.from('%PDF-'),
+      'application/pdf',
+    );
+
+    expect(objects.get('invoices/inv-1.pdf')?.contentType).toBe(
+      'application/pdf',
+    );
+    expect(await read(await storage.get('invoices/inv-1.pdf'))).toBe('%PDF-');
+
+    await storage.delete('invoices/inv-1.pdf');
+    expect(objects.has('invoices/inv-1.pdf')).toBe(false);
+  });
+
+  it('reports missing objects as not found', async () => {
+    await expect(storage.get('invoices/missing.pdf')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('signs URLs that expire', async () => {
+    await storage.put(
+      'quotes/q-1.pdf',
+      Buffer.from('%PDF-'),
+      'application/pdf',
+    );
+
+    const url = new URL(await storage.getSignedUrl('quotes/q-1.pdf', 300));
+
+    expect(url.origin + url.pathname).toBe(
+      `${endpoint}/documents/quotes/q-1.pdf`,
+    );
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('300');
+    expect(url.searchParams.get('X-Amz-Signature')).toBeTruthy();
+
+    const response = await fetch(url);
+    expect(await response.text()).toBe('%PDF-');
+  });
+});
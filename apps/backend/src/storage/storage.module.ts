@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { StorageProvider } from './storage.provider';
+import { LocalStorageProvider } from './providers/local-storage.provider';
+import { S3StorageProvider } from './providers/s3-storage.provider';
+
+// STORAGE_DRIVER picks the backend: "local" (default) or "s3"
+export function createStorageProvider(): StorageProvider {
+  if (process.env.STORAGE_DRIVER !== 's3') {
+    return new LocalStorageProvider(process.env.STORAGE_LOCAL_DIR ?? 'storage');
+  }
+
+  if (!process.env.S3_BUCKET) {
+    throw new Error('S3_BUCKET is required when STORAGE_DRIVER is s3');
+  }
+  return new S3StorageProvider({
+    bucket: process.env.S3_BUCKET,
+    region: process.env.S3_REGION ?? 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+  });
+}
+
+@Module({
+  providers: [{ provide: StorageProvider, useFactory: createStorageProvider }],
+  exports: [StorageProvider],
+})
+export class StorageModule {}
@@ -0,0 +1,18 @@
+import { Readable } from 'stream';
+
+/**
+ * Where generated files live. Files are addressed by a key relative to the
+ * storage root (e.g. "invoices/<id>.pdf"), never by a server path, so they
+ * stay reachable from every replica.
+ */
+export abstract class StorageProvider {
+  abstract put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  // Throws NotFoundException when nothing is stored under the key
+  abstract get(key: string): Promise<Readable>;
+
+  abstract delete(key: string): Promise<void>;
+
+  // Temporary public URL, or null when the backend cannot sign URLs
+  abstract getSignedUrl(key: string, expiresIn: number): Promise<string | null>;
+}
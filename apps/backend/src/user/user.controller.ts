@@ -3,6 +3,8 @@ import { AuthGuard } from '@nestjs/passport';
 import { GetUser } from '../auth/decorator/get-user.decorator';
 import { UserService } from './user.service';
 import { UserPayload } from '../auth/types/auth.types';
+import { WorkspaceGuard } from '../workspace/guard/workspace.guard';
+import { WorkspaceUser } from '../workspace/types/workspace.types';
 
 @Controller('users')
 @UseGuards(AuthGuard('jwt'))
@@ -19,10 +21,12 @@ export class UserController {
     };
   }
 
+  // Of the active workspace
+  @UseGuards(WorkspaceGuard)
   @Get('stats')
-  async getUserStats(@GetUser() user: UserPayload) {
+  async getUserStats(@GetUser() user: WorkspaceUser) {
     await this.userService.validateAndGetUser(user.sub);
-    const stats = this.userService.getUserStats();
+    const stats = await this.userService.getUserStats(user.wid);
 
     return {
       userId: user.sub,
@@ -31,10 +35,11 @@ export class UserController {
     };
   }
 
+  @UseGuards(WorkspaceGuard)
   @Get('profile')
-  async getProfile(@GetUser() user: UserPayload) {
+  async getProfile(@GetUser() user: WorkspaceUser) {
     const userData = await this.userService.validateAndGetUser(user.sub);
-    const stats = this.userService.getUserStats();
+    const stats = await this.userService.getUserStats(user.wid);
 
     return {
       profile: userData,
@@ -1,37 +1,22 @@
-import {
-  Injectable,
-  NotFoundException,
-  ForbiddenException,
-} from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { UserPayload } from '../auth/types/auth.types';
+import { roundAmount } from '../invoice/utils/totals.util';
+import { ISSUED_STATUSES } from '../invoice/utils/invoice-status.util';
 
 @Injectable()
 export class UserService {
   constructor(private prisma: PrismaService) {}
 
-  // Only allow admins to fetch all users
-  async findAll(requestingUser: UserPayload) {
-    if (requestingUser.role !== 'admin') {
-      throw new ForbiddenException('Only admins can access all users');
-    }
-    return this.prisma.user.findMany({
-      select: {
-        id: true,
-        email: true,
-        createdAt: true,
-        role: true, // Add more fields as needed
-        // Do not select password
-      },
-    });
-  }
-
   async findUserById(userId: string) {
     return this.prisma.user.findUnique({
       where: { id: userId },
       select: {
         id: true,
         email: true,
+        emailVerifiedAt: true,
+        twoFactorEnabledAt: true,
+        twoFactorRequired: true,
         createdAt: true,
         role: true, // Add more fields as needed
         // Do not select password
@@ -45,15 +30,35 @@ export class UserService {
     return user;
   }
 
-  getUserStats() {
-    // This is where you'd add business logic
-    // For now, return mock data
-    const stats = {
-      totalProjects: 0,
-      totalInvoices: 0,
-      totalRevenue: 0,
-      activeClients: 0,
+  // Revenue is what was invoiced (excl. VAT) minus what was credited back
+  async getUserStats(workspaceId: string) {
+    const issued = {
+      workspaceId,
+      status: { in: ISSUED_STATUSES },
+    } satisfies Prisma.InvoiceWhereInput;
+
+    const [totalProjects, totalInvoices, invoiced, credited, activeClients] =
+      await Promise.all([
+        this.prisma.project.count({ where: { workspaceId } }),
+        this.prisma.invoice.count({ where: issued }),
+        this.prisma.invoice.aggregate({
+          where: issued,
+          _sum: { amountHT: true },
+        }),
+        this.prisma.creditNote.aggregate({
+          where: { workspaceId },
+          _sum: { amountHT: true },
+        }),
+        this.prisma.client.count({ where: { workspaceId } }),
+      ]);
+
+    return {
+      totalProjects,
+      totalInvoices,
+      totalRevenue: roundAmount(
+        (invoiced._sum.amountHT ?? 0) - (credited._sum.amountHT ?? 0),
+      ),
+      activeClients,
     };
-    return stats;
   }
 }
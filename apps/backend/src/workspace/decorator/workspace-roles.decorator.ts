@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { WorkspaceRole } from '@prisma/client';
+
+export const WORKSPACE_ROLES_KEY = 'workspaceRoles';
+
+// Read by WorkspaceGuard: the roles in the active workspace a route needs
+export const WorkspaceRoles = (...roles: WorkspaceRole[]) =>
+  SetMetadata(WORKSPACE_ROLES_KEY, roles);
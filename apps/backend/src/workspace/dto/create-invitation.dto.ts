@@ -0,0 +1,10 @@
+import { WorkspaceRole } from '@prisma/client';
+import { IsEmail, IsEnum } from 'class-validator';
+
+export class CreateInvitationDto {
+  @IsEmail()
+  email: string;
+
+  @IsEnum(WorkspaceRole)
+  role: WorkspaceRole;
+}
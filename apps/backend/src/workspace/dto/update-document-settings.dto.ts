@@ -0,0 +1,31 @@
+import { DocumentTemplate } from '@prisma/client';
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class UpdateDocumentSettingsDto {
+  @IsOptional()
+  @IsEnum(DocumentTemplate)
+  documentTemplate?: DocumentTemplate;
+
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, {
+    message: 'documentAccentColor must be a hex colour such as #1f2937',
+  })
+  documentAccentColor?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  documentFooter?: string;
+
+  // Shown as the sender of the emails carrying the documents
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  mailSenderName?: string;
+}
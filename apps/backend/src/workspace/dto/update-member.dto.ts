@@ -0,0 +1,7 @@
+import { WorkspaceRole } from '@prisma/client';
+import { IsEnum } from 'class-validator';
+
+export class UpdateMemberDto {
+  @IsEnum(WorkspaceRole)
+  role: WorkspaceRole;
+}
@@ -0,0 +1,30 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+const SEQ_TOKEN = /\{seq(:\d+)?\}/;
+
+// Tokens: {YYYY}, {YY}, {MM} and the mandatory {seq} / {seq:N} (zero-padded)
+export class UpdateNumberingDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  @Matches(SEQ_TOKEN, {
+    message: 'invoiceNumberPattern must contain a {seq} token',
+  })
+  invoiceNumberPattern?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  @Matches(SEQ_TOKEN, {
+    message: 'quoteNumberPattern must contain a {seq} token',
+  })
+  quoteNumberPattern?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  @Matches(SEQ_TOKEN, {
+    message: 'creditNoteNumberPattern must contain a {seq} token',
+  })
+  creditNoteNumberPattern?: string;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateWorkspaceDto } from './create-workspace.dto';
+
+export class UpdateWorkspaceDto extends PartialType(CreateWorkspaceDto) {}
@@ -0,0 +1,103 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WorkspaceRole } from '@prisma/client';
+import { WorkspaceGuard } from './workspace.guard';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('WorkspaceGuard', () => {
+  const reflector = { getAllAndOverride: jest.fn() };
+  const prisma = { workspaceMember: { findUnique: jest.fn() } };
+  const guard = new WorkspaceGuard(
+    reflector as unknown as Reflector,
+    prisma as unknown as PrismaService,
+  );
+
+  const contextOf = (method: string, wid?: string, scopes?: string[]) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method,
+          user: scopes
+            ? { sub: 'user-1', wid, kid: 'key-1', scopes }
+            : { sub: 'user-1', wid },
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const memberOf = (role: WorkspaceRole) =>
+    prisma.workspaceMember.findUnique.mockResolvedValue({ role });
+
+  beforeEach(() => jest.resetAllMocks());
+
+  it('rejects tokens without a workspace or membership', async () => {
+    await expect(guard.canActivate(contextOf('GET'))).rejects.toThrow(
+      ForbiddenException,
+    );
+
+    prisma.workspaceMember.findUnique.mockResolvedValue(null);
+    await expect(
+      guard.canActivate(contextOf('GET', 'workspace-1')),
+    ).rejects.toThrow(ForbiddenException);
+    expect(prisma.workspaceMember.findUnique).toHaveBeenCalledWith({
+      where: {
+        workspaceId_userId: { workspaceId: 'workspace-1', userId: 'user-1' },
+      },
+      select: { role: true },
+    });
+  });
+
+  it('keeps accountants to reads', async () => {
+    memberOf('ACCOUNTANT');
+
+    await expect(
+      guard.canActivate(contextOf('GET', 'workspace-1')),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(contextOf('POST', 'workspace-1')),
+    ).resolves.toBe(false);
+
+    memberOf('MEMBER');
+    await expect(
+      guard.canActivate(contextOf('POST', 'workspace-1')),
+    ).resolves.toBe(true);
+  });
+
+  it('only lets the listed roles through', async () => {
+    reflector.getAllAndOverride.mockReturnValue(['OWNER', 'ADMIN']);
+
+    memberOf('ADMIN');
+    await expect(
+      guard.canActivate(contextOf('PATCH', 'workspace-1')),
+    ).resolves.toBe(true);
+
+    memberOf('MEMBER');
+    await expect(
+      guard.canActivate(contextOf('PATCH', 'workspace-1')),
+    ).resolves.toBe(false);
+  });
+
+  it('needs the scope of the route for API keys', async () => {
+    memberOf('MEMBER');
+    reflector.getAllAndOverride.mockImplementation((key: string) =>
+      key === 'apiScope' ? 'invoices' : undefined,
+    );
+    const scopes = ['invoices:read'];
+
+    await expect(
+      guard.canActivate(contextOf('GET', 'workspace-1', scopes)),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(contextOf('POST', 'workspace-1', scopes)),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('keeps API keys out of routes without a scope', async () => {
+    memberOf('OWNER');
+
+    await expect(
+      guard.canActivate(contextOf('GET', 'workspace-1', ['invoices:read'])),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
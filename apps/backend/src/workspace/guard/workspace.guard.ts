@@ -0,0 +1,66 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WorkspaceRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { WORKSPACE_ROLES_KEY } from '../decorator/workspace-roles.decorator';
+import { ApiKeyPayload, UserPayload } from '../../auth/types/auth.types';
+import { API_SCOPE_KEY } from '../../api-key/decorator/api-scope.decorator';
+import { ApiResource, scopeOf } from '../../api-key/utils/api-scope.util';
+
+const READ_METHODS = ['GET', 'HEAD'];
+
+/**
+ * Lets members of the workspace of the token through, after the jwt guard.
+ * The membership is read on every request, so removals and role changes
+ * apply at once. Accountants are read-only unless a route lists them.
+ * API keys also need the scope of the route, on top of the role.
+ */
+@Injectable()
+export class WorkspaceGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<{ method: string; user?: UserPayload | ApiKeyPayload }>();
+    const { user } = request;
+    if (!user?.wid) throw new ForbiddenException('No workspace selected');
+
+    const membership = await this.prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: { workspaceId: user.wid, userId: user.sub },
+      },
+      select: { role: true },
+    });
+    if (!membership) {
+      throw new ForbiddenException('Not a member of this workspace');
+    }
+    user.workspaceRole = membership.role;
+
+    const read = READ_METHODS.includes(request.method);
+    if ('kid' in user) {
+      const resource = this.reflector.getAllAndOverride<
+        ApiResource | undefined
+      >(API_SCOPE_KEY, [context.getHandler(), context.getClass()]);
+      if (!resource || !user.scopes.includes(scopeOf(resource, read))) {
+        throw new ForbiddenException('The API key lacks the scope');
+      }
+    }
+
+    const roles = this.reflector.getAllAndOverride<WorkspaceRole[] | undefined>(
+      WORKSPACE_ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (roles?.length) return roles.includes(membership.role);
+
+    return membership.role !== 'ACCOUNTANT' || read;
+  }
+}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadGatewayException, ForbiddenException } from '@nestjs/common';
+import { InvitationService } from './invitation.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { hashToken } from '../auth/utils/token.util';
+
+describe('InvitationService', () => {
+  let service: InvitationService;
+  const prisma = {
+    $transaction: jest.fn(),
+    user: { findUnique: jest.fn() },
+    workspaceMember: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    workspaceInvitation: {
+      create: jest.fn(),
+      delete: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const mailService = { send: jest.fn() };
+
+  const inviter = {
+    id: 'user-1',
+    email: 'jane@example.com',
+    role: 'OWNER' as const,
+  };
+
+  const invitation = {
+    id: 'invitation-1',
+    workspaceId: 'workspace-1',
+    email: 'john@example.com',
+    role: 'ACCOUNTANT',
+    acceptedAt: null,
+    expiresAt: new Date(Date.now() + 60_000),
+    workspace: { id: 'workspace-1', name: 'Doe & Co' },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.$transaction.mockImplementation(
+      (fn: (tx: typeof prisma) => unknown) => fn(prisma),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MailService, useValue: mailService },
+      ],
+    }).compile();
+
+    service = module.get<InvitationService>(InvitationService);
+  });
+
+  it('emails a link to accept the invitation', async () => {
+    prisma.workspaceInvitation.create.mockResolvedValue(invitation);
+
+    await service.create('workspace-1', inviter, {
+      email: 'John@Example.com',
+      role: 'ACCOUNTANT',
+    });
+
+    const [{ to, text }] = mailService.send.mock.calls[0] as [
+      { to: string[]; text: string },
+    ];
+    expect(to).toEqual(['john@example.com']);
+    const token = /\/invitations\/accept\?token=([\w-]+)/.exec(text)![1];
+    expect(prisma.workspaceInvitation.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          email: 'john@example.com',
+          tokenHash: hashToken(token),
+        }),
+      }),
+    );
+  });
+
+  it('drops invitations that could not be sent', async () => {
+    prisma.workspaceInvitation.create.mockResolvedValue(invitation);
+    mailService.send.mockRejectedValue(new Error('SMTP down'));
+
+    await expect(
+      service.create('workspace-1', inviter, {
+        email: 'john@example.com',
+        role: 'MEMBER',
+      }),
+    ).rejects.toThrow(BadGatewayException);
+    expect(prisma.workspaceInvitation.delete).toHaveBeenCalledWith({
+      where: { id: 'invitation-1' },
+    });
+  });
+
+  it('adds the invited account with the invitation role', async () => {
+    prisma.workspaceInvitation.findUnique.mockResolvedValue(invitation);
+    prisma.user.findUnique.mockResolvedValue({ email: 'John@example.com' });
+    prisma.workspaceInvitation.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.accept('user-2', 'token')).resolves.toEqual({
+      id: 'workspace-1',
+      name: 'Doe & Co',
+      role: 'ACCOUNTANT',
+    });
+    expect(prisma.workspaceMember.create).toHaveBeenCalledWith({
+      data: {
+        workspaceId: 'workspace-1',
+        userId: 'user-2',
+        role: 'ACCOUNTANT',
+      },
+    });
+  });
+
+  it('refuses invitations meant for another account', async () => {
+    prisma.workspaceInvitation.findUnique.mockResolvedValue(invitation);
+    prisma.user.findUnique.mockResolvedValue({ email: 'eve@example.com' });
+
+    await expect(service.accept('user-3', 'token')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(prisma.workspaceMember.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { WorkspaceRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { ACCOUNT_SENDER_NAME } from '../mail/templates/account-email.template';
+import { renderInvitationEmail } from '../mail/templates/workspace-email.template';
+import { generateToken, hashToken } from '../auth/utils/token.util';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { assertCanManage } from './utils/workspace.util';
+
+const DAY = 24 * 60 * 60 * 1000;
+const INVITATION_TTL_DAYS = 7;
+
+// Frontend page the link of the email opens
+const APP_URL = process.env.APP_URL ?? 'http://localhost:3001';
+
+const INVITATION_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  expiresAt: true,
+  createdAt: true,
+} as const;
+
+@Injectable()
+export class InvitationService {
+  private readonly logger = new Logger(InvitationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailService: MailService,
+  ) {}
+
+  async create(
+    workspaceId: string,
+    inviter: { id: string; email: string; role: WorkspaceRole },
+    dto: CreateInvitationDto,
+  ) {
+    assertCanManage(inviter.role, dto.role);
+
+    const email = dto.email.toLowerCase();
+    const member = await this.prisma.workspaceMember.findFirst({
+      where: {
+        workspaceId,
+        user: { email: { equals: email, mode: 'insensitive' } },
+      },
+    });
+    if (member) throw new ConflictException('Already a member');
+
+    const token = generateToken();
+    const invitation = await this.prisma.workspaceInvitation.create({
+      data: {
+        workspaceId,
+        email,
+        role: dto.role,
+        tokenHash: hashToken(token),
+        invitedById: inviter.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * DAY),
+      },
+      select: { ...INVITATION_SELECT, workspace: { select: { name: true } } },
+    });
+    const { workspace, ...created } = invitation;
+
+    // An invitation nobody received is dropped, so it can be sent again
+    try {
+      await this.mailService.send({
+        senderName: ACCOUNT_SENDER_NAME,
+        to: [email],
+        ...renderInvitationEmail(
+          workspace.name,
+          inviter.email,
+          `${APP_URL}/invitations/accept?token=${token}`,
+          INVITATION_TTL_DAYS,
+        ),
+      });
+    } catch (error) {
+      this.logger.warn(`Could not send the invitation ${invitation.id}`, error);
+      await this.prisma.workspaceInvitation.delete({
+        where: { id: invitation.id },
+      });
+      throw new BadGatewayException('The email could not be sent');
+    }
+
+    return created;
+  }
+
+  // Pending ones, accepted invitations are members now
+  findAll(workspaceId: string) {
+    return this.prisma.workspaceInvitation.findMany({
+      where: { workspaceId, acceptedAt: null, expiresAt: { gt: new Date() } },
+      select: INVITATION_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async remove(workspaceId: string, id: string) {
+    const deleted = await this.prisma.workspaceInvitation.deleteMany({
+      where: { id, workspaceId, acceptedAt: null },
+    });
+    if (deleted.count === 0)
+      throw new NotFoundException('Invitation not found');
+  }
+
+  /**
+   * Makes the signed-in user a member. The link only works for the account
+   * of the invited email, so a forwarded email does not let anyone in.
+   */
+  async accept(userId: string, token: string) {
+    const invitation = await this.prisma.workspaceInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { workspace: { select: { id: true, name: true } } },
+    });
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.expiresAt <= new Date()
+    ) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+    if (user?.email.toLowerCase() !== invitation.email) {
+      throw new ForbiddenException('This invitation is for another account');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Guarded, so the invitation is used once
+      const accepted = await tx.workspaceInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+      if (accepted.count === 0) {
+        throw new BadRequestException('Invalid or expired invitation');
+      }
+
+      const existing = await tx.workspaceMember.findUnique({
+        where: {
+          workspaceId_userId: { workspaceId: invitation.workspaceId, userId },
+        },
+      });
+      if (existing) throw new ConflictException('Already a member');
+
+      await tx.workspaceMember.create({
+        data: {
+          workspaceId: invitation.workspaceId,
+          userId,
+          role: invitation.role,
+        },
+      });
+      return { ...invitation.workspace, role: invitation.role };
+    });
+  }
+}
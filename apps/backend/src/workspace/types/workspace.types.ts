@@ -0,0 +1,8 @@
+import { WorkspaceRole } from '@prisma/client';
+import { ApiKeyPayload, UserPayload } from '../../auth/types/auth.types';
+
+// Request user behind WorkspaceGuard, which checked the membership
+export type WorkspaceUser = (UserPayload | ApiKeyPayload) & {
+  wid: string;
+  workspaceRole: WorkspaceRole;
+};
@@ -0,0 +1,20 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Prisma, WorkspaceRole } from '@prisma/client';
+
+// Roles allowed to manage members, invitations and settings
+export const MANAGER_ROLES: WorkspaceRole[] = ['OWNER', 'ADMIN'];
+
+// Nested create of the workspace a new user owns, named after them until
+// they rename it
+export function personalWorkspace(email: string) {
+  return {
+    create: { role: 'OWNER', workspace: { create: { name: email } } },
+  } satisfies Prisma.WorkspaceMemberCreateNestedManyWithoutUserInput;
+}
+
+// Admins manage everyone but the owners, and cannot make new ones
+export function assertCanManage(actorRole: WorkspaceRole, role: WorkspaceRole) {
+  if (role === 'OWNER' && actorRole !== 'OWNER') {
+    throw new ForbiddenException('Only owners can manage owners');
+  }
+}
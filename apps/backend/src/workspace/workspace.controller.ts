@@ -0,0 +1,155 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GetUser } from '../auth/decorator/get-user.decorator';
+import { UserPayload } from '../auth/types/auth.types';
+import { WorkspaceService } from './workspace.service';
+import { InvitationService } from './invitation.service';
+import { WorkspaceGuard } from './guard/workspace.guard';
+import { WorkspaceRoles } from './decorator/workspace-roles.decorator';
+import { WorkspaceUser } from './types/workspace.types';
+import { MANAGER_ROLES } from './utils/workspace.util';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
+import { UpdateNumberingDto } from './dto/update-numbering.dto';
+import { UpdateDocumentSettingsDto } from './dto/update-document-settings.dto';
+import { UpdateMemberDto } from './dto/update-member.dto';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+
+// "current" is the workspace of the access token, see POST /auth/workspace
+@Controller('workspaces')
+@UseGuards(AuthGuard('jwt'))
+export class WorkspaceController {
+  constructor(
+    private workspaceService: WorkspaceService,
+    private invitationService: InvitationService,
+  ) {}
+
+  @Get()
+  findAll(@GetUser() user: UserPayload) {
+    return this.workspaceService.findAll(user.sub);
+  }
+
+  @Post()
+  create(@Body() dto: CreateWorkspaceDto, @GetUser() user: UserPayload) {
+    return this.workspaceService.create(user.sub, dto);
+  }
+
+  @Post('invitations/accept')
+  @HttpCode(HttpStatus.OK)
+  acceptInvitation(
+    @Body() dto: AcceptInvitationDto,
+    @GetUser() user: UserPayload,
+  ) {
+    return this.invitationService.accept(user.sub, dto.token);
+  }
+
+  @UseGuards(WorkspaceGuard)
+  @Get('current')
+  findCurrent(@GetUser() user: WorkspaceUser) {
+    return this.workspaceService.findOne(user.wid);
+  }
+
+  @UseGuards(WorkspaceGuard)
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Patch('current')
+  update(@Body() dto: UpdateWorkspaceDto, @GetUser() user: WorkspaceUser) {
+    return this.workspaceService.update(user.wid, dto);
+  }
+
+  @UseGuards(WorkspaceGuard)
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Patch('current/numbering')
+  updateNumbering(
+    @Body() dto: UpdateNumberingDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.workspaceService.updateNumbering(user.wid, dto);
+  }
+
+  @UseGuards(WorkspaceGuard)
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Patch('current/document-settings')
+  updateDocumentSettings(
+    @Body() dto: UpdateDocumentSettingsDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.workspaceService.updateDocumentSettings(user.wid, dto);
+  }
+
+  @UseGuards(WorkspaceGuard)
+  @Get('current/members')
+  findMembers(@GetUser() user: WorkspaceUser) {
+    return this.workspaceService.findMembers(user.wid);
+  }
+
+  @UseGuards(WorkspaceGuard)
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Patch('current/members/:id')
+  updateMember(
+    @Param('id') id: string,
+    @Body() dto: UpdateMemberDto,
+    @GetUser() user: WorkspaceUser,
+  ) {
+    return this.workspaceService.updateMember(
+      user.wid,
+      user.workspaceRole,
+      id,
+      dto.role,
+    );
+  }
+
+  @UseGuards(WorkspaceGuard)
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Delete('current/members/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeMember(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.workspaceService.removeMember(user.wid, user.workspaceRole, id);
+  }
+
+  // Open to every role, accountants included
+  @UseGuards(WorkspaceGuard)
+  @WorkspaceRoles('OWNER', 'ADMIN', 'MEMBER', 'ACCOUNTANT')
+  @Post('current/leave')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  leave(@GetUser() user: WorkspaceUser) {
+    return this.workspaceService.leave(user.wid, user.sub);
+  }
+
+  @UseGuards(WorkspaceGuard)
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Get('current/invitations')
+  findInvitations(@GetUser() user: WorkspaceUser) {
+    return this.invitationService.findAll(user.wid);
+  }
+
+  @UseGuards(WorkspaceGuard)
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Post('current/invitations')
+  invite(@Body() dto: CreateInvitationDto, @GetUser() user: WorkspaceUser) {
+    return this.invitationService.create(
+      user.wid,
+      { id: user.sub, email: user.email, role: user.workspaceRole },
+      dto,
+    );
+  }
+
+  @UseGuards(WorkspaceGuard)
+  @WorkspaceRoles(...MANAGER_ROLES)
+  @Delete('current/invitations/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeInvitation(@Param('id') id: string, @GetUser() user: WorkspaceUser) {
+    return this.invitationService.remove(user.wid, id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { MailModule } from '../mail/mail.module';
+import { WorkspaceService } from './workspace.service';
+import { InvitationService } from './invitation.service';
+import { WorkspaceController } from './workspace.controller';
+
+@Module({
+  imports: [PrismaModule, MailModule],
+  controllers: [WorkspaceController],
+  providers: [WorkspaceService, InvitationService],
+})
+export class WorkspaceModule {}
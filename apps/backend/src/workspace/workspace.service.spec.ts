@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { WorkspaceService } from './workspace.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('WorkspaceService', () => {
+  let service: WorkspaceService;
+  const prisma = {
+    $transaction: jest.fn(),
+    workspaceMember: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    session: { updateMany: jest.fn() },
+  };
+
+  const owner = {
+    id: 'member-1',
+    workspaceId: 'workspace-1',
+    userId: 'user-1',
+    role: 'OWNER',
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkspaceService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<WorkspaceService>(WorkspaceService);
+  });
+
+  it('keeps the last owner', async () => {
+    prisma.workspaceMember.findUnique.mockResolvedValue(owner);
+    prisma.workspaceMember.findFirst.mockResolvedValue(owner);
+    prisma.workspaceMember.count.mockResolvedValue(1);
+
+    await expect(service.leave('workspace-1', 'user-1')).rejects.toThrow(
+      ConflictException,
+    );
+    await expect(
+      service.updateMember('workspace-1', 'OWNER', 'member-1', 'ADMIN'),
+    ).rejects.toThrow(ConflictException);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(prisma.workspaceMember.update).not.toHaveBeenCalled();
+  });
+
+  it('only lets owners manage owners', async () => {
+    prisma.workspaceMember.findFirst.mockResolvedValue(owner);
+
+    await expect(
+      service.removeMember('workspace-1', 'ADMIN', 'member-1'),
+    ).rejects.toThrow(ForbiddenException);
+
+    prisma.workspaceMember.findFirst.mockResolvedValue({
+      ...owner,
+      role: 'MEMBER',
+    });
+    await expect(
+      service.updateMember('workspace-1', 'ADMIN', 'member-1', 'OWNER'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('takes the workspace off the sessions of removed members', async () => {
+    prisma.workspaceMember.findFirst.mockResolvedValue({
+      ...owner,
+      userId: 'user-2',
+      role: 'MEMBER',
+    });
+
+    await service.removeMember('workspace-1', 'ADMIN', 'member-1');
+
+    expect(prisma.workspaceMember.delete).toHaveBeenCalledWith({
+      where: { id: 'member-1' },
+    });
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-2', workspaceId: 'workspace-1' },
+      data: { workspaceId: null },
+    });
+    expect(prisma.$transaction).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { WorkspaceRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
+import { UpdateNumberingDto } from './dto/update-numbering.dto';
+import { UpdateDocumentSettingsDto } from './dto/update-document-settings.dto';
+import { assertCanManage } from './utils/workspace.util';
+
+const MEMBER_SELECT = {
+  id: true,
+  role: true,
+  createdAt: true,
+  user: { select: { id: true, email: true } },
+} as const;
+
+@Injectable()
+export class WorkspaceService {
+  constructor(private prisma: PrismaService) {}
+
+  // Workspaces of the user, to switch between them
+  async findAll(userId: string) {
+    const memberships = await this.prisma.workspaceMember.findMany({
+      where: { userId },
+      select: { role: true, workspace: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map(({ role, workspace }) => ({ ...workspace, role }));
+  }
+
+  create(userId: string, dto: CreateWorkspaceDto) {
+    return this.prisma.workspace.create({
+      data: { name: dto.name, members: { create: { userId, role: 'OWNER' } } },
+    });
+  }
+
+  async findOne(workspaceId: string) {
+    const workspace = await this.prisma.workspace.findUnique({
+      where: { id: workspaceId },
+    });
+    if (!workspace) throw new NotFoundException('Workspace not found');
+    return workspace;
+  }
+
+  update(workspaceId: string, dto: UpdateWorkspaceDto) {
+    return this.prisma.workspace.update({
+      where: { id: workspaceId },
+      data: dto,
+    });
+  }
+
+  updateNumbering(workspaceId: string, dto: UpdateNumberingDto) {
+    return this.prisma.workspace.update({
+      where: { id: workspaceId },
+      data: dto,
+      select: {
+        id: true,
+        invoiceNumberPattern: true,
+        quoteNumberPattern: true,
+        creditNoteNumberPattern: true,
+      },
+    });
+  }
+
+  updateDocumentSettings(workspaceId: string, dto: UpdateDocumentSettingsDto) {
+    return this.prisma.workspace.update({
+      where: { id: workspaceId },
+      data: dto,
+      select: {
+        id: true,
+        documentTemplate: true,
+        documentAccentColor: true,
+        documentFooter: true,
+        mailSenderName: true,
+      },
+    });
+  }
+
+  findMembers(workspaceId: string) {
+    return this.prisma.workspaceMember.findMany({
+      where: { workspaceId },
+      select: MEMBER_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async updateMember(
+    workspaceId: string,
+    actorRole: WorkspaceRole,
+    id: string,
+    role: WorkspaceRole,
+  ) {
+    const member = await this.findMember(workspaceId, id);
+    assertCanManage(actorRole, member.role);
+    assertCanManage(actorRole, role);
+    if (member.role === 'OWNER' && role !== 'OWNER') {
+      await this.assertNotLastOwner(workspaceId);
+    }
+
+    return this.prisma.workspaceMember.update({
+      where: { id },
+      data: { role },
+      select: MEMBER_SELECT,
+    });
+  }
+
+  async removeMember(
+    workspaceId: string,
+    actorRole: WorkspaceRole,
+    id: string,
+  ) {
+    const member = await this.findMember(workspaceId, id);
+    assertCanManage(actorRole, member.role);
+    await this.remove(member);
+  }
+
+  // Any member can leave, as long as an owner stays
+  async leave(workspaceId: string, userId: string) {
+    const member = await this.prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+    });
+    if (!member) throw new NotFoundException('Member not found');
+    await this.remove(member);
+  }
+
+  private async findMember(workspaceId: string, id: string) {
+    const member = await this.prisma.workspaceMember.findFirst({
+      where: { id, workspaceId },
+    });
+    if (!member) throw new NotFoundException('Member not found');
+    return member;
+  }
+
+  // The sessions opened in the workspace fall back to no workspace, so the
+  // next tokens of the removed member do not carry it
+  private async remove(member: {
+    id: string;
+    workspaceId: string;
+    userId: string;
+    role: WorkspaceRole;
+  }) {
+    if (member.role === 'OWNER') {
+      await this.assertNotLastOwner(member.workspaceId);
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.workspaceMember.delete({ where: { id: member.id } }),
+      this.prisma.session.updateMany({
+        where: { userId: member.userId, workspaceId: member.workspaceId },
+        data: { workspaceId: null },
+      }),
+    ]);
+  }
+
+  private async assertNotLastOwner(workspaceId: string) {
+    const owners = await this.prisma.workspaceMember.count({
+      where: { workspaceId, role: 'OWNER' },
+    });
+    if (owners <= 1) {
+      throw new ConflictException('A workspace keeps at least one owner');
+    }
+  }
+}
@@ -1,79 +1,72 @@
+"use client";
+
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { 
-  DollarSign, 
-  FileText, 
-  Users, 
-  TrendingUp, 
-  Clock, 
-  CheckCircle, 
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DollarSign,
+  FileText,
+  Users,
+  TrendingUp,
+  TrendingDown,
+  Clock,
+  CheckCircle,
   AlertCircle,
   Plus,
   Eye,
   Download,
   Send
 } from "lucide-react";
+import { ApiError, DashboardStats, getDashboardStats, getInvoices, InvoiceSummary } from "@/lib/api";
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+// Same default window as the API: the last twelve months
+function defaultRange() {
+  const to = new Date();
+  const from = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - 11, 1));
+  return { from: toDateInput(from), to: toDateInput(to) };
+}
 
 export default function Dashboard() {
-  // Mock data - replace with real API calls later
-  const stats = {
-    totalRevenue: 45750,
-    outstandingAmount: 12300,
-    paidInvoices: 28,
-    pendingInvoices: 7,
-    totalClients: 15,
-    activeProjects: 9
-  };
+  const [range, setRange] = useState(defaultRange);
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [recentInvoices, setRecentInvoices] = useState<InvoiceSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
 
-  const recentInvoices = [
-    {
-      id: "INV-001",
-      client: "Acme Corp",
-      project: "Website Redesign",
-      amount: 2500,
-      status: "paid",
-      date: "2024-01-15",
-      dueDate: "2024-02-15"
-    },
-    {
-      id: "INV-002", 
-      client: "TechStart Inc",
-      project: "Mobile App",
-      amount: 4200,
-      status: "sent",
-      date: "2024-01-12",
-      dueDate: "2024-02-12"
-    },
-    {
-      id: "INV-003",
-      client: "Design Studio",
-      project: "Brand Identity",
-      amount: 1800,
-      status: "draft",
-      date: "2024-01-10",
-      dueDate: "2024-02-10"
-    },
-    {
-      id: "INV-004",
-      client: "E-commerce Co",
-      project: "Online Store",
-      amount: 3500,
-      status: "overdue",
-      date: "2023-12-20",
-      dueDate: "2024-01-20"
-    }
-  ];
+  useEffect(() => {
+    getDashboardStats(range)
+      .then((data) => {
+        setStats(data);
+        setError(null);
+      })
+      .catch((err: unknown) =>
+        setError(err instanceof ApiError && err.status === 401 ? "Please sign in to see your dashboard." : "Could not load statistics.")
+      );
+  }, [range]);
+
+  useEffect(() => {
+    getInvoices()
+      .then((invoices) =>
+        setRecentInvoices(
+          [...invoices].sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, 4)
+        )
+      )
+      .catch(() => setRecentInvoices([]));
+  }, []);
 
-  const topClients = [
-    { name: "Acme Corp", revenue: 12500, projects: 4, status: "active" },
-    { name: "TechStart Inc", revenue: 8900, projects: 3, status: "active" },
-    { name: "Design Studio", revenue: 6200, projects: 2, status: "active" },
-    { name: "E-commerce Co", revenue: 5400, projects: 2, status: "pending" }
-  ];
+  // Last month of the range compared to the one before
+  const series = stats?.monthlyRevenue ?? [];
+  const current = series.at(-1)?.revenue ?? 0;
+  const previous = series.at(-2)?.revenue ?? 0;
+  const monthChange = previous > 0 ? Math.round(((current - previous) / previous) * 100) : null;
+  const maxMonthly = Math.max(...series.map((m) => m.revenue), 0);
 
   const getStatusColor = (status: string) => {
-    switch (status) {
+    switch (status.toLowerCase()) {
       case 'paid': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
       case 'sent': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300';
       case 'draft': return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300';
@@ -83,7 +76,7 @@ export default function Dashboard() {
   };
 
   const getStatusIcon = (status: string) => {
-    switch (status) {
+    switch (status.toLowerCase()) {
       case 'paid': return <CheckCircle className="w-4 h-4" />;
       case 'sent': return <Send className="w-4 h-4" />;
       case 'draft': return <FileText className="w-4 h-4" />;
@@ -131,8 +124,33 @@ export default function Dashboard() {
             Welcome back! 👋
           </h2>
           <p className="text-gray-600 dark:text-gray-400">
-            Here's what's happening with your freelance business today.
+            Here&apos;s what&apos;s happening with your freelance business today.
           </p>
+          <div className="flex flex-wrap items-end gap-4 mt-4">
+            <div className="space-y-1">
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="to">To</Label>
+              <Input
+                id="to"
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+              />
+            </div>
+          </div>
+          {error && (
+            <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
         </div>
 
         {/* Stats Grid */}
@@ -146,12 +164,14 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-green-900 dark:text-green-100">
-                €{stats.totalRevenue.toLocaleString()}
+                €{(stats?.totalRevenue ?? 0).toLocaleString()}
               </div>
-              <p className="text-xs text-green-600 dark:text-green-400 flex items-center mt-1">
-                <TrendingUp className="w-3 h-3 mr-1" />
-                +12% from last month
-              </p>
+              {monthChange !== null && (
+                <p className="text-xs text-green-600 dark:text-green-400 flex items-center mt-1">
+                  {monthChange >= 0 ? <TrendingUp className="w-3 h-3 mr-1" /> : <TrendingDown className="w-3 h-3 mr-1" />}
+                  {monthChange >= 0 ? "+" : ""}{monthChange}% from last month
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -164,10 +184,10 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-orange-900 dark:text-orange-100">
-                €{stats.outstandingAmount.toLocaleString()}
+                €{(stats?.outstandingAmount ?? 0).toLocaleString()}
               </div>
               <p className="text-xs text-orange-600 dark:text-orange-400">
-                {stats.pendingInvoices} pending invoices
+                {stats?.pendingInvoices ?? 0} pending invoices
               </p>
             </CardContent>
           </Card>
@@ -181,10 +201,10 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-blue-900 dark:text-blue-100">
-                {stats.totalClients}
+                {stats?.activeClients ?? 0}
               </div>
               <p className="text-xs text-blue-600 dark:text-blue-400">
-                {stats.activeProjects} active projects
+                {stats?.activeProjects ?? 0} active projects
               </p>
             </CardContent>
           </Card>
@@ -198,10 +218,10 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-purple-900 dark:text-purple-100">
-                {stats.paidInvoices}
+                {stats?.paidInvoices ?? 0}
               </div>
               <p className="text-xs text-purple-600 dark:text-purple-400">
-                This month
+                Over the selected period
               </p>
             </CardContent>
           </Card>
@@ -227,6 +247,9 @@ export default function Dashboard() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
+                  {recentInvoices.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No invoices yet.</p>
+                  )}
                   {recentInvoices.map((invoice) => (
                     <div key={invoice.id} className="flex items-center justify-between p-4 rounded-lg border bg-card hover:bg-accent/50 transition-colors">
                       <div className="flex items-center space-x-4">
@@ -235,21 +258,23 @@ export default function Dashboard() {
                         </div>
                         <div>
                           <div className="flex items-center space-x-2">
-                            <p className="font-medium">{invoice.id}</p>
+                            <p className="font-medium">{invoice.number ?? "Draft"}</p>
                             <Badge className={getStatusColor(invoice.status)}>
                               {invoice.status}
                             </Badge>
                           </div>
                           <p className="text-sm text-muted-foreground">
-                            {invoice.client} • {invoice.project}
-                          </p>
-                          <p className="text-xs text-muted-foreground">
-                            Due: {new Date(invoice.dueDate).toLocaleDateString()}
+                            {invoice.client.name} • {invoice.project?.title ?? invoice.title}
                           </p>
+                          {invoice.dueDate && (
+                            <p className="text-xs text-muted-foreground">
+                              Due: {new Date(invoice.dueDate).toLocaleDateString()}
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="font-semibold">€{invoice.amount.toLocaleString()}</p>
+                        <p className="font-semibold">€{invoice.amountTTC.toLocaleString()}</p>
                         <div className="flex items-center space-x-1 mt-1">
                           <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
                             <Eye className="w-4 h-4" />
@@ -277,8 +302,11 @@ export default function Dashboard() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {topClients.map((client, index) => (
-                    <div key={client.name} className="flex items-center space-x-4">
+                  {stats?.topClients.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No revenue over this period.</p>
+                  )}
+                  {stats?.topClients.map((client) => (
+                    <div key={client.id} className="flex items-center space-x-4">
                       <div className="flex items-center justify-center w-10 h-10 rounded-full bg-gradient-to-r from-indigo-100 to-purple-100 dark:from-indigo-900 dark:to-purple-900">
                         <span className="font-medium text-sm">
                           {client.name.charAt(0)}
@@ -289,12 +317,9 @@ export default function Dashboard() {
                         <div className="flex items-center space-x-2 text-sm text-muted-foreground">
                           <span>€{client.revenue.toLocaleString()}</span>
                           <span>•</span>
-                          <span>{client.projects} projects</span>
+                          <span>{client.invoiceCount} invoices</span>
                         </div>
                       </div>
-                      <Badge variant={client.status === 'active' ? 'default' : 'secondary'}>
-                        {client.status}
-                      </Badge>
                     </div>
                   ))}
                 </div>
@@ -338,18 +363,21 @@ export default function Dashboard() {
           <CardHeader>
             <CardTitle className="text-xl">Revenue Overview</CardTitle>
             <CardDescription>
-              Monthly income trends and projections
+              Monthly revenue excl. VAT, net of credit notes
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="h-64 bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-950 dark:to-purple-950 rounded-lg flex items-center justify-center">
-              <div className="text-center">
-                <TrendingUp className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
-                <p className="text-muted-foreground">Revenue chart will be implemented here</p>
-                <p className="text-sm text-muted-foreground mt-2">
-                  Integration with Chart.js or Recharts coming soon
-                </p>
-              </div>
+            <div className="h-64 flex items-end gap-2">
+              {series.map((m) => (
+                <div key={m.month} className="flex-1 h-full flex flex-col items-center justify-end gap-2">
+                  <div
+                    className="w-full rounded-t-md bg-gradient-to-t from-blue-500 to-purple-500"
+                    style={{ height: `${maxMonthly > 0 ? (Math.max(m.revenue, 0) / maxMonthly) * 100 : 0}%` }}
+                    title={`€${m.revenue.toLocaleString()}`}
+                  />
+                  <span className="text-xs text-muted-foreground">{m.month.slice(2)}</span>
+                </div>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -0,0 +1,66 @@
+export const API_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3000";
+
+// JWT returned by /auth/signin, kept by the login flow
+const TOKEN_KEY = "access_token";
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export async function apiFetch<T>(path: string, init?: RequestInit): Promise<T> {
+  const token = typeof window !== "undefined" ? localStorage.getItem(TOKEN_KEY) : null;
+
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...init?.headers,
+    },
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new ApiError(res.status, body?.message ?? res.statusText);
+  }
+
+  return res.json();
+}
+
+export interface DashboardStats {
+  from: string;
+  to: string;
+  totalRevenue: number;
+  outstandingAmount: number;
+  paidInvoices: number;
+  pendingInvoices: number;
+  activeClients: number;
+  activeProjects: number;
+  topClients: { id: string; name: string; revenue: number; invoiceCount: number }[];
+  monthlyRevenue: { month: string; revenue: number }[];
+}
+
+export interface InvoiceSummary {
+  id: string;
+  number: string | null;
+  title: string;
+  status: "DRAFT" | "SENT" | "PAID" | "OVERDUE" | "CANCELLED" | "CREDITED";
+  amountTTC: number;
+  dueDate: string | null;
+  createdAt: string;
+  client: { name: string };
+  project: { title: string } | null;
+}
+
+export function getDashboardStats(range: { from?: string; to?: string }) {
+  const params = new URLSearchParams();
+  if (range.from) params.set("from", range.from);
+  if (range.to) params.set("to", range.to);
+  return apiFetch<DashboardStats>(`/analytics/dashboard?${params}`);
+}
+
+export function getInvoices() {
+  return apiFetch<InvoiceSummary[]>("/invoices");
+}